@@ -0,0 +1,54 @@
+import { escapeHtml, renderCheckoutForm, renderClickButton } from '../utils/checkout.html';
+
+describe('escapeHtml', () => {
+  it('escapes the characters that end content or a quoted attribute', () => {
+    expect(escapeHtml(`<a href="x" title='y'>&amp;</a>`)).toBe('&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;amp;&lt;/a&gt;');
+  });
+});
+
+describe('renderCheckoutForm', () => {
+  const options = { form_id: 'payme-checkout', button_text: 'Pay', auto_submit: false };
+
+  it('escapes the action, field names and values', () => {
+    const html = renderCheckoutForm('https://checkout.test/?a=1&b=2', [['account[order_id]', '"><img src=x onerror=alert(1)>']], options);
+
+    expect(html).toContain('action="https://checkout.test/?a=1&amp;b=2"');
+    expect(html).toContain('<input type="hidden" name="account[order_id]" value="&quot;&gt;&lt;img src=x onerror=alert(1)&gt;"/>');
+    expect(html).not.toContain('<img');
+  });
+
+  it('escapes the button text', () => {
+    expect(renderCheckoutForm('/', [], { ...options, button_text: '<b>Pay</b>' }))
+      .toContain('<button type="submit">&lt;b&gt;Pay&lt;/b&gt;</button>');
+  });
+
+  it('keeps a hostile form id from closing the auto-submit script', () => {
+    const html = renderCheckoutForm('/', [], { ...options, form_id: '</script><script>alert(1)</script>', auto_submit: true });
+    const script = html.slice(html.indexOf('<script>'));
+
+    expect(html).toContain('<form id="&lt;/script&gt;&lt;script&gt;alert(1)&lt;/script&gt;"');
+    expect(script).toBe('<script>document.getElementById("\\u003c/script>\\u003cscript>alert(1)\\u003c/script>").submit();</script>');
+  });
+
+  it('leaves the script out without auto_submit', () => {
+    expect(renderCheckoutForm('/', [], options)).not.toContain('<script>');
+  });
+});
+
+describe('renderClickButton', () => {
+  it('escapes the URL, label, class and target', () => {
+    const html = renderClickButton('https://my.click.uz/services/pay?a=1&b="2"', {
+      label: '<Pay>',
+      class_name: 'btn" onclick="x',
+      target: '_blank'
+    });
+
+    expect(html).toBe(
+      '<a href="https://my.click.uz/services/pay?a=1&amp;b=&quot;2&quot;" class="btn&quot; onclick=&quot;x" target="_blank" rel="noopener">&lt;Pay&gt;</a>'
+    );
+  });
+
+  it('uses the inline brand style without a class', () => {
+    expect(renderClickButton('https://my.click.uz')).toMatch(/^<a href="https:\/\/my\.click\.uz" style="[^"]+">Pay with CLICK<\/a>$/);
+  });
+});
@@ -0,0 +1,81 @@
+import { ValidationError } from '../errors/payment.error';
+import {
+  buildClickCheckoutUrl,
+  buildPaymeCheckoutUrl,
+  parsePaymeCheckoutUrl,
+  validatePaymeCheckoutParams,
+} from '../utils/checkout.url';
+
+const PAYME_URL = 'https://checkout.paycom.uz';
+
+describe('Payme checkout URL', () => {
+  it('parses back what it builds', () => {
+    const params = { m: 'merchant', ac: { order_id: '1', user_id: '42' }, a: 500000, l: 'uz' as const, ct: 15000, cr: '860' };
+
+    expect(parsePaymeCheckoutUrl(buildPaymeCheckoutUrl(PAYME_URL, params))).toEqual(params);
+  });
+
+  it('parses a URL whose base64 path contains a slash', () => {
+    const params = { m: 'abc', ac: { order_id: '1' }, a: 500000, l: 'uz' as const, c: 'https://x.uz/r?a=1' };
+
+    const url = buildPaymeCheckoutUrl(PAYME_URL, params);
+
+    expect(new URL(url).pathname.slice(1)).toContain('/');
+    expect(parsePaymeCheckoutUrl(url)).toEqual(params);
+  });
+
+  it('keeps return URLs with paths and query strings intact', () => {
+    const params = { m: 'merchant', ac: { order_id: 'A-17' }, a: 100, c: 'https://shop.uz/orders/A-17/done?from=payme&lang=uz' };
+
+    expect(parsePaymeCheckoutUrl(buildPaymeCheckoutUrl(`${PAYME_URL}/`, params)).c).toBe(params.c);
+  });
+
+  it('accepts the bare base64 path', () => {
+    const url = buildPaymeCheckoutUrl(PAYME_URL, { m: 'merchant', ac: { order_id: '1' }, a: 100 });
+
+    expect(parsePaymeCheckoutUrl(url.slice(PAYME_URL.length + 1))).toEqual({ m: 'merchant', ac: { order_id: '1' }, a: 100 });
+  });
+
+  it('reports every invalid parameter', () => {
+    const errors = validatePaymeCheckoutParams({ m: '', ac: {}, a: 0, c: 'shop.uz/return' });
+
+    expect(errors.map(error => error.field)).toEqual(['m', 'a', 'ac', 'c']);
+  });
+
+  it("refuses values containing ';'", () => {
+    expect(() => buildPaymeCheckoutUrl(PAYME_URL, { m: 'merchant', ac: { order_id: '1;a=1' }, a: 100 }))
+      .toThrow(ValidationError);
+  });
+
+  it('rejects an unknown or malformed parameter', () => {
+    const encode = (value: string) => `${PAYME_URL}/${Buffer.from(value).toString('base64')}`;
+
+    expect(() => parsePaymeCheckoutUrl(encode('m=merchant;ac.order_id=1;a=100;x=1'))).toThrow("Unknown Payme checkout parameter 'x'");
+    expect(() => parsePaymeCheckoutUrl(encode('m=merchant;ac.order_id=1;a100'))).toThrow("Malformed Payme checkout parameter 'a100'");
+    expect(() => parsePaymeCheckoutUrl(encode('m=merchant;ac.order_id=1;a=1.5'))).toThrow('a must be a positive amount');
+  });
+});
+
+describe('Click checkout URL', () => {
+  const params = { service_id: '2001', merchant_id: '101', amount: '5000.00', transaction_param: 'order-1' };
+
+  it('leaves unset optional parameters out', () => {
+    const url = new URL(buildClickCheckoutUrl('https://my.click.uz/services/pay', params));
+
+    expect(Object.fromEntries(url.searchParams)).toEqual(params);
+  });
+
+  it('encodes a return URL with its own query string', () => {
+    const url = new URL(buildClickCheckoutUrl('https://my.click.uz/services/pay', {
+      ...params,
+      return_url: 'https://shop.uz/done?order=1&lang=uz'
+    }));
+
+    expect(url.searchParams.get('return_url')).toBe('https://shop.uz/done?order=1&lang=uz');
+  });
+
+  it('refuses extra parameters that override documented ones', () => {
+    expect(() => buildClickCheckoutUrl('https://my.click.uz/services/pay', params, { amount: '1' }))
+      .toThrow('extra_params must not override the Click parameter amount');
+  });
+});
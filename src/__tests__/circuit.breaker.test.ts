@@ -0,0 +1,68 @@
+import { CircuitBreaker } from '../utils/circuit.breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('opens after failure_threshold consecutive failures', () => {
+    const breaker = new CircuitBreaker({ failure_threshold: 3 });
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('lets a single probe through once reset_timeout has elapsed and closes when it succeeds', () => {
+    const breaker = new CircuitBreaker({ failure_threshold: 1, reset_timeout: 1000 });
+    breaker.recordFailure();
+
+    now += 1000;
+    expect(breaker.state).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('re-opens when the probe fails', () => {
+    const breaker = new CircuitBreaker({ failure_threshold: 1, reset_timeout: 1000 });
+    breaker.recordFailure();
+    now += 1000;
+    breaker.tryAcquire();
+
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    now += 999;
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('lets another probe through after one is released without a verdict', () => {
+    const breaker = new CircuitBreaker({ failure_threshold: 1, reset_timeout: 1000 });
+    breaker.recordFailure();
+    now += 1000;
+    breaker.tryAcquire();
+
+    breaker.release();
+
+    expect(breaker.state).toBe('half_open');
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
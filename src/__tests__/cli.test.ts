@@ -0,0 +1,92 @@
+import { runCli, USAGE } from '../cli/cli';
+import { parsePaymeCheckoutUrl } from '../utils/checkout.url';
+import { clickSignString, paymeBasicToken } from '../utils/webhook.security';
+
+const ENV = {
+  NODE_ENV: 'test',
+  PAYME_MERCHANT_ID: 'merchant',
+  PAYME_PASSWORD_TEST: 'test-key',
+  CLICK_MERCHANT_ID: '101',
+  CLICK_SERVICE_ID: '2001',
+  CLICK_SECRET: 'click-secret'
+};
+
+async function run(argv: string[], env: Record<string, string | undefined> = ENV) {
+  let out = '';
+  let err = '';
+  const code = await runCli(argv, { out: text => { out += text; }, err: text => { err += text; }, env });
+  return { code, out, err };
+}
+
+describe('uzpay CLI', () => {
+  it('prints the usage for --help, and exits with 2 without a command', async () => {
+    expect(await run(['--help'])).toEqual({ code: 0, out: USAGE, err: '' });
+    expect(await run([])).toMatchObject({ code: 2, out: USAGE });
+  });
+
+  it.each([
+    [['link', 'payme', '--order'], "Option '--order <value>' argument missing"],
+    [['link', 'payme', '--colour', 'red'], "Unknown option '--colour'"],
+    [['refund', 'payme'], 'Unknown command refund'],
+    [['verify', 'paypal', 'tx-1'], 'Expected provider payme or click, got paypal'],
+    [['verify', 'payme'], 'Missing transaction_id'],
+    [['link', 'payme', '--amount', '5000'], 'Missing --order'],
+    [['link', 'payme', '--order', '1', '--amount', '15k'], "Invalid amount 15k; expected so'm"],
+    [['cancel', 'payme', 'tx-1'], 'pass --yes to confirm']
+  ])('rejects %j with exit code 2', async (argv, message) => {
+    const { code, err } = await run(argv);
+
+    expect(code).toBe(2);
+    expect(err).toContain(message);
+  });
+
+  it('names the missing provider configuration', async () => {
+    const { code, err } = await run(['link', 'click', '--order', '1', '--amount', '5000'], { NODE_ENV: 'test' });
+
+    expect(code).toBe(2);
+    expect(err).toContain('click is not configured; pass --config or set the CLICK_* variables');
+  });
+
+  it('builds a Payme checkout link from so\'m', async () => {
+    const { code, out } = await run(['link', 'payme', '--order', 'A-17', '--amount', '15000.50']);
+
+    expect(code).toBe(0);
+    expect(parsePaymeCheckoutUrl(out.trim())).toMatchObject({ m: 'merchant', ac: { order_id: 'A-17' }, a: 1500050 });
+  });
+
+  it('prints JSON with --json', async () => {
+    const { out } = await run(['link', 'click', '--order', 'A-17', '--amount', '5000', '--json']);
+
+    expect(JSON.parse(out)).toMatchObject({
+      provider: 'click',
+      order_id: 'A-17',
+      amount: { tiyin: 500000, currency: 'UZS' },
+      url: expect.stringContaining('transaction_param=A-17')
+    });
+  });
+
+  it('prints the Payme webhook Authorization header', async () => {
+    expect((await run(['sign', 'payme'])).out).toBe(`Basic ${paymeBasicToken('test-key', 'Paycom')}\n`);
+  });
+
+  it('signs a Click webhook from its flags', async () => {
+    const { code, out } = await run([
+      'sign', 'click',
+      '--click-trans-id', '1',
+      '--merchant-trans-id', 'order-1',
+      '--amount', '5000',
+      '--action', '0',
+      '--sign-time', '2024-01-01 12:00:00'
+    ]);
+
+    expect(code).toBe(0);
+    expect(out).toBe(`${clickSignString({
+      click_trans_id: '1',
+      service_id: '2001',
+      merchant_trans_id: 'order-1',
+      amount: '5000',
+      action: '0',
+      sign_time: '2024-01-01 12:00:00'
+    }, 'click-secret')}\n`);
+  });
+});
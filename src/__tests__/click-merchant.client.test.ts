@@ -0,0 +1,46 @@
+import { AxiosResponse } from 'axios';
+import { ClickMerchantClient } from '../clients/click-merchant.client';
+import { AuthenticationError, GatewayError } from '../errors/payment.error';
+import { ClickMerchantErrorCodes } from '../interfaces/click-merchant.interface';
+import { HttpClient } from '../utils/http.client';
+import { NoopLogger } from '../utils/logger';
+
+function createClient(data: Record<string, unknown>) {
+  const httpClient = new HttpClient(1000, 0, 0, { logger: new NoopLogger() });
+  const request = jest.spyOn(httpClient, 'request').mockResolvedValue({ status: 200, data } as AxiosResponse);
+  const client = new ClickMerchantClient(httpClient, { merchant_user_id: '42', service_id: '2001', secret_key: 'secret' });
+  return { client, request };
+}
+
+describe('ClickMerchantClient', () => {
+  it('returns the response of a successful call', async () => {
+    const { client, request } = createClient({ error_code: 0, error_note: 'Success', payment_id: 77, payment_status: 2 });
+
+    const status = await client.getPaymentStatus(77);
+
+    expect(status).toMatchObject({ success: true, result: { payment_id: 77, payment_status: 2 } });
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'GET',
+      url: 'https://api.click.uz/v2/merchant/payment/status/2001/77',
+      headers: expect.objectContaining({ Auth: expect.stringMatching(/^42:[0-9a-f]{40}:\d+$/) })
+    }));
+  });
+
+  it('reports rejected credentials as an AuthenticationError', async () => {
+    const { client } = createClient({ error_code: ClickMerchantErrorCodes.AuthenticationFailed, error_note: 'Authentication failed' });
+
+    const status = await client.getPaymentStatus(77);
+
+    expect(status.error).toBeInstanceOf(AuthenticationError);
+    expect(status.error).toMatchObject({ kind: 'authentication', code: 'AUTHORIZATION_ERROR', message: 'Authentication failed' });
+  });
+
+  it('reports other error codes as a GatewayError', async () => {
+    const { client } = createClient({ error_code: ClickMerchantErrorCodes.PaymentNotFound, error_note: 'Payment not found' });
+
+    const status = await client.getPaymentStatus(77);
+
+    expect(status.error).toBeInstanceOf(GatewayError);
+    expect(status.error).toMatchObject({ code: 'CLICK_API_ERROR', gateway_code: ClickMerchantErrorCodes.PaymentNotFound });
+  });
+});
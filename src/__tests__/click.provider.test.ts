@@ -0,0 +1,130 @@
+import { ClickProvider } from '../providers/click.provider';
+import { ClickConfig, ClickErrorCodes, ClickTransactionState, ClickWebhookRequest } from '../interfaces/click.interface';
+import { ClickTransaction } from '../interfaces/transaction.interface';
+import { InMemoryTransactionStore } from '../stores/memory.store';
+import { HttpClient } from '../utils/http.client';
+import { NoopLogger } from '../utils/logger';
+import { clickSignString } from '../utils/webhook.security';
+
+const SECRET = 'click-secret';
+
+function createProvider(store = new InMemoryTransactionStore<ClickTransaction>(), config: Partial<ClickConfig> = {}) {
+  return new ClickProvider(
+    new HttpClient(1000, 0, 0, { logger: new NoopLogger() }),
+    { merchant_id: '101', service_id: '2001', secret_key: SECRET, test_mode: true, logger: new NoopLogger(), ...config },
+    store
+  );
+}
+
+function webhook(fields: {
+  click_trans_id: number;
+  merchant_trans_id: string;
+  amount: number;
+  action: 0 | 1;
+  merchant_prepare_id?: number;
+  error?: number;
+}): ClickWebhookRequest {
+  const request = {
+    click_trans_id: String(fields.click_trans_id),
+    service_id: '2001',
+    click_paydoc_id: String(fields.click_trans_id + 500000),
+    merchant_trans_id: fields.merchant_trans_id,
+    merchant_prepare_id: fields.merchant_prepare_id !== undefined ? String(fields.merchant_prepare_id) : undefined,
+    amount: fields.amount,
+    action: fields.action,
+    error: fields.error ?? 0,
+    error_note: '',
+    sign_time: '2024-01-01 12:00:00'
+  };
+  return { ...request, sign_string: clickSignString(request, SECRET) };
+}
+
+describe('ClickProvider webhooks', () => {
+  it('confirms a prepared transaction', async () => {
+    const provider = createProvider();
+
+    const prepared = await provider.handleWebhook(webhook({ click_trans_id: 1, merchant_trans_id: 'order-1', amount: 5000, action: 0 }));
+    const completed = await provider.handleWebhook(webhook({
+      click_trans_id: 1,
+      merchant_trans_id: 'order-1',
+      amount: 5000,
+      action: 1,
+      merchant_prepare_id: prepared.merchant_prepare_id
+    }));
+
+    expect(prepared.error).toBe(ClickErrorCodes.Success);
+    expect(completed).toMatchObject({ error: ClickErrorCodes.Success, merchant_confirm_id: expect.any(Number) });
+  });
+
+  it('rejects a bad signature', async () => {
+    const provider = createProvider();
+
+    const response = await provider.handleWebhook({
+      ...webhook({ click_trans_id: 1, merchant_trans_id: 'order-1', amount: 5000, action: 0 }),
+      sign_string: 'forged'
+    });
+
+    expect(response.error).toBe(ClickErrorCodes.SignatureFailure);
+  });
+
+  it.each([0, -5000])('rejects a Prepare for %d so\'m without a findOrder hook', async amount => {
+    const store = new InMemoryTransactionStore<ClickTransaction>();
+    const provider = createProvider(store);
+
+    const response = await provider.handleWebhook(webhook({ click_trans_id: 1, merchant_trans_id: 'order-1', amount, action: 0 }));
+
+    expect(response.error).toBe(ClickErrorCodes.InvalidAmount);
+    expect(await store.findByOrderId('order-1')).toHaveLength(0);
+  });
+
+  it('issues distinct prepare ids to instances sharing a store in the same millisecond', async () => {
+    const store = new InMemoryTransactionStore<ClickTransaction>();
+    const first = createProvider(store);
+    const second = createProvider(store);
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+
+    try {
+      const a = await first.handleWebhook(webhook({ click_trans_id: 1, merchant_trans_id: 'order-1', amount: 5000, action: 0 }));
+      const b = await second.handleWebhook(webhook({ click_trans_id: 2, merchant_trans_id: 'order-2', amount: 5000, action: 0 }));
+
+      expect(a.merchant_prepare_id).not.toBe(b.merchant_prepare_id);
+      expect(await store.get(String(a.merchant_prepare_id))).toMatchObject({
+        order_id: 'order-1',
+        state: ClickTransactionState.Prepared
+      });
+      expect(await store.get(String(b.merchant_prepare_id))).toMatchObject({ order_id: 'order-2' });
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  describe('replay window', () => {
+    const prepare = () => webhook({ click_trans_id: 7, merchant_trans_id: 'order-7', amount: 5000, action: 0 });
+
+    it('answers a resent Prepare with the first prepare id without handling it again', async () => {
+      const provider = createProvider(undefined, { security: { replay_ttl: 3600 } });
+      const prepared = jest.fn();
+      provider.events.on('payment.prepared', prepared);
+
+      const [first, concurrent] = await Promise.all([provider.handleWebhook(prepare()), provider.handleWebhook(prepare())]);
+      const later = await provider.handleWebhook(prepare());
+
+      expect(first.error).toBe(ClickErrorCodes.Success);
+      expect(concurrent).toEqual(first);
+      expect(later).toEqual(first);
+      expect(prepared).toHaveBeenCalledTimes(1);
+    });
+
+    it('handles the retry of a request whose handler threw', async () => {
+      const store = new InMemoryTransactionStore<ClickTransaction>();
+      const provider = createProvider(store, { security: { replay_ttl: 3600 } });
+      jest.spyOn(store, 'save').mockRejectedValueOnce(new Error('store is down'));
+
+      await expect(provider.handleWebhook(prepare())).rejects.toThrow('store is down');
+      const retry = await provider.handleWebhook(prepare());
+
+      expect(retry).toMatchObject({ error: ClickErrorCodes.Success, merchant_prepare_id: expect.any(Number) });
+      expect(await store.findByOrderId('order-7')).toHaveLength(1);
+    });
+  });
+});
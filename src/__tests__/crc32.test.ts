@@ -0,0 +1,22 @@
+import { crc32 } from '../utils/crc32';
+
+describe('crc32', () => {
+  it.each([
+    ['', 0x00000000],
+    ['a', 0xe8b7be43],
+    ['123456789', 0xcbf43926],
+    ['The quick brown fox jumps over the lazy dog', 0x414fa339]
+  ])('checksums %j', (text, expected) => {
+    expect(crc32(Buffer.from(text, 'ascii'))).toBe(expected);
+  });
+
+  it('checksums the PNG IEND chunk type', () => {
+    expect(crc32(Buffer.from('IEND', 'ascii'))).toBe(0xae426082);
+  });
+
+  it('continues from a previous CRC across chunks', () => {
+    const data = Buffer.from('The quick brown fox jumps over the lazy dog', 'ascii');
+
+    expect(crc32(data.subarray(10), crc32(data.subarray(0, 10)))).toBe(crc32(data));
+  });
+});
@@ -0,0 +1,19 @@
+import { formatCsvRow } from '../utils/csv';
+
+describe('formatCsvRow', () => {
+  it.each(['=1+1', '+1', '-1+2', '@SUM(A1)'])('prefixes %j with a quote so it is not run as a formula', value => {
+    expect(formatCsvRow([value])).toBe(`'${value}`);
+  });
+
+  it('quotes a guarded value that also needs escaping', () => {
+    expect(formatCsvRow(['=cmd|"/c calc"!A1'])).toBe(`"'=cmd|""/c calc""!A1"`);
+  });
+
+  it('leaves numbers, including negative ones, as numbers', () => {
+    expect(formatCsvRow([-500, 0, true, null, undefined, 'order-1'])).toBe('-500,0,true,,,order-1');
+  });
+
+  it('quotes commas, quotes and line breaks', () => {
+    expect(formatCsvRow(['a,b', 'say "hi"', 'line\nbreak'])).toBe('"a,b","say ""hi""","line\nbreak"');
+  });
+});
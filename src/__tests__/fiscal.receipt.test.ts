@@ -0,0 +1,61 @@
+import { FiscalReceipt, FiscalReceiptItem } from '../interfaces/fiscal.interface';
+import { assertFiscalReceipt, fiscalReceiptTotal, toPaymeReceiptDetail } from '../utils/fiscal.receipt';
+import { Money } from '../utils/money';
+
+function item(overrides: Partial<FiscalReceiptItem> = {}): FiscalReceiptItem {
+  return {
+    title: 'Green tea',
+    price: Money.fromSom(20000),
+    count: 2,
+    code: '00702001001000001',
+    package_code: '123456',
+    vat_percent: 12,
+    ...overrides
+  };
+}
+
+describe('fiscal receipts', () => {
+  const receipt: FiscalReceipt = {
+    items: [item(), item({ title: 'Cup', price: Money.fromSom(15000), count: 1, discount: Money.fromSom(5000) })],
+    shipping: { title: 'Delivery', price: Money.fromSom(10000) }
+  };
+
+  it('totals items, discounts and shipping', () => {
+    expect(fiscalReceiptTotal(receipt).toSom()).toBe(60000);
+  });
+
+  it('accepts a receipt that adds up to the order amount', () => {
+    expect(() => assertFiscalReceipt(receipt, Money.fromSom(60000))).not.toThrow();
+  });
+
+  it('rejects a receipt whose total differs from the order amount, even by a tiyin', () => {
+    expect(() => assertFiscalReceipt(receipt, Money.fromTiyin(6000001)))
+      .toThrow(/^Fiscal receipt total .* does not match order amount /);
+  });
+
+  it.each([
+    [{ code: '123' }, 'code must be a 17-digit IKPU code'],
+    [{ package_code: '' }, 'package_code is required'],
+    [{ count: 1.5 }, 'count must be a positive integer'],
+    [{ vat_percent: 101 }, 'vat_percent must be 0..100'],
+    [{ discount: Money.fromTiyin(-1) }, 'price and discount must not be negative']
+  ] as Array<[Partial<FiscalReceiptItem>, string]>)('rejects an item with %j', (overrides, message) => {
+    expect(() => assertFiscalReceipt({ items: [item(), item(overrides)] }, Money.fromSom(80000)))
+      .toThrow(`Fiscal receipt item 1: ${message}`);
+  });
+
+  it('rejects a receipt without items', () => {
+    expect(() => assertFiscalReceipt({ items: [] }, Money.zero())).toThrow('at least one item');
+  });
+
+  it("converts to Payme's detail in tiyin", () => {
+    expect(toPaymeReceiptDetail(receipt)).toEqual({
+      receipt_type: 0,
+      shipping: { title: 'Delivery', price: 1000000 },
+      items: [
+        { title: 'Green tea', price: 2000000, count: 2, code: '00702001001000001', package_code: '123456', vat_percent: 12 },
+        { title: 'Cup', price: 1500000, count: 1, code: '00702001001000001', package_code: '123456', vat_percent: 12, discount: 500000 }
+      ]
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { ClickErrorCodes } from '../interfaces/click.interface';
+import { EmulatorFault } from '../interfaces/emulator.interface';
+import { PaymeCancelReason, PaymeErrorCodes, PaymeTransactionState } from '../interfaces/payme.interface';
+import { ClickProvider } from '../providers/click.provider';
+import { PaymeProvider } from '../providers/payme.provider';
+import { createClickWebhookRouter } from '../routers/click.router';
+import { createPaymeWebhookRouter } from '../routers/payme.router';
+import { GatewayEmulator } from '../testing';
+import { HttpClient } from '../utils/http.client';
+import { NoopLogger } from '../utils/logger';
+import { Money } from '../utils/money';
+
+const PAYME_PASSWORD = 'payme-key';
+const CLICK = { merchant_id: '101', service_id: '2001', secret_key: 'click-secret', merchant_user_id: '42' };
+
+// Orders the merchant knows about, by order id, in so'm
+const ORDERS: Record<string, number> = {
+  'payme-1': 5000,
+  'payme-2': 5000,
+  'payme-3': 5000,
+  'payme-4': 5000,
+  'payme-5': 5000,
+  'payme-6': 5000,
+  'payme-7': 5000,
+  'payme-8': 5000,
+  'payme-9': 5000,
+  'click-1': 5000,
+  'click-2': 5000,
+  'click-3': 5000,
+  'click-4': 5000,
+  'click-5': 5000,
+  'click-6': 5000
+};
+
+function httpClient(): HttpClient {
+  return new HttpClient(300, 0, 0, { logger: new NoopLogger(), circuit_breaker: false });
+}
+
+/**
+ * Fail the next Payme API call with the given method, letting the calls before it through
+ */
+function failPaymeMethod(client: HttpClient, emulator: GatewayEmulator, method: string, fault: EmulatorFault): void {
+  const request = client.request.bind(client);
+  const spy = jest.spyOn(client, 'request').mockImplementation(config => {
+    if ((config.data as { method?: string }).method === method) {
+      emulator.failNext('payme', fault);
+      spy.mockRestore();
+    }
+    return request(config);
+  });
+}
+
+function findOrder(order_id: string) {
+  return Promise.resolve(ORDERS[order_id] !== undefined ? { amount: Money.fromSom(ORDERS[order_id]) } : null);
+}
+
+describe('GatewayEmulator end-to-end', () => {
+  let server: Server;
+  let emulator: GatewayEmulator;
+  let payme: PaymeProvider;
+  let paymeHttp: HttpClient;
+  let click: ClickProvider;
+
+  beforeAll(async () => {
+    // The merchant app must listen before the emulator is told its URL; the routers are mounted once the providers exist
+    const app = express();
+    await new Promise<void>(resolve => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    const merchantUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    emulator = new GatewayEmulator({
+      payme: { webhook_url: `${merchantUrl}/webhooks/payme`, password: PAYME_PASSWORD },
+      click: { ...CLICK, webhook_url: `${merchantUrl}/webhooks/click` }
+    });
+    const url = await emulator.start();
+
+    paymeHttp = httpClient();
+    payme = new PaymeProvider(paymeHttp, {
+      merchant_id: 'merchant',
+      password: PAYME_PASSWORD,
+      test_mode: true,
+      api_url: `${url}/payme/api`,
+      retries: 0,
+      findOrder: account => findOrder(String(account.order_id)),
+      logger: new NoopLogger()
+    });
+    click = new ClickProvider(httpClient(), {
+      ...CLICK,
+      test_mode: true,
+      api_url: `${url}/click`,
+      retries: 0,
+      findOrder,
+      logger: new NoopLogger()
+    });
+    app.use('/webhooks/payme', createPaymeWebhookRouter(payme));
+    app.use('/webhooks/click', createClickWebhookRouter(click));
+  });
+
+  afterAll(async () => {
+    await emulator.stop();
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  describe('Payme', () => {
+    it('creates and performs a payment that verifyPayment then reports as completed', async () => {
+      const result = await emulator.payWithPayme({ account: { order_id: 'payme-1' }, amount: 500000 });
+
+      expect(result.calls.map(call => call.method)).toEqual([
+        'CheckPerformTransaction',
+        'CreateTransaction',
+        'PerformTransaction'
+      ]);
+      expect(result.state).toBe(PaymeTransactionState.Completed);
+
+      const verified = await payme.verifyPayment(result.transaction!);
+      expect(verified).toMatchObject({ success: true, status: 'completed' });
+      expect(verified.paid_amount?.tiyin).toBe(500000);
+    });
+
+    it('cancels an unperformed transaction with state -1', async () => {
+      const result = await emulator.payWithPayme({
+        account: { order_id: 'payme-2' },
+        amount: 500000,
+        skip_perform: true,
+        cancel_reason: PaymeCancelReason.TransactionTimeout
+      });
+
+      expect(result.state).toBe(PaymeTransactionState.Cancelled);
+    });
+
+    it('cancels a performed transaction with state -2', async () => {
+      const result = await emulator.payWithPayme({
+        account: { order_id: 'payme-3' },
+        amount: 500000,
+        cancel_reason: PaymeCancelReason.Refund
+      });
+
+      expect(result.state).toBe(PaymeTransactionState.CancelledAfterComplete);
+      expect(await payme.verifyPayment(result.transaction!)).toMatchObject({ status: 'refunded' });
+    });
+
+    it('answers a repeated CreateTransaction with the same transaction', async () => {
+      const result = await emulator.payWithPayme({ account: { order_id: 'payme-4' }, amount: 500000, duplicate_create: true });
+      const [first, second] = result.calls.filter(call => call.method === 'CreateTransaction');
+
+      expect(second.response.result).toEqual(first.response.result);
+      expect(result.state).toBe(PaymeTransactionState.Completed);
+    });
+
+    it('rejects a second transaction for an order that already has one with -31051', async () => {
+      await emulator.payWithPayme({ account: { order_id: 'payme-5' }, amount: 500000, skip_perform: true });
+      const result = await emulator.payWithPayme({ account: { order_id: 'payme-5' }, amount: 500000 });
+
+      const created = result.calls.find(call => call.method === 'CreateTransaction');
+      expect(created?.response.error?.code).toBe(PaymeErrorCodes.TransactionAlreadyExists);
+      expect(result.transaction).toBeUndefined();
+    });
+
+    it('rejects a wrong amount before a transaction is created', async () => {
+      const result = await emulator.payWithPayme({ account: { order_id: 'payme-6' }, amount: 500000, send_amount: 400000 });
+
+      expect(result.calls).toHaveLength(1);
+      expect(result.calls[0].response.error?.code).toBe(PaymeErrorCodes.InvalidAmount);
+    });
+
+    it('reports a gateway that does not answer in time as a timeout', async () => {
+      const result = await emulator.payWithPayme({ account: { order_id: 'payme-7' }, amount: 500000 });
+      emulator.failNext('payme', { type: 'timeout', delay_ms: 5000 });
+
+      const verified = await payme.verifyPayment(result.transaction!);
+
+      expect(verified.success).toBe(false);
+      expect(verified.error?.kind).toBe('timeout');
+    });
+
+    it('settles a refund whose CancelTransaction never reached Payme as failed, so it can be retried', async () => {
+      const result = await emulator.payWithPayme({ account: { order_id: 'payme-8' }, amount: 500000 });
+      failPaymeMethod(paymeHttp, emulator, 'CancelTransaction', { type: 'http_error', status: 502 });
+
+      const failed = await payme.refundPayment(result.transaction!, { reason: PaymeCancelReason.Refund });
+      expect(failed.error?.kind).toBe('network');
+      expect((await payme.getRefunds(result.transaction!)).map(refund => refund.status)).toEqual(['pending']);
+
+      const retried = await payme.refundPayment(result.transaction!, { reason: PaymeCancelReason.Refund });
+
+      expect(retried.success).toBe(true);
+      expect((await payme.getRefunds(result.transaction!)).map(refund => refund.status)).toEqual(['failed', 'succeeded']);
+    });
+
+    it('settles a timed-out refund that went through as succeeded on the next verifyPayment', async () => {
+      const result = await emulator.payWithPayme({ account: { order_id: 'payme-9' }, amount: 500000 });
+      failPaymeMethod(paymeHttp, emulator, 'CancelTransaction', { type: 'timeout', delay_ms: 500 });
+
+      const refunded = await payme.refundPayment(result.transaction!, { reason: PaymeCancelReason.Refund });
+      expect(refunded.error?.kind).toBe('timeout');
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      expect(await payme.verifyPayment(result.transaction!)).toMatchObject({ status: 'refunded' });
+      expect((await payme.getRefunds(result.transaction!)).map(refund => refund.status)).toEqual(['succeeded']);
+    });
+  });
+
+  describe('Click', () => {
+    it('prepares and completes a payment that verifyPayment then reports as completed', async () => {
+      const result = await emulator.payWithClick({ merchant_trans_id: 'click-1', amount: 5000 });
+
+      expect(result.status).toBe(1);
+      expect(result.calls.map(call => [call.method, call.response.error])).toEqual([
+        ['Prepare', ClickErrorCodes.Success],
+        ['Complete', ClickErrorCodes.Success]
+      ]);
+      expect(await click.verifyPayment('click-1')).toMatchObject({ success: true, status: 'completed' });
+    });
+
+    it('cancels the prepared transaction when Complete reports error < 0', async () => {
+      const cancelled = jest.fn();
+      const off = click.events.on('payment.cancelled', cancelled);
+
+      const result = await emulator.payWithClick({ merchant_trans_id: 'click-2', amount: 5000, complete_error: -5017 });
+      off();
+
+      expect(result.status).toBe(-1);
+      expect(result.calls[1].response.error).toBe(ClickErrorCodes.TransactionCancelled);
+      expect(cancelled).toHaveBeenCalledWith(expect.objectContaining({ order_id: 'click-2' }));
+    });
+
+    it('rejects a Prepare for the wrong amount', async () => {
+      const result = await emulator.payWithClick({ merchant_trans_id: 'click-3', amount: 4000 });
+
+      expect(result.status).toBe(-1);
+      expect(result.calls).toHaveLength(1);
+      expect(result.calls[0].response.error).toBe(ClickErrorCodes.InvalidAmount);
+    });
+
+    it('rejects a Complete whose amount differs from the Prepare', async () => {
+      const result = await emulator.payWithClick({ merchant_trans_id: 'click-4', amount: 5000, complete_amount: 6000 });
+
+      expect(result.status).toBe(-1);
+      expect(result.calls[1].response.error).toBe(ClickErrorCodes.InvalidAmount);
+    });
+
+    it('reports a Merchant API that does not answer in time as a timeout', async () => {
+      await emulator.payWithClick({ merchant_trans_id: 'click-5', amount: 5000 });
+      emulator.failNext('click.payment_status', { type: 'timeout', delay_ms: 5000 });
+
+      const verified = await click.verifyPayment('click-5');
+
+      expect(verified.success).toBe(false);
+      expect(verified.error?.kind).toBe('timeout');
+    });
+
+    it('settles a full reversal that failed in transit from the payment status, so it can be retried', async () => {
+      await emulator.payWithClick({ merchant_trans_id: 'click-6', amount: 5000 });
+      emulator.failNext('click.reversal', { type: 'http_error', status: 502 });
+
+      const failed = await click.refundPayment('click-6', { reason: 1 });
+      expect(failed.error?.kind).toBe('network');
+
+      expect(await click.verifyPayment('click-6')).toMatchObject({ status: 'completed' });
+      expect((await click.getRefunds('click-6')).map(refund => refund.status)).toEqual(['failed']);
+      expect(await click.refundPayment('click-6', { reason: 1 })).toMatchObject({ success: true });
+      expect(await click.verifyPayment('click-6')).toMatchObject({ status: 'refunded' });
+    });
+  });
+});
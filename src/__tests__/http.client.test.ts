@@ -0,0 +1,254 @@
+import axios, { AxiosError, AxiosResponse, CanceledError } from 'axios';
+import { NetworkError, TimeoutError } from '../errors/payment.error';
+import { HttpClient, HttpClientOptions } from '../utils/http.client';
+import { NoopLogger } from '../utils/logger';
+
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  const request = Object.assign(jest.fn(), { isAxiosError: actual.isAxiosError, isCancel: actual.isCancel });
+  return { ...actual, __esModule: true, default: request };
+});
+
+const send = axios as unknown as jest.Mock;
+const URL = 'https://gateway.test/api';
+
+function createClient(retries = 3, retryDelay = 0, options: HttpClientOptions = {}): HttpClient {
+  return new HttpClient(1000, retries, retryDelay, { logger: new NoopLogger(), circuit_breaker: false, ...options });
+}
+
+/**
+ * Backoff delays the client waits for, without waiting for them
+ */
+function skipDelays(advance?: () => void): jest.SpyInstance {
+  const prototype = HttpClient.prototype as unknown as { delay: (ms: number) => Promise<void> };
+  return jest.spyOn(prototype, 'delay').mockImplementation(async () => advance?.());
+}
+
+function ok(): AxiosResponse {
+  return { status: 200, statusText: 'OK', data: { ok: true }, headers: {}, config: {} } as AxiosResponse;
+}
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const response = { status, statusText: '', data: {}, headers, config: {} } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, response);
+}
+
+function networkError(code: string): AxiosError {
+  return new AxiosError(`connect ${code}`, code);
+}
+
+describe('HttpClient', () => {
+  beforeEach(() => {
+    send.mockReset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('retries', () => {
+    it('retries an idempotent request on 5xx and network errors', async () => {
+      send.mockRejectedValueOnce(httpError(502)).mockRejectedValueOnce(networkError('ECONNRESET')).mockResolvedValueOnce(ok());
+
+      const response = await createClient().request({ method: 'GET', url: URL });
+
+      expect(response.status).toBe(200);
+      expect(send).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry a non-idempotent request that may have reached the gateway', async () => {
+      send.mockRejectedValue(httpError(502));
+
+      await expect(createClient().request({ method: 'POST', url: URL })).rejects.toThrow('status code 502');
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a POST marked idempotent', async () => {
+      send.mockRejectedValueOnce(networkError('ECONNRESET')).mockResolvedValueOnce(ok());
+
+      await createClient().request({ method: 'POST', url: URL, idempotent: true });
+
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it.each(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'])('retries a POST that failed with %s before it was sent', async code => {
+      send.mockRejectedValueOnce(networkError(code)).mockResolvedValueOnce(ok());
+
+      await createClient().request({ method: 'POST', url: URL });
+
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry 4xx answers other than 429', async () => {
+      send.mockRejectedValue(httpError(400));
+
+      await expect(createClient().request({ method: 'GET', url: URL })).rejects.toThrow('status code 400');
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+      send.mockRejectedValue(httpError(503));
+
+      await expect(createClient(2).request({ method: 'GET', url: URL })).rejects.toThrow('status code 503');
+      expect(send).toHaveBeenCalledTimes(3);
+    });
+
+    it('lets a call override the retry count', async () => {
+      send.mockRejectedValue(httpError(503));
+
+      await expect(createClient(3).request({ method: 'GET', url: URL, retries: 0 })).rejects.toThrow();
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('backoff', () => {
+    it('retries a non-idempotent request on 429 after Retry-After seconds', async () => {
+      const delay = skipDelays();
+      send.mockRejectedValueOnce(httpError(429, { 'retry-after': '2' })).mockResolvedValueOnce(ok());
+
+      await createClient(3, 1000).request({ method: 'POST', url: URL });
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(delay.mock.calls[0][0]).toBe(2000);
+    });
+
+    it('honours a Retry-After HTTP date', async () => {
+      const delay = skipDelays();
+      const retryAt = new Date(Date.now() + 5000).toUTCString();
+      send.mockRejectedValueOnce(httpError(503, { 'retry-after': retryAt })).mockResolvedValueOnce(ok());
+
+      await createClient(3, 1000).request({ method: 'GET', url: URL });
+
+      expect(delay.mock.calls[0][0]).toBeGreaterThan(3000);
+      expect(delay.mock.calls[0][0]).toBeLessThanOrEqual(5000);
+    });
+
+    it('falls back to exponential backoff when Retry-After is unusable', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      const delay = skipDelays();
+      send.mockRejectedValueOnce(httpError(429, { 'retry-after': 'soon' })).mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce(ok());
+
+      await createClient(3, 1000).request({ method: 'GET', url: URL });
+
+      expect(delay.mock.calls.map(call => call[0])).toEqual([500, 1000]);
+    });
+
+    it('caps each delay at max_delay', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.999);
+      const delay = skipDelays();
+      send.mockRejectedValue(httpError(503));
+
+      await expect(createClient(4, 1000, { max_delay: 1500 }).request({ method: 'GET', url: URL })).rejects.toThrow();
+
+      const delays = delay.mock.calls.map(call => call[0]);
+      expect(delays).toHaveLength(4);
+      expect(delays[0]).toBeCloseTo(999);
+      delays.slice(1).forEach(wait => expect(wait).toBeCloseTo(1498.5));
+    });
+  });
+
+  describe('deadline', () => {
+    it('fails with a TimeoutError once the budget is spent across attempts', async () => {
+      let now = 1700000000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+      skipDelays(() => {
+        now += 200;
+      });
+      send.mockRejectedValue(httpError(503));
+
+      const request = createClient(5).request({ method: 'GET', url: URL, deadline: 100 });
+
+      await expect(request).rejects.toBeInstanceOf(TimeoutError);
+      await expect(request).rejects.toMatchObject({ code: 'PAYMENT_TIMEOUT' });
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not start a backoff that would end past the deadline', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.999);
+      const delay = skipDelays();
+      send.mockRejectedValue(httpError(503));
+
+      await expect(createClient(5, 1000).request({ method: 'GET', url: URL, deadline: 500 })).rejects.toThrow('status code 503');
+      expect(delay).not.toHaveBeenCalled();
+    });
+
+    it('limits each attempt to the time left', async () => {
+      send.mockResolvedValue(ok());
+
+      await createClient().request({ method: 'GET', url: URL, deadline: 400 });
+
+      expect(send.mock.calls[0][0].timeout).toBeLessThanOrEqual(400);
+    });
+  });
+
+  it('stops waiting when the signal aborts during a backoff', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    send.mockRejectedValue(httpError(503));
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const request = createClient(3, 10000).request({ method: 'GET', url: URL, signal: controller.signal });
+
+    await expect(request).rejects.toBeInstanceOf(NetworkError);
+    await expect(request).rejects.toMatchObject({ code: 'REQUEST_ABORTED' });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  describe('circuit breaker', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 1700000000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    const breakerClient = () => createClient(0, 0, { circuit_breaker: { failure_threshold: 2, reset_timeout: 1000 } });
+
+    it('fails fast while open, then closes after a successful probe', async () => {
+      const client = breakerClient();
+      send.mockRejectedValueOnce(httpError(503)).mockRejectedValueOnce(networkError('ECONNRESET'));
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toThrow();
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toThrow();
+
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+      expect(send).toHaveBeenCalledTimes(2);
+
+      now += 1000;
+      send.mockResolvedValue(ok());
+      await client.request({ method: 'GET', url: `${URL}/probe` });
+      await client.request({ method: 'GET', url: URL });
+      expect(send).toHaveBeenCalledTimes(4);
+    });
+
+    it('keeps one breaker per host', async () => {
+      const client = breakerClient();
+      send.mockRejectedValueOnce(httpError(503)).mockRejectedValueOnce(httpError(503)).mockResolvedValue(ok());
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toThrow();
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toThrow();
+
+      await expect(client.request({ method: 'GET', url: 'https://other.test/api' })).resolves.toMatchObject({ status: 200 });
+    });
+
+    it('does not count 4xx answers as host failures', async () => {
+      const client = breakerClient();
+      send.mockRejectedValueOnce(httpError(400)).mockRejectedValueOnce(httpError(404)).mockResolvedValue(ok());
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toThrow();
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toThrow();
+
+      await expect(client.request({ method: 'GET', url: URL })).resolves.toMatchObject({ status: 200 });
+    });
+
+    it('frees the half-open probe slot when the probe is cancelled', async () => {
+      const client = breakerClient();
+      send.mockRejectedValueOnce(httpError(503)).mockRejectedValueOnce(httpError(503));
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toThrow();
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toThrow();
+      now += 1000;
+
+      send.mockRejectedValueOnce(new CanceledError()).mockResolvedValueOnce(ok());
+      await expect(client.request({ method: 'GET', url: URL })).rejects.toBeInstanceOf(CanceledError);
+
+      await expect(client.request({ method: 'GET', url: URL })).resolves.toMatchObject({ status: 200 });
+    });
+  });
+});
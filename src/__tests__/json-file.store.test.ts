@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StoredTransaction } from '../interfaces/transaction.interface';
+import { JsonFileTransactionStore } from '../stores/json-file.store';
+
+interface Record extends StoredTransaction {
+  state: number;
+}
+
+describe('JsonFileTransactionStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'uzpayments-store-'));
+    filePath = join(dir, 'transactions.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reloads saved records from disk', async () => {
+    const store = new JsonFileTransactionStore<Record>(filePath);
+    await store.save({ id: '1', order_id: 'order-1', amount: 100, create_time: 1000, state: 1 });
+    await store.save({ id: '2', order_id: 'order-1', amount: 200, create_time: 2000, state: 1 });
+    await store.save({ id: '1', order_id: 'order-1', amount: 100, create_time: 1000, state: 2 });
+
+    const reloaded = new JsonFileTransactionStore<Record>(filePath);
+
+    expect(await reloaded.get('1')).toEqual({ id: '1', order_id: 'order-1', amount: 100, create_time: 1000, state: 2 });
+    expect(await reloaded.findByOrderId('order-1')).toHaveLength(2);
+    expect((await reloaded.findByCreateTime(1500, 2500)).map(record => record.id)).toEqual(['2']);
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    const store = new JsonFileTransactionStore<Record>(filePath);
+
+    expect(await store.get('1')).toBeNull();
+  });
+
+  it('keeps every record when saves run concurrently', async () => {
+    const store = new JsonFileTransactionStore<Record>(filePath);
+    await Promise.all(Array.from({ length: 20 }, (_, index) =>
+      store.save({ id: String(index), order_id: 'order', amount: index, create_time: index, state: 1 })
+    ));
+
+    const reloaded = new JsonFileTransactionStore<Record>(filePath);
+
+    expect(await reloaded.findByOrderId('order')).toHaveLength(20);
+  });
+
+  it('returns copies, so callers cannot change stored records', async () => {
+    const store = new JsonFileTransactionStore<Record>(filePath);
+    await store.save({ id: '1', order_id: 'order-1', amount: 100, create_time: 1000, state: 1 });
+
+    const record = (await store.get('1'))!;
+    record.state = 99;
+
+    expect((await store.get('1'))!.state).toBe(1);
+  });
+});
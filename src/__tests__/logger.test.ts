@@ -0,0 +1,54 @@
+import { redact, redactingLogger } from '../utils/logger';
+
+function nest(depth: number, leaf: unknown): unknown {
+  let value = leaf;
+  for (let i = 0; i < depth; i++) value = { child: value };
+  return value;
+}
+
+describe('redact', () => {
+  it('replaces credential and card fields whatever their case', () => {
+    expect(redact({ Password: 'secret', card: { CARD_NUMBER: '8600069195406311', expire: '0399' }, amount: 500 })).toEqual({
+      Password: '[REDACTED]',
+      card: { CARD_NUMBER: '[REDACTED]', expire: '[REDACTED]' },
+      amount: 500
+    });
+  });
+
+  it('masks valid PANs, Basic credentials and card tokens inside strings', () => {
+    expect(redact('card 8600069195406311, ref 1234567890123456')).toBe('card 860006******6311, ref 1234567890123456');
+    expect(redact('Authorization: Basic UGF5Y29tOmtleQ==')).toBe('Authorization: Basic [REDACTED]');
+    expect(redact('/v2/card_token/123/abc-def/payment')).toBe('/v2/card_token/123/[REDACTED]/payment');
+  });
+
+  it('redacts the fields of errors', () => {
+    const error = Object.assign(new Error('Declined 8600069195406311'), { token: 'tok' });
+
+    expect(redact({ error })).toEqual({ error: { name: 'Error', message: 'Declined 860006******6311', token: '[REDACTED]' } });
+  });
+
+  it('replaces values nested too deep to be checked', () => {
+    const deep = nest(12, { password: 'secret' });
+
+    expect(JSON.stringify(redact(deep))).not.toContain('secret');
+    expect(JSON.stringify(redact(deep))).toContain('"child":"[Truncated]"');
+    expect(redact(nest(8, { password: 'secret' }))).toEqual(nest(8, { password: '[REDACTED]' }));
+  });
+
+  it('terminates on circular references', () => {
+    const looped: Record<string, unknown> = { key: 'secret' };
+    looped.self = looped;
+
+    expect(JSON.stringify(redact(looped))).not.toContain('secret');
+  });
+});
+
+describe('redactingLogger', () => {
+  it('redacts fields before they reach the wrapped logger', () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    redactingLogger(logger).warn('call.failed', { headers: { Authorization: 'Basic UGF5Y29tOmtleQ==' }, error: 'Basic UGF5Y29tOmtleQ== rejected' });
+
+    expect(logger.warn).toHaveBeenCalledWith('call.failed', { headers: { Authorization: '[REDACTED]' }, error: 'Basic [REDACTED] rejected' });
+  });
+});
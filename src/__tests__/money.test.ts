@@ -0,0 +1,57 @@
+import { Money } from '../utils/money';
+
+describe('Money', () => {
+  it('converts so\'m to tiyin without float artifacts', () => {
+    expect(Money.fromSom(19.99).tiyin).toBe(1999);
+    expect(Money.fromSom(0.1).add(Money.fromSom(0.2)).tiyin).toBe(30);
+    expect(() => Money.fromSom(19.999)).toThrow('more than two decimal places');
+    expect(() => Money.fromSom(NaN)).toThrow('Invalid amount');
+    expect(() => Money.fromTiyin(Number.MAX_SAFE_INTEGER + 1)).toThrow('safe integer');
+  });
+
+  it.each([
+    ['1000', 100000],
+    ['19.99', 1999],
+    ['19.9', 1990],
+    ['1 000,50', 100050],
+    ['1 000 000', 100000000],
+    ["1 000 so'm", 100000],
+    ['1 000 so‘m', 100000],
+    ['1 000 soʻm', 100000],
+    ['250 сум', 25000],
+    ['250 UZS', 25000],
+    ['-5.5', -550]
+  ])('parses %j', (input, tiyin) => {
+    expect(Money.parse(input).tiyin).toBe(tiyin);
+  });
+
+  it.each(['', '1.999', '1,000.50', 'abc', '15k'])('rejects %j', input => {
+    expect(() => Money.parse(input)).toThrow(`Invalid amount: ${input}`);
+  });
+
+  it('formats with grouped thousands and a comma before tiyin', () => {
+    expect(Money.fromTiyin(100000050).format()).toBe("1 000 000,50 so'm");
+    expect(Money.fromSom(5000).format()).toBe("5 000 so'm");
+    expect(Money.fromTiyin(-5).toSomString()).toBe('-0.05');
+    expect(Money.fromSom(12, 'USD').format()).toBe('12 USD');
+  });
+
+  it('refuses arithmetic across currencies and fractional factors', () => {
+    expect(() => Money.fromSom(1).add(Money.fromSom(1, 'USD'))).toThrow('Currency mismatch: UZS vs USD');
+    expect(() => Money.fromSom(1).multiply(1.5)).toThrow('multiplied by an integer');
+    expect(Money.fromSom(1).equals(Money.fromSom(1, 'USD'))).toBe(false);
+  });
+
+  it('compares amounts and checks ranges inclusively', () => {
+    const min = Money.fromSom(1000);
+    const max = Money.fromSom(10000000);
+
+    expect(Money.fromSom(999.99).isBetween(min, max)).toBe(false);
+    expect(min.isBetween(min, max)).toBe(true);
+    expect(max.compare(min)).toBe(1);
+  });
+
+  it('serialises to tiyin and currency', () => {
+    expect(JSON.stringify({ amount: Money.fromSom(15000.5) })).toBe('{"amount":{"tiyin":1500050,"currency":"UZS"}}');
+  });
+});
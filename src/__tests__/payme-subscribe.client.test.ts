@@ -0,0 +1,97 @@
+import { AxiosResponse } from 'axios';
+import { mapSubscribeErrorCode, PaymeSubscribeClient } from '../clients/payme-subscribe.client';
+import { AuthenticationError, GatewayError, ValidationError } from '../errors/payment.error';
+import { PaymeSubscribeConfig, PaymeSubscribeErrorCodes } from '../interfaces/payme-subscribe.interface';
+import { HttpClient } from '../utils/http.client';
+import { NoopLogger } from '../utils/logger';
+import { Money } from '../utils/money';
+
+function createClient(data: Record<string, unknown>, config: Partial<PaymeSubscribeConfig> = {}) {
+  const httpClient = new HttpClient(1000, 0, 0, { logger: new NoopLogger() });
+  const request = jest.spyOn(httpClient, 'request').mockResolvedValue({ status: 200, data } as AxiosResponse);
+  const client = new PaymeSubscribeClient(httpClient, { merchant_id: 'cashbox', key: 'secret', test_mode: true, ...config });
+  return { client, request };
+}
+
+describe('PaymeSubscribeClient', () => {
+  it('calls card methods with the cashbox id only and receipt methods with id:key', async () => {
+    const { client, request } = createClient({ result: { card: { token: 'tok' }, receipt: { _id: 'r-1' } } });
+
+    await client.createCard({ card: { number: '8600069195406311', expire: '0399' }, save: true });
+    await client.payReceipt({ id: 'r-1', token: 'tok' });
+
+    expect(request.mock.calls.map(([config]) => [config.data.method, config.headers?.['X-Auth'], config.idempotent])).toEqual([
+      ['cards.create', 'cashbox', false],
+      ['receipts.pay', 'cashbox:secret', false]
+    ]);
+    expect(request.mock.calls[0][0].url).toBe('https://checkout.test.paycom.uz/api');
+  });
+
+  it('refuses back-side methods without a key, before calling Payme', async () => {
+    const { client, request } = createClient({ result: {} }, { key: undefined });
+
+    const result = await client.checkReceipt('r-1');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(ValidationError);
+    expect(result.error).toMatchObject({ code: 'CONFIGURATION_ERROR', field: 'key' });
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('still calls front-side methods without a key', async () => {
+    const { client } = createClient({ result: { card: { token: 'tok', verify: true } } }, { key: undefined });
+
+    expect(await client.verifyCard('tok', '666666')).toMatchObject({ success: true, result: { token: 'tok' } });
+  });
+
+  it('reports a rejected X-Auth as an AuthenticationError', async () => {
+    const { client } = createClient({ error: { code: PaymeSubscribeErrorCodes.AccessDenied, message: 'Access denied' } });
+
+    const result = await client.getReceipt('r-1');
+
+    expect(result.error).toBeInstanceOf(AuthenticationError);
+    expect(result.error).toMatchObject({ code: 'AUTHORIZATION_ERROR', message: 'Access denied' });
+  });
+
+  it('reports other errors as a GatewayError with the raw code and a readable message', async () => {
+    const { client } = createClient({
+      error: { code: -31301, message: { ru: 'Карта не найдена', en: 'Card not found' }, data: 'token' }
+    });
+
+    const result = await client.checkCard('tok');
+
+    expect(result.error).toBeInstanceOf(GatewayError);
+    expect(result.error).toMatchObject({ code: 'CARD_ERROR', message: 'Card not found', gateway_code: -31301 });
+  });
+
+  it('rejects a fiscal receipt that does not add up before calling Payme', async () => {
+    const { client, request } = createClient({ result: {} });
+
+    const result = await client.createReceipt({
+      amount: Money.fromSom(50000),
+      account: { order_id: '42' },
+      detail: {
+        items: [{ title: 'Tea', price: Money.fromSom(20000), count: 2, code: '00702001001000001', package_code: '123456', vat_percent: 12 }]
+      }
+    });
+
+    expect(result.error).toMatchObject({ code: 'INVALID_RECEIPT', field: 'detail' });
+    expect(request).not.toHaveBeenCalled();
+  });
+});
+
+describe('mapSubscribeErrorCode', () => {
+  it.each([
+    [PaymeSubscribeErrorCodes.AccessDenied, 'AUTHORIZATION_ERROR'],
+    [PaymeSubscribeErrorCodes.MethodNotFound, 'INVALID_REQUEST'],
+    [PaymeSubscribeErrorCodes.InvalidAmount, 'INVALID_AMOUNT'],
+    [-31050, 'INVALID_ACCOUNT'],
+    [-31099, 'INVALID_ACCOUNT'],
+    [-31399, 'CARD_ERROR'],
+    [-31630, 'RECEIPT_ERROR'],
+    [PaymeSubscribeErrorCodes.InternalError, 'GATEWAY_ERROR'],
+    [-31400, 'SUBSCRIBE_ERROR']
+  ])('maps %d to %s', (code, expected) => {
+    expect(mapSubscribeErrorCode(code)).toBe(expected);
+  });
+});
@@ -0,0 +1,307 @@
+import { PaymeProvider } from '../providers/payme.provider';
+import {
+  PaymeCancelReason,
+  PaymeConfig,
+  PaymeErrorCodes,
+  PaymeOrderInfo,
+  PaymeTransactionState,
+  PaymeWebhookRequest,
+} from '../interfaces/payme.interface';
+import { PaymeTransaction } from '../interfaces/transaction.interface';
+import { InMemoryTransactionStore } from '../stores/memory.store';
+import { HttpClient } from '../utils/http.client';
+import { NoopLogger } from '../utils/logger';
+import { Money } from '../utils/money';
+import { paymeBasicToken } from '../utils/webhook.security';
+
+const PASSWORD = 'test-key';
+
+function createProvider(store = new InMemoryTransactionStore<PaymeTransaction>(), config: Partial<PaymeConfig> = {}) {
+  const provider = new PaymeProvider(
+    new HttpClient(1000, 0, 0, { logger: new NoopLogger() }),
+    { merchant_id: 'merchant', password: PASSWORD, test_mode: true, logger: new NoopLogger(), ...config },
+    store
+  );
+  return { provider, store };
+}
+
+function webhook(method: string, params: PaymeWebhookRequest['params']): PaymeWebhookRequest {
+  return {
+    method,
+    params,
+    id: '1',
+    headers: { Authorization: `Basic ${paymeBasicToken(PASSWORD)}` }
+  };
+}
+
+describe('PaymeProvider webhooks', () => {
+  let provider: PaymeProvider;
+  let store: InMemoryTransactionStore<PaymeTransaction>;
+
+  beforeEach(() => {
+    ({ provider, store } = createProvider());
+  });
+
+  const create = (id: string, order_id = 'order-1', amount = 500000) =>
+    provider.handleWebhook(webhook('CreateTransaction', { id, time: Date.now(), amount, account: { order_id } }));
+
+  it('logs listener failures through the redacting logger', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const logged = new PaymeProvider(
+      new HttpClient(1000, 0, 0, { logger: new NoopLogger() }),
+      { merchant_id: 'merchant', password: PASSWORD, test_mode: true, logger },
+      store
+    );
+    logged.events.on('payment.created', () => {
+      throw new Error('Card 4111111111111111 declined');
+    });
+
+    await logged.handleWebhook(webhook('CreateTransaction', { id: 'tx-1', time: Date.now(), amount: 500000, account: { order_id: 'order-1' } }));
+
+    expect(logger.error).toHaveBeenCalledWith('listener.failed', expect.objectContaining({ event: 'payment.created' }));
+    expect(JSON.stringify(logger.error.mock.calls)).not.toContain('4111111111111111');
+  });
+
+  it('rejects requests without the cashbox credentials', async () => {
+    const response = await provider.handleWebhook({
+      ...webhook('CheckTransaction', { id: 'tx-1' }),
+      headers: { Authorization: `Basic ${paymeBasicToken('wrong')}` }
+    });
+
+    expect(response.error?.code).toBe(PaymeErrorCodes.AuthorizationFailure);
+  });
+
+  describe('CreateTransaction', () => {
+    it('stores a created transaction', async () => {
+      const response = await create('tx-1');
+
+      expect(response.result).toMatchObject({ state: PaymeTransactionState.Created });
+      expect(await store.get('tx-1')).toMatchObject({
+        order_id: 'order-1',
+        amount: 500000,
+        state: PaymeTransactionState.Created
+      });
+    });
+
+    it('is idempotent per Payme transaction id', async () => {
+      const first = await create('tx-1');
+      const second = await create('tx-1');
+
+      expect(second.result).toEqual(first.result);
+      expect(await store.findByOrderId('order-1')).toHaveLength(1);
+    });
+
+    it('rejects a second transaction for the same order', async () => {
+      await create('tx-1');
+      const response = await create('tx-2');
+
+      expect(response.error?.code).toBe(PaymeErrorCodes.TransactionAlreadyExists);
+      expect(await store.get('tx-2')).toBeNull();
+    });
+
+    it('accepts a new transaction once the previous one is cancelled', async () => {
+      await create('tx-1');
+      await provider.handleWebhook(webhook('CancelTransaction', { id: 'tx-1', reason: PaymeCancelReason.DebitError }));
+
+      const response = await create('tx-2');
+
+      expect(response.result).toMatchObject({ state: PaymeTransactionState.Created });
+    });
+  });
+
+  describe('PerformTransaction', () => {
+    it('completes a created transaction exactly once', async () => {
+      const completed = jest.fn();
+      provider.events.on('payment.completed', completed);
+      await create('tx-1');
+
+      const first = await provider.handleWebhook(webhook('PerformTransaction', { id: 'tx-1' }));
+      const second = await provider.handleWebhook(webhook('PerformTransaction', { id: 'tx-1' }));
+
+      expect(first.result).toMatchObject({ state: PaymeTransactionState.Completed });
+      expect(second.result).toEqual(first.result);
+      expect(completed).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports an unknown transaction', async () => {
+      const response = await provider.handleWebhook(webhook('PerformTransaction', { id: 'missing' }));
+
+      expect(response.error?.code).toBe(PaymeErrorCodes.TransactionNotFound);
+    });
+
+    it('refuses to perform a cancelled transaction', async () => {
+      await create('tx-1');
+      await provider.handleWebhook(webhook('CancelTransaction', { id: 'tx-1', reason: PaymeCancelReason.DebitError }));
+
+      const response = await provider.handleWebhook(webhook('PerformTransaction', { id: 'tx-1' }));
+
+      expect(response.error?.code).toBe(PaymeErrorCodes.CantPerformTransaction);
+    });
+  });
+
+  describe('CancelTransaction', () => {
+    it('cancels a created transaction with state -1', async () => {
+      await create('tx-1');
+
+      const response = await provider.handleWebhook(
+        webhook('CancelTransaction', { id: 'tx-1', reason: PaymeCancelReason.TransactionTimeout })
+      );
+
+      expect(response.result).toMatchObject({ state: PaymeTransactionState.Cancelled });
+      expect(await store.get('tx-1')).toMatchObject({
+        state: PaymeTransactionState.Cancelled,
+        reason: PaymeCancelReason.TransactionTimeout
+      });
+    });
+
+    it('cancels a completed transaction with state -2', async () => {
+      const refunded = jest.fn();
+      provider.events.on('payment.refunded', refunded);
+      await create('tx-1');
+      await provider.handleWebhook(webhook('PerformTransaction', { id: 'tx-1' }));
+
+      const response = await provider.handleWebhook(
+        webhook('CancelTransaction', { id: 'tx-1', reason: PaymeCancelReason.Refund })
+      );
+
+      expect(response.result).toMatchObject({ state: PaymeTransactionState.CancelledAfterComplete });
+      expect(refunded).toHaveBeenCalledTimes(1);
+    });
+
+    it('answers a repeated cancel with the original cancel time', async () => {
+      await create('tx-1');
+      const first = await provider.handleWebhook(webhook('CancelTransaction', { id: 'tx-1', reason: 3 }));
+      const second = await provider.handleWebhook(webhook('CancelTransaction', { id: 'tx-1', reason: 3 }));
+
+      expect(second.result).toEqual(first.result);
+    });
+  });
+
+  describe('webhook_dedupe', () => {
+    it('handles concurrent redeliveries once and answers them all with the same response', async () => {
+      ({ provider, store } = createProvider(undefined, { webhook_dedupe: {} }));
+      const save = jest.spyOn(store, 'save');
+      const request = webhook('CreateTransaction', { id: 'tx-1', time: Date.now(), amount: 500000, account: { order_id: 'order-1' } });
+
+      const [first, second] = await Promise.all([provider.handleWebhook(request), provider.handleWebhook(request)]);
+      const later = await provider.handleWebhook(request);
+
+      expect(first.result).toMatchObject({ state: PaymeTransactionState.Created });
+      expect(second).toEqual(first);
+      expect(later).toEqual(first);
+      expect(save).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('findOrder', () => {
+    const check = (order: PaymeOrderInfo | null, amount = 500000) => {
+      ({ provider, store } = createProvider(undefined, { findOrder: async () => order }));
+      return provider.handleWebhook(webhook('CheckPerformTransaction', { amount, account: { order_id: 'order-1' } }));
+    };
+
+    it('allows an order the hook finds at the same amount', async () => {
+      const response = await check({ amount: Money.fromSom(5000) });
+
+      expect(response).toEqual({ result: { allow: true } });
+    });
+
+    it('rejects an order the hook does not know, naming the account field', async () => {
+      const response = await check(null);
+
+      expect(response.error).toMatchObject({ code: PaymeErrorCodes.InvalidAccount, data: 'order_id' });
+    });
+
+    it('rejects an amount that differs from the order', async () => {
+      const response = await check({ amount: Money.fromSom(5000) }, 499999);
+
+      expect(response.error?.code).toBe(PaymeErrorCodes.InvalidAmount);
+    });
+
+    it('answers with the account error code the hook chose', async () => {
+      const response = await check({ amount: Money.fromSom(5000), error_code: -31060 });
+
+      expect(response.error).toMatchObject({ code: -31060, data: 'order_id' });
+    });
+
+    it('refuses an order that cannot be paid right now', async () => {
+      const response = await check({ amount: Money.fromSom(5000), payable: false });
+
+      expect(response.error?.code).toBe(PaymeErrorCodes.CantPerformTransaction);
+    });
+
+    it('does not create a transaction for a rejected order', async () => {
+      ({ provider, store } = createProvider(undefined, { findOrder: async () => null }));
+
+      const response = await create('tx-1');
+
+      expect(response.error?.code).toBe(PaymeErrorCodes.InvalidAccount);
+      expect(await store.get('tx-1')).toBeNull();
+    });
+  });
+
+  describe('events', () => {
+    it('raises created, completed and refunded with the order, transaction and amount', async () => {
+      const events: Array<[string, unknown]> = [];
+      (['payment.created', 'payment.completed', 'payment.refunded', 'payment.cancelled'] as const).forEach(name => {
+        provider.events.on(name, event => {
+          events.push([name, { ...event, raw: undefined }]);
+        });
+      });
+
+      await create('tx-1');
+      await provider.handleWebhook(webhook('PerformTransaction', { id: 'tx-1' }));
+      await provider.handleWebhook(webhook('PerformTransaction', { id: 'tx-1' }));
+      await provider.handleWebhook(webhook('CancelTransaction', { id: 'tx-1', reason: PaymeCancelReason.Refund }));
+
+      const payload = {
+        provider: 'payme',
+        order_id: 'order-1',
+        transaction_id: 'tx-1',
+        amount: Money.fromSom(5000),
+        reason: null,
+        raw: undefined
+      };
+      expect(events).toEqual([
+        ['payment.created', payload],
+        ['payment.completed', payload],
+        ['payment.refunded', { ...payload, reason: PaymeCancelReason.Refund }]
+      ]);
+    });
+  });
+
+  describe('GetStatement', () => {
+    it('returns the transactions created between from and to, oldest first', async () => {
+      const now = Date.now();
+      await store.save(transaction('tx-old', now - 3000));
+      await store.save(transaction('tx-b', now - 1000));
+      await store.save(transaction('tx-a', now - 2000));
+      await store.save(transaction('tx-new', now + 1000));
+
+      const response = await provider.handleWebhook(webhook('GetStatement', { from: now - 2000, to: now - 1000 }));
+
+      expect(response.result?.transactions?.map((entry: { id: string }) => entry.id)).toEqual(['tx-a', 'tx-b']);
+    });
+
+    it('rejects a period that ends before it starts', async () => {
+      const response = await provider.handleWebhook(webhook('GetStatement', { from: 2000, to: 1000 }));
+
+      expect(response.error?.code).toBe(PaymeErrorCodes.InvalidRequest);
+    });
+  });
+});
+
+function transaction(id: string, create_time: number): PaymeTransaction {
+  return {
+    id,
+    transaction: `merchant-${id}`,
+    order_id: id,
+    account: { order_id: id },
+    amount: 500000,
+    time: create_time,
+    state: PaymeTransactionState.Completed,
+    create_time,
+    perform_time: create_time,
+    cancel_time: 0,
+    reason: null
+  };
+}
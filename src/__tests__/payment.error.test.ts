@@ -0,0 +1,27 @@
+import { AxiosError } from 'axios';
+import { GatewayError, InternalError, NetworkError, TimeoutError, toPaymentError } from '../errors/payment.error';
+
+describe('toPaymentError', () => {
+  it('keeps payment errors as they are', () => {
+    const error = new GatewayError('PAYME_API_ERROR', 'Transaction not found', -31003);
+
+    expect(toPaymentError(error, 'PAYMENT_VERIFY_ERROR')).toBe(error);
+  });
+
+  it('reports a failure on our side as internal, not as a network error', () => {
+    const cause = new TypeError("Cannot read properties of undefined (reading 'save')");
+
+    const error = toPaymentError(cause, 'PAYMENT_REFUND_ERROR');
+
+    expect(error).toBeInstanceOf(InternalError);
+    expect(error).toMatchObject({ kind: 'internal', code: 'PAYMENT_REFUND_ERROR', cause });
+  });
+
+  it('classifies request failures by their axios code and status', () => {
+    const timeout = new AxiosError('timeout of 300ms exceeded', 'ECONNABORTED');
+    const refused = new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED');
+
+    expect(toPaymentError(timeout, 'PAYMENT_VERIFY_ERROR')).toBeInstanceOf(TimeoutError);
+    expect(toPaymentError(refused, 'PAYMENT_VERIFY_ERROR')).toBeInstanceOf(NetworkError);
+  });
+});
@@ -0,0 +1,60 @@
+import { Money } from '../utils/money';
+import { PaymentEvent, PaymentEventBus } from '../utils/payment.events';
+
+const EVENT: PaymentEvent = { provider: 'click', order_id: 'order-1', transaction_id: '1', amount: Money.fromSom(5000), raw: null };
+
+describe('PaymentEventBus', () => {
+  it('delivers an event to its listeners only', async () => {
+    const bus = new PaymentEventBus();
+    const completed = jest.fn();
+    const cancelled = jest.fn();
+    bus.on('payment.completed', completed);
+    bus.on('payment.cancelled', cancelled);
+
+    await bus.emit('payment.completed', EVENT);
+
+    expect(completed).toHaveBeenCalledWith(EVENT);
+    expect(cancelled).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering after unsubscribing, and after the first event for once', async () => {
+    const bus = new PaymentEventBus();
+    const always = jest.fn();
+    const first = jest.fn();
+    const off = bus.on('payment.completed', always);
+    bus.once('payment.completed', first);
+
+    await bus.emit('payment.completed', EVENT);
+    off();
+    await bus.emit('payment.completed', EVENT);
+
+    expect(always).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for async listeners and reports their failures without rejecting', async () => {
+    const onListenerError = jest.fn();
+    const bus = new PaymentEventBus(onListenerError);
+    const done = jest.fn();
+    bus.on('payment.prepared', async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      done();
+    });
+    bus.on('payment.prepared', () => {
+      throw new Error('listener bug');
+    });
+
+    await expect(bus.emit('payment.prepared', EVENT)).resolves.toBeUndefined();
+    expect(done).toHaveBeenCalled();
+    expect(onListenerError).toHaveBeenCalledWith(expect.objectContaining({ message: 'listener bug' }), 'payment.prepared');
+  });
+
+  it('survives an error handler that throws', async () => {
+    const bus = new PaymentEventBus(() => {
+      throw new Error('handler bug');
+    });
+    bus.on('payment.prepared', () => Promise.reject(new Error('listener bug')));
+
+    await expect(bus.emit('payment.prepared', EVENT)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,114 @@
+import { GatewayError, NetworkError, PaymentFailure } from '../errors/payment.error';
+import { PaymentVerifyResult } from '../interfaces/payment.interface';
+import { ReconciliationEntry } from '../interfaces/reconciliation.interface';
+import { PaymentReconciler } from '../reconciliation/payment.reconciler';
+import { reconciliationReportToCsv } from '../reconciliation/reconciliation.export';
+import { Money } from '../utils/money';
+
+const NOT_FOUND = -31003;
+const PERIOD = { from: 1000, to: 9000 };
+
+function entry(transaction_id: string, overrides: Partial<ReconciliationEntry> = {}): ReconciliationEntry {
+  return { transaction_id, order_id: `order-${transaction_id}`, amount: Money.fromSom(5000), status: 'completed', time: 2000, ...overrides };
+}
+
+function verifier(results: Record<string, PaymentVerifyResult | Error>) {
+  return {
+    verifyPayment: jest.fn(async (id: string) => {
+      const result = results[id];
+      if (result instanceof Error) throw result;
+      return result;
+    })
+  };
+}
+
+const isNotFound = (error: PaymentFailure) => error.kind === 'gateway' && error.gateway_code === NOT_FOUND;
+
+describe('PaymentReconciler', () => {
+  it('classifies every kind of mismatch', async () => {
+    const gateway = verifier({
+      same: { success: true, status: 'completed', paid_amount: Money.fromSom(5000) },
+      status: { success: true, status: 'cancelled' },
+      amount: { success: true, status: 'completed', paid_amount: Money.fromSom(4000) },
+      both: { success: true, status: 'refunded', paid_amount: Money.fromSom(1) },
+      gone: { success: false, error: new GatewayError('TRANSACTION_NOT_FOUND', 'Not found', NOT_FOUND) }
+    });
+    const local = ['same', 'status', 'amount', 'both', 'gone'].map(id => entry(id));
+
+    const report = await new PaymentReconciler().reconcile('payme', gateway, local, {
+      ...PERIOD,
+      gateway_entries: [entry('same'), entry('extra', { time: 3000 }), entry('outside', { time: 9001 })]
+    }, isNotFound);
+
+    expect(report).toMatchObject({ provider: 'payme', checked: 5, matched: 1, errors: [] });
+    expect(report.discrepancies.map(({ type, transaction_id }) => [type, transaction_id])).toEqual([
+      ['status_mismatch', 'status'],
+      ['amount_mismatch', 'amount'],
+      ['status_mismatch', 'both'],
+      ['amount_mismatch', 'both'],
+      ['missing_at_gateway', 'gone'],
+      ['missing_locally', 'extra']
+    ]);
+  });
+
+  it('reports failed verifications as errors rather than discrepancies', async () => {
+    const gateway = verifier({
+      down: { success: false, error: new NetworkError('NETWORK_ERROR', 'socket hang up') },
+      thrown: new Error('boom')
+    });
+
+    const report = await new PaymentReconciler().reconcile('click', gateway, [entry('down'), entry('thrown')], PERIOD, isNotFound);
+
+    expect(report.discrepancies).toEqual([]);
+    expect(report.errors.map(({ transaction_id, error }) => [transaction_id, error.code])).toEqual([
+      ['down', 'NETWORK_ERROR'],
+      ['thrown', 'PAYMENT_VERIFY_ERROR']
+    ]);
+  });
+
+  it('keeps no more than concurrency verifications in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const gateway = {
+      verifyPayment: async (): Promise<PaymentVerifyResult> => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight--;
+        return { success: true, status: 'completed' };
+      }
+    };
+    const local = Array.from({ length: 7 }, (_, i) => entry(String(i)));
+
+    const report = await new PaymentReconciler({ concurrency: 2 }).reconcile('payme', gateway, local, PERIOD, isNotFound);
+
+    expect(report.matched).toBe(7);
+    expect(peak).toBe(2);
+  });
+});
+
+describe('reconciliationReportToCsv', () => {
+  it('writes one row per discrepancy and error, with formula-like cells neutralised', () => {
+    const csv = reconciliationReportToCsv({
+      provider: 'payme',
+      ...PERIOD,
+      generated_at: 0,
+      checked: 2,
+      matched: 0,
+      discrepancies: [{
+        type: 'amount_mismatch',
+        transaction_id: 'tx-1',
+        order_id: '=HYPERLINK("http://evil.test","x")',
+        local: entry('tx-1'),
+        gateway: { status: 'completed', amount: Money.fromSom(4000) }
+      }],
+      errors: [{ transaction_id: 'tx-2', order_id: '@SUM(A1)', error: new NetworkError('NETWORK_ERROR', 'timeout, retrying') }]
+    });
+
+    expect(csv.split('\r\n')).toEqual([
+      'type,transaction_id,order_id,local_status,gateway_status,local_amount,gateway_amount,local_time,gateway_time,error',
+      `amount_mismatch,tx-1,"'=HYPERLINK(""http://evil.test"",""x"")",completed,completed,5000.00,4000.00,${new Date(2000).toISOString()},,`,
+      "error,tx-2,'@SUM(A1),,,,,,,\"NETWORK_ERROR: timeout, retrying\"",
+      ''
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { PAYMENT_METRICS } from '../utils/instrumentation';
+import { PrometheusExporter } from '../utils/prometheus.exporter';
+
+describe('PrometheusExporter', () => {
+  it('renders counters with HELP and TYPE lines, one sample per label set', () => {
+    const exporter = new PrometheusExporter();
+    exporter.increment(PAYMENT_METRICS.webhookRequests, { provider: 'payme', method: 'CreateTransaction', error_code: '0' });
+    exporter.increment(PAYMENT_METRICS.webhookRequests, { error_code: '0', method: 'CreateTransaction', provider: 'payme' });
+    exporter.increment(PAYMENT_METRICS.webhookRequests, { provider: 'click', method: 'prepare', error_code: '-1' });
+
+    expect(exporter.metrics()).toBe([
+      '# HELP uzpay_webhook_requests_total Webhook requests handled, by provider, method and error code',
+      '# TYPE uzpay_webhook_requests_total counter',
+      'uzpay_webhook_requests_total{provider="payme",method="CreateTransaction",error_code="0"} 2',
+      'uzpay_webhook_requests_total{provider="click",method="prepare",error_code="-1"} 1',
+      ''
+    ].join('\n'));
+  });
+
+  it('renders cumulative histogram buckets with +Inf, sum and count', () => {
+    const exporter = new PrometheusExporter({ buckets: [1, 0.1] });
+    exporter.observe('latency_seconds', 0.05, { provider: 'payme' });
+    exporter.observe('latency_seconds', 0.5, { provider: 'payme' });
+    exporter.observe('latency_seconds', 3, { provider: 'payme' });
+
+    expect(exporter.metrics()).toBe([
+      '# HELP latency_seconds latency_seconds',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{provider="payme",le="0.1"} 1',
+      'latency_seconds_bucket{provider="payme",le="1"} 2',
+      'latency_seconds_bucket{provider="payme",le="+Inf"} 3',
+      'latency_seconds_sum{provider="payme"} 3.55',
+      'latency_seconds_count{provider="payme"} 3',
+      ''
+    ].join('\n'));
+  });
+
+  it('escapes backslashes, quotes and line breaks in label values', () => {
+    const exporter = new PrometheusExporter();
+    exporter.increment('errors_total', { message: 'C:\\path "quoted"\nnext' });
+
+    expect(exporter.metrics()).toContain('errors_total{message="C:\\\\path \\"quoted\\"\\nnext"} 1\n');
+  });
+
+  it('leaves the braces out for series without labels and renders nothing once reset', () => {
+    const exporter = new PrometheusExporter();
+    exporter.increment('sweeps_total');
+
+    expect(exporter.metrics()).toContain('\nsweeps_total 1\n');
+
+    exporter.reset();
+    expect(exporter.metrics()).toBe('');
+  });
+});
@@ -0,0 +1,58 @@
+import { ValidationError } from '../errors/payment.error';
+import { PaymeSubscribeClient } from '../clients/payme-subscribe.client';
+import { ClickProvider } from '../providers/click.provider';
+import { PaymeProvider } from '../providers/payme.provider';
+import { HttpClient } from '../utils/http.client';
+import {
+  clickConfigFromEnv,
+  paymeConfigFromEnv,
+  validateClickConfig,
+  validatePaymeConfig,
+  validatePaymeSubscribeConfig,
+} from '../utils/provider.config';
+
+describe('provider config validation', () => {
+  it('requires test_mode to be set explicitly', () => {
+    const errors = validatePaymeConfig({ merchant_id: 'merchant', password: 'key' });
+
+    expect(errors.map(error => error.field)).toEqual(['payme.test_mode']);
+    expect(() => new PaymeProvider(new HttpClient(), { merchant_id: 'merchant', password: 'key' }))
+      .toThrow(ValidationError);
+  });
+
+  it('requires test_mode for the Subscribe client as well', () => {
+    const errors = validatePaymeSubscribeConfig({ merchant_id: 'merchant', key: 'key' });
+
+    expect(errors.map(error => error.field)).toEqual(['payme_subscribe.test_mode']);
+    expect(() => new PaymeSubscribeClient(new HttpClient(), { merchant_id: 'merchant', key: 'key' }))
+      .toThrow(ValidationError);
+    expect(() => new PaymeSubscribeClient(new HttpClient(), { merchant_id: 'merchant', test_mode: false }))
+      .not.toThrow();
+  });
+
+  it('names every offending field', () => {
+    const errors = validateClickConfig({ merchant_id: '101', test_mode: false, timeout: -1 }, 'shop.click');
+
+    expect(errors.map(error => error.field)).toEqual([
+      'shop.click.service_id',
+      'shop.click.secret_key',
+      'shop.click.timeout'
+    ]);
+  });
+
+  it('builds production configs from the environment when NODE_ENV is production', () => {
+    const env = {
+      NODE_ENV: 'production',
+      PAYME_MERCHANT_ID: 'merchant',
+      PAYME_PASSWORD: 'live-key',
+      PAYME_PASSWORD_TEST: 'test-key',
+      CLICK_MERCHANT_ID: '101',
+      CLICK_SERVICE_ID: '2001',
+      CLICK_SECRET: 'secret'
+    };
+
+    expect(paymeConfigFromEnv(env)).toMatchObject({ test_mode: false, password: 'live-key' });
+    expect(() => new ClickProvider(new HttpClient(), clickConfigFromEnv(env))).not.toThrow();
+    expect(clickConfigFromEnv({ ...env, NODE_ENV: 'development' }).test_mode).toBe(true);
+  });
+});
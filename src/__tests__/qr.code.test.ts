@@ -0,0 +1,131 @@
+import { inflateSync } from 'zlib';
+import { ValidationError } from '../errors/payment.error';
+import { encodeQrCode, qrCodeToPngDataUri, qrCodeToSvg, QrCode, QrErrorCorrection } from '../utils/qr.code';
+
+// 'HELLO WORLD' at level M in byte mode: version 1, mask 4, as produced by the Nayuki reference encoder
+const HELLO_WORLD_M = [
+  '#######.##..#.#######',
+  '#.....#....#..#.....#',
+  '#.###.#..#.#..#.###.#',
+  '#.###.#.#..#..#.###.#',
+  '#.###.#.###.#.#.###.#',
+  '#.....#.#..#..#.....#',
+  '#######.#.#.#.#######',
+  '........#..##........',
+  '#...#.######.#####..#',
+  '...#....#.###....####',
+  '..######..##.##.#..#.',
+  '#####...##...#.......',
+  '#####.#.#.#.#.##..##.',
+  '........#.#.####.#.##',
+  '#######.###.#.#.##.#.',
+  '#.....#..#.###.##..##',
+  '#.###.#.##.#.##...##.',
+  '#.###.#..#..#...##.##',
+  '#.###.#..###...###...',
+  '#.....#....#.#.......',
+  '#######.#########.#.#'
+];
+
+const LEVELS: Record<number, QrErrorCorrection> = { 1: 'L', 0: 'M', 3: 'Q', 2: 'H' };
+
+function render(qr: QrCode): string[] {
+  return qr.modules.map(row => row.map(dark => (dark ? '#' : '.')).join(''));
+}
+
+/**
+ * Read the error correction level and mask from the format bits beside the top-left finder
+ */
+function readFormat(qr: QrCode): { level: QrErrorCorrection; mask: number } {
+  const at = (x: number, y: number) => (qr.modules[y][x] ? 1 : 0);
+  const positions: Array<[number, number]> = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8], [7, 8],
+    [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]
+  ];
+  const bits = positions.reduce((value, [x, y], i) => value | (at(x, y) << i), 0) ^ 0x5412;
+  const data = bits >> 10;
+  return { level: LEVELS[data >> 3], mask: data & 7 };
+}
+
+describe('encodeQrCode', () => {
+  it('matches the reference module matrix for a fixed input', () => {
+    const qr = encodeQrCode('HELLO WORLD', 'M');
+
+    expect(qr.version).toBe(1);
+    expect(render(qr)).toEqual(HELLO_WORLD_M);
+    expect(readFormat(qr)).toEqual({ level: 'M', mask: 4 });
+  });
+
+  it.each([
+    ['L', 17],
+    ['M', 14],
+    ['Q', 11],
+    ['H', 7]
+  ] as Array<[QrErrorCorrection, number]>)('fits %s up to %d bytes in version 1', (level, capacity) => {
+    expect(encodeQrCode('x'.repeat(capacity), level).version).toBe(1);
+    expect(encodeQrCode('x'.repeat(capacity + 1), level).version).toBe(2);
+  });
+
+  it('counts UTF-8 bytes, not characters', () => {
+    expect(encodeQrCode('я'.repeat(7), 'M').version).toBe(1);
+    expect(encodeQrCode('я'.repeat(8), 'M').version).toBe(2);
+  });
+
+  it('picks the smallest version and sizes the symbol from it', () => {
+    const qr = encodeQrCode('x'.repeat(34), 'H');
+
+    expect(qr.version).toBe(4);
+    expect(qr.size).toBe(33);
+    expect(qr.modules).toHaveLength(33);
+    expect(encodeQrCode('x'.repeat(35), 'H').version).toBe(5);
+  });
+
+  it('writes the requested level into the format bits', () => {
+    (['L', 'M', 'Q', 'H'] as QrErrorCorrection[]).forEach(level => {
+      expect(readFormat(encodeQrCode('https://checkout.paycom.uz', level)).level).toBe(level);
+    });
+  });
+
+  it('refuses data beyond the capacity of version 40', () => {
+    expect(encodeQrCode('x'.repeat(2953), 'L').version).toBe(40);
+    expect(() => encodeQrCode('x'.repeat(2954), 'L')).toThrow(ValidationError);
+    expect(() => encodeQrCode('x'.repeat(2954), 'L')).toThrow(expect.objectContaining({ code: 'QR_DATA_TOO_LONG' }));
+  });
+});
+
+describe('qrCodeToSvg', () => {
+  it('draws one square per dark module inside the quiet zone', () => {
+    const svg = qrCodeToSvg('HELLO WORLD', { margin: 2, scale: 4 });
+    const dark = HELLO_WORLD_M.join('').split('#').length - 1;
+
+    expect(svg).toContain('viewBox="0 0 25 25" width="100" height="100"');
+    expect(svg.match(/h1v1h-1z/g)).toHaveLength(dark);
+    expect(svg).toContain('M2,2h1v1h-1z');
+  });
+
+  it('escapes colours written into attributes', () => {
+    const svg = qrCodeToSvg('HELLO WORLD', { dark: '#000"/><script>', light: '#fff' });
+
+    expect(svg).not.toContain('<script>');
+    expect(svg).toContain('fill="#000&quot;/&gt;&lt;script&gt;"');
+  });
+});
+
+describe('qrCodeToPngDataUri', () => {
+  it('renders a 1-bit PNG with the quiet zone light', () => {
+    const png = Buffer.from(qrCodeToPngDataUri('HELLO WORLD', { margin: 4, scale: 1 }).replace('data:image/png;base64,', ''), 'base64');
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.readUInt32BE(16)).toBe(29);
+    expect(png.readUInt32BE(20)).toBe(29);
+    expect(png[24]).toBe(1);
+
+    const idat = png.indexOf('IDAT');
+    const raw = inflateSync(png.subarray(idat + 4, idat + 4 + png.readUInt32BE(idat - 4)));
+    const rowBytes = Math.ceil(29 / 8) + 1;
+    const pixel = (x: number, y: number) => (raw[y * rowBytes + 1 + (x >> 3)] >> (7 - (x & 7))) & 1;
+    expect(pixel(3, 3)).toBe(0);
+    expect(pixel(4, 4)).toBe(1);
+    expect(pixel(11, 4)).toBe(0);
+  });
+});
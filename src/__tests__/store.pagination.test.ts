@@ -0,0 +1,80 @@
+import { ValidationError } from '../errors/payment.error';
+import { StoredTransaction } from '../interfaces/transaction.interface';
+import { InMemoryTransactionStore } from '../stores/memory.store';
+import { iterateByCreateTime, pageByCreateTime } from '../stores/store.pagination';
+
+function record(id: string, create_time: number): StoredTransaction {
+  return { id, order_id: `order-${id}`, amount: 100, create_time };
+}
+
+// Three records share create_time 2000, so a page boundary falls inside the tie
+const RECORDS = [
+  record('e', 3000),
+  record('c', 2000),
+  record('a', 1000),
+  record('d', 2000),
+  record('b', 2000),
+  record('f', 9000)
+];
+
+describe('pageByCreateTime', () => {
+  it('pages through equal timestamps by id without skipping or repeating', () => {
+    const first = pageByCreateTime(RECORDS, 0, 5000, { limit: 2 });
+    const second = pageByCreateTime(RECORDS, 0, 5000, { limit: 2, cursor: first.cursor });
+    const third = pageByCreateTime(RECORDS, 0, 5000, { limit: 2, cursor: second.cursor });
+
+    expect(first.records.map(r => r.id)).toEqual(['a', 'b']);
+    expect(first.cursor).toBe('2000:b');
+    expect(second.records.map(r => r.id)).toEqual(['c', 'd']);
+    expect(third.records.map(r => r.id)).toEqual(['e']);
+    expect(third.cursor).toBeUndefined();
+  });
+
+  it('returns no cursor when the last page is exactly full', () => {
+    const first = pageByCreateTime(RECORDS, 0, 5000, { limit: 3 });
+    const last = pageByCreateTime(RECORDS, 0, 5000, { limit: 2, cursor: first.cursor });
+
+    expect(last.records.map(r => r.id)).toEqual(['d', 'e']);
+    expect(last.cursor).toBeUndefined();
+  });
+
+  it('keeps its place when a record is saved before the cursor between pages', () => {
+    const first = pageByCreateTime(RECORDS, 0, 5000, { limit: 2 });
+    const second = pageByCreateTime([...RECORDS, record('aa', 1500)], 0, 5000, { limit: 2, cursor: first.cursor });
+
+    expect(second.records.map(r => r.id)).toEqual(['c', 'd']);
+  });
+
+  it('includes both ends of the period', () => {
+    expect(pageByCreateTime(RECORDS, 1000, 3000, { limit: 10 }).records.map(r => r.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('rejects a malformed cursor or page size', () => {
+    expect(() => pageByCreateTime(RECORDS, 0, 5000, { limit: 2, cursor: 'b' })).toThrow(ValidationError);
+    expect(() => pageByCreateTime(RECORDS, 0, 5000, { limit: 2, cursor: 'x:b' })).toThrow("Malformed page cursor 'x:b'");
+    expect(() => pageByCreateTime(RECORDS, 0, 5000, { limit: 0 })).toThrow('limit must be a positive integer');
+  });
+});
+
+describe('iterateByCreateTime', () => {
+  const collect = async (iterable: AsyncIterable<StoredTransaction>) => {
+    const ids: string[] = [];
+    for await (const item of iterable) ids.push(item.id);
+    return ids;
+  };
+
+  it('walks every page of a store with listByCreateTime', async () => {
+    const store = new InMemoryTransactionStore<StoredTransaction>();
+    await Promise.all(RECORDS.map(item => store.save(item)));
+    const list = jest.spyOn(store, 'listByCreateTime');
+
+    expect(await collect(iterateByCreateTime(store, 0, 5000, 2))).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(list).toHaveBeenCalledTimes(3);
+  });
+
+  it('sorts the period itself for a store without listByCreateTime', async () => {
+    const store = { findByCreateTime: async () => RECORDS.slice(0, 5) } as never;
+
+    expect(await collect(iterateByCreateTime(store, 0, 5000))).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+});
@@ -0,0 +1,127 @@
+import { ExpiringProvider } from '../interfaces/sweeper.interface';
+import { PaymeCancelReason, PaymeTransactionState, PaymeWebhookRequest } from '../interfaces/payme.interface';
+import { PaymeTransaction } from '../interfaces/transaction.interface';
+import { TransactionSweeper } from '../gateway/transaction.sweeper';
+import { PaymeProvider } from '../providers/payme.provider';
+import { InMemoryTransactionStore } from '../stores/memory.store';
+import { HttpClient } from '../utils/http.client';
+import { NoopLogger } from '../utils/logger';
+import { paymeBasicToken } from '../utils/webhook.security';
+
+const PASSWORD = 'test-key';
+const TIMEOUT = 60000;
+const START = 1700000000000;
+
+function createProvider(store = new InMemoryTransactionStore<PaymeTransaction>()) {
+  const provider = new PaymeProvider(
+    new HttpClient(1000, 0, 0, { logger: new NoopLogger() }),
+    { merchant_id: 'merchant', password: PASSWORD, test_mode: true, transaction_timeout: TIMEOUT, logger: new NoopLogger() },
+    store
+  );
+  return { provider, store };
+}
+
+function create(provider: PaymeProvider, id: string): Promise<unknown> {
+  const request: PaymeWebhookRequest = {
+    method: 'CreateTransaction',
+    params: { id, time: Date.now(), amount: 500000, account: { order_id: id } },
+    id: '1',
+    headers: { Authorization: `Basic ${paymeBasicToken(PASSWORD)}` }
+  };
+  return provider.handleWebhook(request);
+}
+
+describe('TransactionSweeper', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = START;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('cancels Payme transactions left created past transaction_timeout with reason 4', async () => {
+    const { provider, store } = createProvider();
+    const cancelled = jest.fn();
+    provider.events.on('payment.cancelled', cancelled);
+    await create(provider, 'tx-old');
+    now += TIMEOUT / 2;
+    await create(provider, 'tx-new');
+
+    const results = await new TransactionSweeper({ payme: provider }, { logger: new NoopLogger() }).sweep(START + TIMEOUT + 1);
+
+    expect(results).toEqual([{ provider: 'payme', expired: [expect.objectContaining({ id: 'tx-old' })] }]);
+    expect(await store.get('tx-old')).toMatchObject({
+      state: PaymeTransactionState.Cancelled,
+      reason: PaymeCancelReason.TransactionTimeout,
+      cancel_time: START + TIMEOUT + 1
+    });
+    expect(await store.get('tx-new')).toMatchObject({ state: PaymeTransactionState.Created });
+    expect(cancelled).toHaveBeenCalledTimes(1);
+  });
+
+  it('loads only the transactions that timed out since the last sweep', async () => {
+    const { provider, store } = createProvider();
+    const find = jest.spyOn(store, 'findByCreateTime');
+    const sweeper = new TransactionSweeper({ payme: provider }, { logger: new NoopLogger() });
+
+    await sweeper.sweep(START);
+    await sweeper.sweep(START + 5000);
+
+    expect(find.mock.calls).toEqual([
+      [START - 2 * TIMEOUT, START - TIMEOUT],
+      [START - TIMEOUT, START + 5000 - TIMEOUT]
+    ]);
+  });
+
+  it('expires a transaction on the sweep after it reaches the window boundary', async () => {
+    const { provider, store } = createProvider();
+    await create(provider, 'tx-1');
+    const sweeper = new TransactionSweeper({ payme: provider }, { logger: new NoopLogger() });
+
+    expect((await sweeper.sweep(START + TIMEOUT))[0].expired).toEqual([]);
+    expect((await sweeper.sweep(START + TIMEOUT + 1))[0].expired).toEqual([expect.objectContaining({ id: 'tx-1' })]);
+    expect(await store.get('tx-1')).toMatchObject({ state: PaymeTransactionState.Cancelled });
+  });
+
+  it('sweeps the same window again after a failed sweep', async () => {
+    const { provider, store } = createProvider();
+    const find = jest.spyOn(store, 'findByCreateTime').mockRejectedValueOnce(new Error('connection reset'));
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const sweeper = new TransactionSweeper({ payme: provider }, { logger });
+
+    const [failed] = await sweeper.sweep(START);
+    await sweeper.sweep(START + 5000);
+
+    expect(failed).toMatchObject({ provider: 'payme', expired: [], error: { code: 'SWEEP_ERROR' } });
+    expect(logger.error).toHaveBeenCalledWith('sweep.failed', expect.objectContaining({ provider: 'payme' }));
+    expect(find.mock.calls[1]).toEqual([START - 2 * TIMEOUT, START + 5000 - TIMEOUT]);
+  });
+
+  it('keeps sweeping the other providers when one fails', async () => {
+    const broken: ExpiringProvider = { expireStaleTransactions: () => Promise.reject(new Error('store down')) };
+    const healthy: ExpiringProvider = { expireStaleTransactions: async () => [] };
+
+    const results = await new TransactionSweeper({ broken, healthy }, { logger: new NoopLogger() }).sweep();
+
+    expect(results.map(result => [result.provider, Boolean(result.error)])).toEqual([['broken', true], ['healthy', false]]);
+  });
+
+  it('joins a sweep that is still running', async () => {
+    let finish: () => void = () => undefined;
+    const expire = jest.fn(() => new Promise<[]>(resolve => {
+      finish = () => resolve([]);
+    }));
+    const sweeper = new TransactionSweeper({ slow: { expireStaleTransactions: expire } }, { logger: new NoopLogger() });
+
+    const first = sweeper.sweep();
+    const second = sweeper.sweep();
+    finish();
+
+    expect(await second).toBe(await first);
+    expect(expire).toHaveBeenCalledTimes(1);
+  });
+});
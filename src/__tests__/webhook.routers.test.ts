@@ -0,0 +1,166 @@
+import express, { Router } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ClickErrorCodes } from '../interfaces/click.interface';
+import { PaymeErrorCodes, PaymeTransactionState } from '../interfaces/payme.interface';
+import { PaymeTransaction } from '../interfaces/transaction.interface';
+import { ClickProvider } from '../providers/click.provider';
+import { PaymeProvider } from '../providers/payme.provider';
+import { createClickWebhookRouter } from '../routers/click.router';
+import { createPaymeWebhookRouter } from '../routers/payme.router';
+import { InMemoryTransactionStore } from '../stores/memory.store';
+import { HttpClient } from '../utils/http.client';
+import { NoopLogger } from '../utils/logger';
+import { clickSignString, paymeBasicToken } from '../utils/webhook.security';
+
+const PAYME_PASSWORD = 'payme-key';
+const CLICK_SECRET = 'click-secret';
+const DRIVER_ERROR = new Error('connect ECONNREFUSED 10.0.0.5:5432 (user payments)');
+
+/**
+ * Serve a router on an ephemeral port for the duration of one test
+ */
+async function serve(router: Router, test: (url: string) => Promise<void>): Promise<void> {
+  const app = express();
+  app.use('/webhook', router);
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  try {
+    await test(`http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+}
+
+function httpClient(): HttpClient {
+  return new HttpClient(1000, 0, 0, { logger: new NoopLogger() });
+}
+
+describe('createPaymeWebhookRouter', () => {
+  const provider = () => new PaymeProvider(httpClient(), {
+    merchant_id: 'merchant',
+    password: PAYME_PASSWORD,
+    test_mode: true,
+    logger: new NoopLogger()
+  });
+  const post = (url: string, body: unknown, password = PAYME_PASSWORD) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Basic ${paymeBasicToken(password)}` },
+    body: JSON.stringify(body)
+  });
+  const create = { id: 7, method: 'CreateTransaction', params: { id: 'tx-1', time: 1, amount: 500000, account: { order_id: '1' } } };
+
+  it('answers with the provider response and echoes the request id', () => serve(createPaymeWebhookRouter(provider()), async url => {
+    const response = await post(url, create);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ id: 7, result: { state: PaymeTransactionState.Created } });
+  }));
+
+  it('answers a request with the wrong credentials with -32504', () => serve(createPaymeWebhookRouter(provider()), async url => {
+    const response = await post(url, create, 'wrong');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ id: 7, error: { code: PaymeErrorCodes.AuthorizationFailure } });
+  }));
+
+  it('answers a thrown handler with a fixed internal error', () => serve(
+    createPaymeWebhookRouter({ handleWebhook: () => Promise.reject(DRIVER_ERROR) }),
+    async url => {
+      const response = await post(url, create);
+
+      expect(await response.json()).toEqual({ id: 7, error: { code: PaymeErrorCodes.InternalError, message: 'Internal error' } });
+    }
+  ));
+
+  it('leaves the detail of a failed request to the provider logger', async () => {
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const store = new InMemoryTransactionStore<PaymeTransaction>();
+    jest.spyOn(store, 'save').mockRejectedValue(DRIVER_ERROR);
+    const failing = new PaymeProvider(httpClient(), { merchant_id: 'merchant', password: PAYME_PASSWORD, test_mode: true, logger }, store);
+
+    await serve(createPaymeWebhookRouter(failing), async url => {
+      const response = await post(url, create);
+
+      expect(await response.json()).toMatchObject({ error: { message: 'Internal error' } });
+    });
+    expect(logger.error).toHaveBeenCalledWith('webhook.failed', expect.objectContaining({ error: expect.anything() }));
+  });
+
+  it('answers malformed JSON with a parse error', () => serve(createPaymeWebhookRouter(provider()), async url => {
+    const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' });
+
+    expect(await response.json()).toEqual({ id: null, error: { code: PaymeErrorCodes.ParseError, message: 'Parse error' } });
+  }));
+});
+
+describe('createClickWebhookRouter', () => {
+  const provider = () => new ClickProvider(httpClient(), {
+    merchant_id: '101',
+    service_id: '2001',
+    secret_key: CLICK_SECRET,
+    test_mode: true,
+    logger: new NoopLogger()
+  });
+  const prepare = (secret = CLICK_SECRET) => {
+    const fields = {
+      click_trans_id: '1',
+      service_id: '2001',
+      click_paydoc_id: '500001',
+      merchant_trans_id: 'order-1',
+      amount: 5000,
+      action: 0 as const,
+      error: 0,
+      sign_time: '2024-01-01 12:00:00'
+    };
+    return new URLSearchParams({
+      ...fields,
+      amount: '5000',
+      action: '0',
+      error: '0',
+      error_note: '',
+      sign_string: clickSignString(fields, secret)
+    });
+  };
+  const post = (url: string, body: URLSearchParams) => fetch(url, { method: 'POST', body });
+
+  it('answers with the provider response', () => serve(createClickWebhookRouter(provider()), async url => {
+    const response = await post(url, prepare());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      click_trans_id: 1,
+      merchant_trans_id: 'order-1',
+      error: ClickErrorCodes.Success,
+      merchant_prepare_id: expect.any(Number)
+    });
+  }));
+
+  it('answers a bad signature with -1', () => serve(createClickWebhookRouter(provider()), async url => {
+    const response = await post(url, prepare('wrong'));
+
+    expect(await response.json()).toMatchObject({ error: ClickErrorCodes.SignatureFailure });
+  }));
+
+  it('answers a thrown handler with a fixed error note', () => serve(
+    createClickWebhookRouter({ handleWebhook: () => Promise.reject(DRIVER_ERROR) }),
+    async url => {
+      const response = await post(url, prepare());
+
+      expect(await response.json()).toEqual({
+        click_trans_id: 1,
+        merchant_trans_id: 'order-1',
+        error: ClickErrorCodes.BadRequest,
+        error_note: 'Internal error'
+      });
+    }
+  ));
+
+  it('lists the missing fields', () => serve(createClickWebhookRouter(provider()), async url => {
+    const response = await post(url, new URLSearchParams({ click_trans_id: '1' }));
+
+    expect(await response.json()).toMatchObject({ error: ClickErrorCodes.BadRequest, error_note: expect.stringContaining('service_id') });
+  }));
+});
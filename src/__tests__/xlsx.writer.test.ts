@@ -0,0 +1,93 @@
+import { inflateRawSync } from 'zlib';
+import { crc32 } from '../utils/crc32';
+import { streamXlsx, XlsxCell } from '../utils/xlsx.writer';
+
+async function collect(chunks: AsyncIterable<Buffer>): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const chunk of chunks) parts.push(chunk);
+  return Buffer.concat(parts);
+}
+
+/**
+ * Read every entry through the central directory, checking each against its recorded CRC and size
+ */
+function unzip(zip: Buffer): Map<string, string> {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let at = zip.readUInt32LE(end + 16);
+
+  const entries = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(at)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(at + 16);
+    const compressed = zip.readUInt32LE(at + 20);
+    const size = zip.readUInt32LE(at + 24);
+    const nameLength = zip.readUInt16LE(at + 28);
+    const offset = zip.readUInt32LE(at + 42);
+    const name = zip.toString('utf8', at + 46, at + 46 + nameLength);
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const start = offset + 30 + zip.readUInt16LE(offset + 26) + zip.readUInt16LE(offset + 28);
+    const data = inflateRawSync(zip.subarray(start, start + compressed));
+    expect(data.length).toBe(size);
+    expect(crc32(data)).toBe(crc);
+
+    entries.set(name, data.toString('utf8'));
+    at += 46 + nameLength;
+  }
+  return entries;
+}
+
+async function sheet(header: string[], rows: XlsxCell[][], sheet_name?: string): Promise<Map<string, string>> {
+  return unzip(await collect(streamXlsx(header, rows, sheet_name)));
+}
+
+describe('streamXlsx', () => {
+  it('writes a workbook whose entries unzip cleanly', async () => {
+    const entries = await sheet(['id'], [['1']]);
+
+    expect(Array.from(entries.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml'
+    ]);
+  });
+
+  it('writes the header and typed cells into the sheet', async () => {
+    const entries = await sheet(['id', 'amount', 'paid', 'note'], [['tx-1', 5000.5, true, null], ['tx-2', 0, false, '']]);
+
+    expect(entries.get('xl/worksheets/sheet1.xml')).toBe(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+      '<row r="1"><c t="inlineStr"><is><t xml:space="preserve">id</t></is></c><c t="inlineStr"><is><t xml:space="preserve">amount</t></is></c>' +
+      '<c t="inlineStr"><is><t xml:space="preserve">paid</t></is></c><c t="inlineStr"><is><t xml:space="preserve">note</t></is></c></row>' +
+      '<row r="2"><c t="inlineStr"><is><t xml:space="preserve">tx-1</t></is></c><c><v>5000.5</v></c><c t="b"><v>1</v></c><c/></row>' +
+      '<row r="3"><c t="inlineStr"><is><t xml:space="preserve">tx-2</t></is></c><c><v>0</v></c><c t="b"><v>0</v></c><c/></row>' +
+      '</sheetData></worksheet>'
+    );
+  });
+
+  it('escapes markup and strips characters XML does not allow', async () => {
+    const entries = await sheet(['note'], [['<b>&\u0000\u0007tab\there\u000b\ufffeend 😀</b>']]);
+
+    expect(entries.get('xl/worksheets/sheet1.xml')).toContain('<t xml:space="preserve">&lt;b&gt;&amp;tab\thereend 😀&lt;/b&gt;</t>');
+  });
+
+  it('cleans up the sheet name', async () => {
+    const entries = await sheet(['id'], [], 'Orders: 2024/01 [draft]?');
+
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Orders_ 2024_01 _draft__" sheetId="1" r:id="rId1"/>');
+  });
+
+  it('streams a sheet larger than one deflate batch', async () => {
+    const rows = Array.from({ length: 5000 }, (_, i) => [`tx-${i}`, i]);
+
+    const xml = (await sheet(['id', 'amount'], rows)).get('xl/worksheets/sheet1.xml') as string;
+
+    expect(xml.length).toBeGreaterThan(64 * 1024);
+    expect(xml).toContain('<row r="5001"><c t="inlineStr"><is><t xml:space="preserve">tx-4999</t></is></c><c><v>4999</v></c></row>');
+  });
+});
@@ -0,0 +1,367 @@
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { DateTime } from 'luxon';
+import { PaymentError } from '../errors/payment.error';
+import { ClickConfig } from '../interfaces/click.interface';
+import { PaymentProvider, PaymentResult } from '../interfaces/payment.interface';
+import { PaymeConfig } from '../interfaces/payme.interface';
+import { ClickProvider } from '../providers/click.provider';
+import { PaymeProvider } from '../providers/payme.provider';
+import { GatewayEmulator } from '../testing/gateway.emulator';
+import { HttpClient } from '../utils/http.client';
+import { ConsoleJsonLogger, Logger } from '../utils/logger';
+import { Money } from '../utils/money';
+import { clickConfigFromEnv, paymeConfigFromEnv } from '../utils/provider.config';
+import { clickSignString, paymeBasicToken } from '../utils/webhook.security';
+
+/**
+ * Provider settings read by the CLI, from --config or from PAYME_* / CLICK_* variables
+ */
+export interface CliConfig {
+  payme?: PaymeConfig;
+  click?: ClickConfig;
+}
+
+/**
+ * Where the CLI writes and what it reads besides its arguments
+ */
+export interface CliIo {
+  out: (text: string) => void;
+  err: (text: string) => void;
+  env: Record<string, string | undefined>;
+}
+
+type ProviderName = 'payme' | 'click';
+
+type Flags = ReturnType<typeof parse>['values'];
+
+/**
+ * Bad arguments or configuration; reported with the usage hint and exit code 2
+ */
+class UsageError extends Error {}
+
+export const USAGE = `Usage: uzpay <command> [options]
+
+Commands:
+  link <payme|click> --order <id> --amount <som> [--description <text>] [--return-url <url>]
+  verify <payme|click> <transaction_id>
+  cancel <payme|click> <transaction_id> --yes
+  sign click --click-trans-id <id> --merchant-trans-id <id> --amount <as sent> --action <0|1>
+             [--merchant-prepare-id <id>] [--sign-time <yyyy-MM-dd HH:mm:ss>]
+  sign payme
+  simulate-webhook <payme|click> --url <webhook url> --order <id> --amount <som>
+             [--skip-perform] [--skip-complete] [--cancel-reason <n>]
+
+Options:
+  --config <file>  JSON file with { "payme": {...}, "click": {...} } (default: PAYME_* and CLICK_* variables)
+  --json           Print machine-readable JSON
+  --verbose        Log gateway calls to stderr
+  --help           Show this help
+`;
+
+const OPTIONS = {
+  config: { type: 'string' },
+  json: { type: 'boolean' },
+  verbose: { type: 'boolean' },
+  help: { type: 'boolean' },
+  yes: { type: 'boolean' },
+  order: { type: 'string' },
+  amount: { type: 'string' },
+  description: { type: 'string' },
+  'return-url': { type: 'string' },
+  url: { type: 'string' },
+  'click-trans-id': { type: 'string' },
+  'merchant-trans-id': { type: 'string' },
+  'merchant-prepare-id': { type: 'string' },
+  action: { type: 'string' },
+  'sign-time': { type: 'string' },
+  'skip-perform': { type: 'boolean' },
+  'skip-complete': { type: 'boolean' },
+  'cancel-reason': { type: 'string' },
+} as const;
+
+function parse(argv: string[]) {
+  return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+}
+
+/**
+ * Run the uzpay command line and resolve with the exit code:
+ * 0 on success, 1 when the gateway or webhook reported a failure, 2 on bad arguments or configuration
+ */
+export async function runCli(argv: string[], io: CliIo): Promise<number> {
+  let flags: Flags;
+  let positionals: string[];
+  try {
+    ({ values: flags, positionals } = parse(argv));
+  } catch (error) {
+    io.err(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const [command, ...args] = positionals;
+  if (flags.help || !command) {
+    io.out(USAGE);
+    return flags.help ? 0 : 2;
+  }
+
+  const print = (value: unknown, text: string) => io.out(flags.json ? `${JSON.stringify(value, null, 2)}\n` : `${text}\n`);
+
+  try {
+    const config = loadConfig(flags.config, io.env);
+    const logger = new ConsoleJsonLogger({ level: flags.verbose ? 'debug' : 'warn', write: line => io.err(`${line}\n`) });
+
+    switch (command) {
+      case 'link':
+        return link(providerArg(args[0]), flags, config, logger, print);
+      case 'verify':
+        return await verify(providerArg(args[0]), requireArg(args[1], 'transaction_id'), config, logger, print);
+      case 'cancel':
+        if (!flags.yes) {
+          throw new UsageError('cancel reverses the payment at the gateway; pass --yes to confirm');
+        }
+        return await cancel(providerArg(args[0]), requireArg(args[1], 'transaction_id'), config, logger, print);
+      case 'sign':
+        return sign(providerArg(args[0]), flags, config, print);
+      case 'simulate-webhook':
+        return await simulateWebhook(providerArg(args[0]), flags, config, print);
+      default:
+        throw new UsageError(`Unknown command ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      io.err(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (error instanceof PaymentError && error.kind === 'validation') {
+      io.err(`${error.message}\n`);
+      return 2;
+    }
+    io.err(`${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+/**
+ * Read the config file, or build the config from the environment for the providers whose merchant id is set
+ */
+export function loadConfig(path: string | undefined, env: Record<string, string | undefined>): CliConfig {
+  if (path) {
+    let config: unknown;
+    try {
+      config = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new UsageError(`Cannot read config ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (typeof config !== 'object' || config === null) {
+      throw new UsageError(`Config ${path} must be a JSON object`);
+    }
+    return config as CliConfig;
+  }
+
+  return {
+    payme: env.PAYME_MERCHANT_ID ? paymeConfigFromEnv(env) : undefined,
+    click: env.CLICK_MERCHANT_ID ? clickConfigFromEnv(env) : undefined
+  };
+}
+
+function link(
+  name: ProviderName,
+  flags: Flags,
+  config: CliConfig,
+  logger: Logger,
+  print: (value: unknown, text: string) => void
+): number {
+  const order = {
+    id: requireFlag(flags.order, 'order'),
+    amount: parseAmount(requireFlag(flags.amount, 'amount')),
+    description: flags.description,
+    return_url: flags['return-url']
+  };
+  const url = createProvider(name, config, logger).generatePaymentUrl(order);
+
+  print({ provider: name, order_id: order.id, amount: order.amount, url }, url);
+  return 0;
+}
+
+async function verify(
+  name: ProviderName,
+  transaction_id: string,
+  config: CliConfig,
+  logger: Logger,
+  print: (value: unknown, text: string) => void
+): Promise<number> {
+  const result = await createProvider(name, config, logger).verifyPayment(transaction_id);
+  if (!result.success) {
+    return printFailure(result, print);
+  }
+
+  print(result, [
+    `status: ${result.status}`,
+    `transaction_id: ${result.transaction_id ?? transaction_id}`,
+    result.paid_amount ? `paid_amount: ${result.paid_amount.format()}` : null,
+    result.paid_time ? `paid_time: ${result.paid_time.toISOString()}` : null
+  ].filter(line => line !== null).join('\n'));
+  return 0;
+}
+
+async function cancel(
+  name: ProviderName,
+  transaction_id: string,
+  config: CliConfig,
+  logger: Logger,
+  print: (value: unknown, text: string) => void
+): Promise<number> {
+  const result = await createProvider(name, config, logger).cancelPayment(transaction_id);
+  if (!result.success) {
+    return printFailure(result, print);
+  }
+
+  print(result, `cancelled: ${result.transaction_id ?? transaction_id}`);
+  return 0;
+}
+
+function sign(
+  name: ProviderName,
+  flags: Flags,
+  config: CliConfig,
+  print: (value: unknown, text: string) => void
+): number {
+  if (name === 'payme') {
+    const payme = requireConfig(config, 'payme');
+    const authorization = `Basic ${paymeBasicToken(requireFlag(payme.password, 'payme.password'), payme.login)}`;
+    print({ authorization }, authorization);
+    return 0;
+  }
+
+  const click = requireConfig(config, 'click');
+  const fields = {
+    click_trans_id: requireFlag(flags['click-trans-id'], 'click-trans-id'),
+    service_id: requireFlag(click.service_id, 'click.service_id'),
+    merchant_trans_id: requireFlag(flags['merchant-trans-id'], 'merchant-trans-id'),
+    merchant_prepare_id: flags['merchant-prepare-id'],
+    amount: requireFlag(flags.amount, 'amount'),
+    action: requireFlag(flags.action, 'action'),
+    sign_time: flags['sign-time'] ?? tashkentNow()
+  };
+  const sign_string = clickSignString(fields, requireFlag(click.secret_key, 'click.secret_key'));
+
+  print({ ...fields, sign_string }, sign_string);
+  return 0;
+}
+
+async function simulateWebhook(
+  name: ProviderName,
+  flags: Flags,
+  config: CliConfig,
+  print: (value: unknown, text: string) => void
+): Promise<number> {
+  const webhook_url = requireFlag(flags.url, 'url');
+  const order_id = requireFlag(flags.order, 'order');
+  const amount = parseAmount(requireFlag(flags.amount, 'amount'));
+
+  if (name === 'payme') {
+    const payme = requireConfig(config, 'payme');
+    const emulator = new GatewayEmulator({
+      payme: { webhook_url, login: payme.login, password: requireFlag(payme.password, 'payme.password') }
+    });
+    const cancelReason = flags['cancel-reason'] !== undefined ? Number(flags['cancel-reason']) : undefined;
+    if (cancelReason !== undefined && !Number.isInteger(cancelReason)) {
+      throw new UsageError('--cancel-reason must be an integer');
+    }
+
+    const result = await emulator.payWithPayme({
+      account: { [payme.account_field ?? 'order_id']: order_id },
+      amount: amount.tiyin,
+      skip_perform: flags['skip-perform'],
+      cancel_reason: cancelReason
+    });
+    const failed = result.calls.some(call => call.response.error);
+    print(result, result.calls.map(call => call.response.error
+      ? `${call.method}: error ${call.response.error.code} ${JSON.stringify(call.response.error.message)}`
+      : `${call.method}: ok${call.response.result?.state !== undefined ? ` (state ${call.response.result.state})` : ''}`
+    ).join('\n'));
+    return failed ? 1 : 0;
+  }
+
+  const click = requireConfig(config, 'click');
+  const emulator = new GatewayEmulator({
+    click: {
+      webhook_url,
+      merchant_id: requireFlag(click.merchant_id, 'click.merchant_id'),
+      service_id: requireFlag(click.service_id, 'click.service_id'),
+      secret_key: requireFlag(click.secret_key, 'click.secret_key')
+    }
+  });
+
+  const result = await emulator.payWithClick({
+    merchant_trans_id: order_id,
+    amount: amount.toSom(),
+    skip_complete: flags['skip-complete']
+  });
+  print(result, result.calls.map(call =>
+    `${call.method}: error ${call.response.error} ${call.response.error_note}`
+  ).join('\n'));
+  return result.status === -1 ? 1 : 0;
+}
+
+function createProvider(name: ProviderName, config: CliConfig, logger: Logger): PaymentProvider {
+  if (name === 'payme') {
+    const payme = requireConfig(config, 'payme');
+    return new PaymeProvider(httpClient(payme, logger), { ...payme, logger });
+  }
+
+  const click = requireConfig(config, 'click');
+  return new ClickProvider(httpClient(click, logger), { ...click, logger });
+}
+
+function httpClient(config: PaymeConfig | ClickConfig, logger: Logger): HttpClient {
+  return new HttpClient(config.timeout, config.retries, config.retry_delay, { logger });
+}
+
+function printFailure(result: PaymentResult, print: (value: unknown, text: string) => void): number {
+  const error = result.error;
+  print(result, error ? `failed: ${error.code} (${error.kind}): ${error.message}` : 'failed');
+  return 1;
+}
+
+function providerArg(value: string | undefined): ProviderName {
+  if (value !== 'payme' && value !== 'click') {
+    throw new UsageError(`Expected provider payme or click, got ${value ?? 'nothing'}`);
+  }
+  return value;
+}
+
+function requireArg(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(`Missing ${name}`);
+  }
+  return value;
+}
+
+function requireFlag(value: string | undefined, name: string): string {
+  if (!value) {
+    throw new UsageError(name.includes('.') ? `${name} is missing from the configuration` : `Missing --${name}`);
+  }
+  return value;
+}
+
+function requireConfig<K extends ProviderName>(config: CliConfig, name: K): NonNullable<CliConfig[K]> {
+  const section = config[name];
+  if (!section) {
+    const prefix = name === 'payme' ? 'PAYME_' : 'CLICK_';
+    throw new UsageError(`${name} is not configured; pass --config or set the ${prefix}* variables`);
+  }
+  return section as NonNullable<CliConfig[K]>;
+}
+
+function parseAmount(value: string): Money {
+  try {
+    return Money.parse(value);
+  } catch {
+    throw new UsageError(`Invalid amount ${value}; expected so'm, e.g. 15000 or 15000.50`);
+  }
+}
+
+function tashkentNow(): string {
+  return DateTime.now().setZone('Asia/Tashkent').toFormat('yyyy-MM-dd HH:mm:ss');
+}
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+import { config } from 'dotenv';
+import { runCli } from './cli';
+
+config();
+
+runCli(process.argv.slice(2), {
+  out: text => process.stdout.write(text),
+  err: text => process.stderr.write(text),
+  env: process.env
+}).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,211 @@
+import { createHash } from 'crypto';
+import { DateTime } from 'luxon';
+import {
+  ClickCardToken,
+  ClickCardTokenPaymentParams,
+  ClickCardTokenRequestParams,
+  ClickCardTokenVerification,
+  ClickInvoice,
+  ClickInvoiceCreateParams,
+  ClickInvoiceStatus,
+  ClickMerchantConfig,
+  ClickMerchantErrorCodes,
+  ClickMerchantResponse,
+  ClickMerchantResult,
+  ClickPaymentByMerchantTransId,
+  ClickPaymentReversal,
+  ClickPaymentStatus,
+} from '../interfaces/click-merchant.interface';
+import { AuthenticationError, GatewayError, toPaymentError } from '../errors/payment.error';
+import { HttpClient } from '../utils/http.client';
+import { Money } from '../utils/money';
+
+/**
+ * Click Merchant API client
+ * Authenticates with the Auth header: merchant_user_id:sha1(timestamp + secret_key):timestamp
+ */
+export class ClickMerchantClient {
+  private readonly apiUrl: string;
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly config: ClickMerchantConfig
+  ) {
+    if (!config.merchant_user_id) {
+      throw new Error('merchant_user_id is required for the Click Merchant API');
+    }
+    if (!config.service_id) {
+      throw new Error('service_id is required for the Click Merchant API');
+    }
+    if (!config.secret_key) {
+      throw new Error('secret_key is required for the Click Merchant API');
+    }
+
+    this.apiUrl = config.api_url || 'https://api.click.uz/v2/merchant';
+  }
+
+  /**
+   * Issue an invoice to a Click user's phone number
+   */
+  createInvoice(params: ClickInvoiceCreateParams): Promise<ClickMerchantResult<ClickInvoice>> {
+    return this.call<ClickInvoice>('POST', '/invoice/create', {
+      service_id: Number(this.config.service_id),
+      amount: params.amount.toSom(),
+      phone_number: params.phone_number,
+      merchant_trans_id: params.merchant_trans_id
+    });
+  }
+
+  getInvoiceStatus(invoice_id: number | string): Promise<ClickMerchantResult<ClickInvoiceStatus>> {
+    return this.call<ClickInvoiceStatus>('GET', `/invoice/status/${this.serviceId}/${enc(invoice_id)}`);
+  }
+
+  getPaymentStatus(payment_id: number | string): Promise<ClickMerchantResult<ClickPaymentStatus>> {
+    return this.call<ClickPaymentStatus>('GET', `/payment/status/${this.serviceId}/${enc(payment_id)}`);
+  }
+
+  /**
+   * Find a payment by merchant_trans_id on the given day (Tashkent time)
+   */
+  getPaymentStatusByMerchantTransId(
+    merchant_trans_id: string,
+    date: Date = new Date()
+  ): Promise<ClickMerchantResult<ClickPaymentByMerchantTransId>> {
+    const day = DateTime.fromJSDate(date).setZone('Asia/Tashkent').toFormat('yyyy-MM-dd');
+    return this.call<ClickPaymentByMerchantTransId>(
+      'GET',
+      `/payment/status_by_mti/${this.serviceId}/${enc(merchant_trans_id)}/${day}`
+    );
+  }
+
+  /**
+   * Reverse (refund) a completed payment
+   */
+  reversePayment(payment_id: number | string): Promise<ClickMerchantResult<ClickPaymentReversal>> {
+    // A repeated reversal is not a no-op, so it is never retried once sent
+    return this.call<ClickPaymentReversal>(
+      'DELETE',
+      `/payment/reversal/${this.serviceId}/${enc(payment_id)}`,
+      undefined,
+      false
+    );
+  }
+
+  /**
+   * Reverse part of a completed payment; amount is in so'm
+   */
+  partialReversePayment(payment_id: number | string, amount: Money): Promise<ClickMerchantResult<ClickPaymentReversal>> {
+    // Like a full reversal, a repeated partial reversal refunds again, so it is never retried once sent
+    return this.call<ClickPaymentReversal>(
+      'DELETE',
+      `/payment/partial_reversal/${this.serviceId}/${enc(payment_id)}/${amount.toSomString()}`,
+      undefined,
+      false
+    );
+  }
+
+  /**
+   * Request a card token; Click sends an SMS code to the card holder
+   */
+  requestCardToken(params: ClickCardTokenRequestParams): Promise<ClickMerchantResult<ClickCardToken>> {
+    return this.call<ClickCardToken>('POST', '/card_token/request', {
+      service_id: Number(this.config.service_id),
+      card_number: params.card_number,
+      expire_date: params.expire_date,
+      temporary: (params.temporary ?? true) ? 1 : 0
+    });
+  }
+
+  verifyCardToken(card_token: string, sms_code: string): Promise<ClickMerchantResult<ClickCardTokenVerification>> {
+    return this.call<ClickCardTokenVerification>('POST', '/card_token/verify', {
+      service_id: Number(this.config.service_id),
+      card_token,
+      sms_code: Number(sms_code)
+    });
+  }
+
+  payWithCardToken(params: ClickCardTokenPaymentParams): Promise<ClickMerchantResult<ClickPaymentStatus>> {
+    return this.call<ClickPaymentStatus>('POST', '/card_token/payment', {
+      service_id: Number(this.config.service_id),
+      card_token: params.card_token,
+      amount: params.amount.toSom(),
+      transaction_parameter: params.transaction_parameter
+    });
+  }
+
+  deleteCardToken(card_token: string): Promise<ClickMerchantResult<ClickMerchantResponse>> {
+    return this.call<ClickMerchantResponse>('DELETE', `/card_token/${this.serviceId}/${enc(card_token)}`);
+  }
+
+  /**
+   * Build the Auth header for a request
+   */
+  createAuthHeader(timestamp = Math.floor(Date.now() / 1000)): string {
+    const digest = createHash('sha1')
+      .update(`${timestamp}${this.config.secret_key}`)
+      .digest('hex');
+    return `${this.config.merchant_user_id}:${digest}:${timestamp}`;
+  }
+
+  private get serviceId(): string {
+    return enc(this.config.service_id);
+  }
+
+  /**
+   * Metric-friendly name of a Merchant API path without its ids, e.g. 'payment/status'
+   */
+  private operationOf(path: string): string {
+    const [resource, action] = path.split('/').filter(Boolean);
+    return !action || action === this.serviceId ? resource : `${resource}/${action}`;
+  }
+
+  /**
+   * Send a Merchant API request
+   * GET and DELETE are retried by default, POST only when it cannot have reached Click
+   */
+  private async call<T extends ClickMerchantResponse>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    data?: Record<string, unknown>,
+    idempotent = method !== 'POST'
+  ): Promise<ClickMerchantResult<T>> {
+    try {
+      const response = await this.httpClient.request<T>({
+        method,
+        url: `${this.apiUrl}${path}`,
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+          'Auth': this.createAuthHeader()
+        },
+        data,
+        idempotent,
+        attributes: { provider: 'click', operation: this.operationOf(path) }
+      });
+
+      const { error_code, error_note } = response.data;
+      if (error_code !== 0) {
+        return {
+          success: false,
+          error: error_code === ClickMerchantErrorCodes.AuthenticationFailed
+            ? new AuthenticationError('AUTHORIZATION_ERROR', error_note)
+            : new GatewayError('CLICK_API_ERROR', error_note, error_code)
+        };
+      }
+
+      return {
+        success: true,
+        result: response.data
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: toPaymentError(error, 'CLICK_API_ERROR')
+      };
+    }
+  }
+}
+
+function enc(value: string | number): string {
+  return encodeURIComponent(String(value));
+}
@@ -0,0 +1,232 @@
+import {
+  PaymeCard,
+  PaymeCardCreateParams,
+  PaymeReceipt,
+  PaymeReceiptCreateParams,
+  PaymeReceiptPayParams,
+  PaymeReceiptState,
+  PaymeSubscribeConfig,
+  PaymeSubscribeErrorCodes,
+  PaymeSubscribeResult,
+  PaymeVerifyCodeResult,
+} from '../interfaces/payme-subscribe.interface';
+import { assertFiscalReceipt, toPaymeReceiptDetail } from '../utils/fiscal.receipt';
+import {
+  AuthenticationError,
+  GatewayError,
+  toPaymentError,
+  ValidationError,
+} from '../errors/payment.error';
+import { HttpClient } from '../utils/http.client';
+import { assertValidConfig, validatePaymeSubscribeConfig } from '../utils/provider.config';
+
+interface SubscribeRpcResponse<T> {
+  result?: T;
+  error?: {
+    code: number;
+    message: string | Record<string, string>;
+    data?: unknown;
+  };
+}
+
+// Read-only or repeatable methods; everything else may charge, send an SMS or create a receipt twice
+const IDEMPOTENT_METHODS = new Set(['cards.check', 'cards.remove', 'receipts.check', 'receipts.get']);
+
+/**
+ * Payme Subscribe API client
+ * Tokenizes cards and charges them through receipts, e.g. for recurring billing
+ */
+export class PaymeSubscribeClient {
+  private readonly apiUrl: string;
+  private rpcId = 0;
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly config: PaymeSubscribeConfig
+  ) {
+    assertValidConfig(validatePaymeSubscribeConfig(config));
+
+    this.apiUrl = config.api_url || (config.test_mode
+      ? 'https://checkout.test.paycom.uz/api'
+      : 'https://checkout.paycom.uz/api');
+  }
+
+  /**
+   * Create a card token (front-side)
+   */
+  createCard(params: PaymeCardCreateParams): Promise<PaymeSubscribeResult<PaymeCard>> {
+    return this.call<{ card: PaymeCard }, PaymeCard>('cards.create', params, false, result => result.card);
+  }
+
+  /**
+   * Send an SMS verification code for a card token (front-side)
+   */
+  getCardVerifyCode(token: string): Promise<PaymeSubscribeResult<PaymeVerifyCodeResult>> {
+    return this.call<PaymeVerifyCodeResult, PaymeVerifyCodeResult>('cards.get_verify_code', { token }, false);
+  }
+
+  /**
+   * Verify a card token with the SMS code (front-side)
+   */
+  verifyCard(token: string, code: string): Promise<PaymeSubscribeResult<PaymeCard>> {
+    return this.call<{ card: PaymeCard }, PaymeCard>('cards.verify', { token, code }, false, result => result.card);
+  }
+
+  /**
+   * Check that a card token is still valid
+   */
+  checkCard(token: string): Promise<PaymeSubscribeResult<PaymeCard>> {
+    return this.call<{ card: PaymeCard }, PaymeCard>('cards.check', { token }, true, result => result.card);
+  }
+
+  /**
+   * Delete a card token
+   */
+  removeCard(token: string): Promise<PaymeSubscribeResult<boolean>> {
+    return this.call<{ success: boolean }, boolean>('cards.remove', { token }, true, result => result.success);
+  }
+
+  /**
+   * Create a receipt to be paid with a card token
+   * The fiscal detail, when given, must add up to the amount
+   */
+  createReceipt(params: PaymeReceiptCreateParams): Promise<PaymeSubscribeResult<PaymeReceipt>> {
+    if (params.detail) {
+      try {
+        assertFiscalReceipt(params.detail, params.amount);
+      } catch (error) {
+        return Promise.resolve({
+          success: false,
+          error: new ValidationError('INVALID_RECEIPT', error instanceof Error ? error.message : 'Invalid fiscal receipt', 'detail')
+        });
+      }
+    }
+
+    const payload = {
+      amount: params.amount.tiyin,
+      account: params.account,
+      ...(params.description && { description: params.description }),
+      ...(params.detail && { detail: toPaymeReceiptDetail(params.detail) })
+    };
+    return this.call<{ receipt: PaymeReceipt }, PaymeReceipt>('receipts.create', payload, true, result => result.receipt);
+  }
+
+  /**
+   * Pay a receipt with a verified card token
+   */
+  payReceipt(params: PaymeReceiptPayParams): Promise<PaymeSubscribeResult<PaymeReceipt>> {
+    return this.call<{ receipt: PaymeReceipt }, PaymeReceipt>('receipts.pay', params, true, result => result.receipt);
+  }
+
+  /**
+   * Send a receipt to a phone number for payment in the Payme app
+   */
+  sendReceipt(id: string, phone: string): Promise<PaymeSubscribeResult<boolean>> {
+    return this.call<{ success: boolean }, boolean>('receipts.send', { id, phone }, true, result => result.success);
+  }
+
+  /**
+   * Cancel a receipt; a paid receipt is refunded
+   */
+  cancelReceipt(id: string): Promise<PaymeSubscribeResult<PaymeReceipt>> {
+    return this.call<{ receipt: PaymeReceipt }, PaymeReceipt>('receipts.cancel', { id }, true, result => result.receipt);
+  }
+
+  /**
+   * Get the current state of a receipt
+   */
+  checkReceipt(id: string): Promise<PaymeSubscribeResult<PaymeReceiptState>> {
+    return this.call<{ state: PaymeReceiptState }, PaymeReceiptState>('receipts.check', { id }, true, result => result.state);
+  }
+
+  /**
+   * Get full receipt details
+   */
+  getReceipt(id: string): Promise<PaymeSubscribeResult<PaymeReceipt>> {
+    return this.call<{ receipt: PaymeReceipt }, PaymeReceipt>('receipts.get', { id }, true, result => result.receipt);
+  }
+
+  /**
+   * Send a JSON-RPC request to the Subscribe API
+   * Card tokenization runs with the cashbox id only; everything else needs id:key
+   */
+  private async call<R, T>(
+    method: string,
+    params: object,
+    backSide: boolean,
+    pick: (result: R) => T = result => result as unknown as T
+  ): Promise<PaymeSubscribeResult<T>> {
+    if (backSide && !this.config.key) {
+      return {
+        success: false,
+        error: new ValidationError('CONFIGURATION_ERROR', `key is required to call ${method}`, 'key')
+      };
+    }
+
+    try {
+      const response = await this.httpClient.request<SubscribeRpcResponse<R>>({
+        method: 'POST',
+        url: this.apiUrl,
+        headers: {
+          'X-Auth': backSide ? `${this.config.merchant_id}:${this.config.key}` : this.config.merchant_id,
+          'Cache-Control': 'no-cache'
+        },
+        data: {
+          id: ++this.rpcId,
+          method,
+          params
+        },
+        idempotent: IDEMPOTENT_METHODS.has(method),
+        attributes: { provider: 'payme', operation: method }
+      });
+
+      const { result, error } = response.data;
+      if (error) {
+        const code = mapSubscribeErrorCode(error.code);
+        const message = typeof error.message === 'string'
+          ? error.message
+          : error.message.en ?? error.message.ru ?? Object.values(error.message)[0];
+
+        return {
+          success: false,
+          error: error.code === PaymeSubscribeErrorCodes.AccessDenied
+            ? new AuthenticationError(code, message)
+            : new GatewayError(code, message, error.code, error.data)
+        };
+      }
+
+      return {
+        success: true,
+        result: pick(result as R)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: toPaymentError(error, 'SUBSCRIBE_REQUEST_ERROR')
+      };
+    }
+  }
+}
+
+/**
+ * Map a Subscribe API error code to the package's error codes
+ */
+export function mapSubscribeErrorCode(code: number): string {
+  switch (code) {
+    case PaymeSubscribeErrorCodes.AccessDenied:
+      return 'AUTHORIZATION_ERROR';
+    case PaymeSubscribeErrorCodes.InvalidRequest:
+    case PaymeSubscribeErrorCodes.MethodNotFound:
+    case PaymeSubscribeErrorCodes.ParseError:
+      return 'INVALID_REQUEST';
+    case PaymeSubscribeErrorCodes.InvalidAmount:
+      return 'INVALID_AMOUNT';
+    case PaymeSubscribeErrorCodes.InternalError:
+      return 'GATEWAY_ERROR';
+  }
+
+  if (code <= -31050 && code >= -31099) return 'INVALID_ACCOUNT';
+  if (code <= -31300 && code >= -31399) return 'CARD_ERROR';
+  if (code <= -31600 && code >= -31699) return 'RECEIPT_ERROR';
+  return 'SUBSCRIBE_ERROR';
+}
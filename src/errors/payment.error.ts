@@ -0,0 +1,148 @@
+import axios from 'axios';
+
+/**
+ * Base class of every error reported by the package
+ * `kind` identifies the subclass, so errors can be narrowed without instanceof
+ * (e.g. after crossing a serialization boundary); `code` is the package's string code
+ * such as 'PAYMENT_TIMEOUT' or 'INVALID_AMOUNT'
+ */
+export abstract class PaymentError extends Error {
+  abstract readonly kind: 'network' | 'timeout' | 'authentication' | 'gateway' | 'validation' | 'internal';
+
+  /**
+   * Underlying error, e.g. the AxiosError of a failed request
+   */
+  readonly cause?: unknown;
+
+  constructor(
+    readonly code: string,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = options?.cause;
+  }
+
+  toJSON(): Record<string, unknown> {
+    const json: Record<string, unknown> = { name: this.name, message: this.message };
+    for (const [key, value] of Object.entries(this)) {
+      if (key !== 'cause') json[key] = value;
+    }
+    return json;
+  }
+}
+
+/**
+ * The gateway could not be reached or answered with an unexpected HTTP status
+ * @property status - HTTP status, when the gateway answered at all
+ */
+export class NetworkError extends PaymentError {
+  readonly kind = 'network' as const;
+
+  constructor(code: string, message: string, readonly status?: number, options?: { cause?: unknown }) {
+    super(code, message, options);
+  }
+}
+
+/**
+ * The gateway did not answer in time; the operation may or may not have happened
+ */
+export class TimeoutError extends PaymentError {
+  readonly kind = 'timeout' as const;
+}
+
+/**
+ * The gateway rejected our credentials
+ */
+export class AuthenticationError extends PaymentError {
+  readonly kind = 'authentication' as const;
+}
+
+/**
+ * The gateway refused the operation with a business error
+ * @property gateway_code - Raw gateway code, e.g. a PaymeErrorCodes value or a Click error_code
+ * @property data - Raw error data sent by the gateway
+ */
+export class GatewayError extends PaymentError {
+  readonly kind = 'gateway' as const;
+
+  constructor(
+    code: string,
+    message: string,
+    readonly gateway_code: number,
+    readonly data?: unknown,
+    options?: { cause?: unknown }
+  ) {
+    super(code, message, options);
+  }
+}
+
+/**
+ * The request was rejected before reaching the gateway (bad amount, receipt, configuration...)
+ * @property field - Offending field, when there is one
+ */
+export class ValidationError extends PaymentError {
+  readonly kind = 'validation' as const;
+
+  constructor(code: string, message: string, readonly field?: string) {
+    super(code, message);
+  }
+}
+
+/**
+ * Something on our side threw instead of the gateway failing, e.g. a transaction store or a bug
+ * The cause holds the original error
+ */
+export class InternalError extends PaymentError {
+  readonly kind = 'internal' as const;
+}
+
+/**
+ * Any concrete payment error; switch on `kind` to narrow
+ */
+export type PaymentFailure =
+  | NetworkError
+  | TimeoutError
+  | AuthenticationError
+  | GatewayError
+  | ValidationError
+  | InternalError;
+
+/**
+ * Convert anything thrown while calling a gateway into a PaymentFailure
+ * @param code - Code used for failures that have no more specific one
+ */
+export function toPaymentError(error: unknown, code: string): PaymentFailure {
+  if (error instanceof PaymentError) {
+    return error as PaymentFailure;
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  if (!axios.isAxiosError(error)) {
+    return new InternalError(code, message, { cause: error });
+  }
+
+  if (axios.isCancel(error)) {
+    return new NetworkError('REQUEST_ABORTED', 'Request was aborted', undefined, { cause: error });
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new TimeoutError('PAYMENT_TIMEOUT', message, { cause: error });
+  }
+
+  const status = error.response?.status;
+  if (status === 401 || status === 403) {
+    return new AuthenticationError('AUTHORIZATION_ERROR', message, { cause: error });
+  }
+  return new NetworkError(code, message, status, { cause: error });
+}
+
+/**
+ * Return a failed result, or throw its error when throwing mode is on
+ */
+export function settle<T extends { error?: PaymentFailure }>(result: T, throwErrors: boolean): T {
+  if (throwErrors && result.error) {
+    throw result.error;
+  }
+  return result;
+}
@@ -0,0 +1,220 @@
+import { ValidationError } from '../errors/payment.error';
+import {
+  ClickErrorCodes,
+  ClickWebhookHandler,
+  ClickWebhookRequest,
+  ClickWebhookResponse,
+} from '../interfaces/click.interface';
+import { MerchantRegistryConfig } from '../interfaces/gateway.interface';
+import { PaymentProvider } from '../interfaces/payment.interface';
+import {
+  PaymeErrorCodes,
+  PaymeWebhookHandler,
+  PaymeWebhookRequest,
+  PaymeWebhookResponse,
+} from '../interfaces/payme.interface';
+import { ClickProvider } from '../providers/click.provider';
+import { PaymeProvider } from '../providers/payme.provider';
+import { ConsoleJsonLogger, Logger, redactingLogger } from '../utils/logger';
+import { assertValidConfig, validateClickConfig, validatePaymeConfig } from '../utils/provider.config';
+import { WebhookContext } from '../utils/webhook.security';
+import { PaymentGateway } from './payment.gateway';
+
+/**
+ * Several merchants (legal entities, marketplaces) in one process, each with its own PaymentGateway
+ * Outbound calls pick the merchant by key; webhooks are routed by Click service_id
+ * and by the Payme Basic credentials, so one endpoint per provider serves every merchant:
+ * app.use('/webhooks/payme', createPaymeWebhookRouter(registry.paymeWebhooks))
+ */
+export class MerchantRegistry {
+  private readonly merchants = new Map<string, PaymentGateway>();
+  private readonly logger: Logger;
+
+  /**
+   * Payme webhook handler that answers with the cashbox whose credentials the request carries
+   */
+  readonly paymeWebhooks: PaymeWebhookHandler = {
+    handleWebhook: (request, context) => this.handlePaymeWebhook(request, context)
+  };
+
+  /**
+   * Click webhook handler that answers with the merchant owning the request's service_id
+   */
+  readonly clickWebhooks: ClickWebhookHandler = {
+    handleWebhook: (request, context) => this.handleClickWebhook(request, context)
+  };
+
+  /**
+   * @param options.logger - Receives webhooks that match no merchant (default: ConsoleJsonLogger)
+   */
+  constructor(options: { logger?: Logger } = {}) {
+    this.logger = redactingLogger(options.logger ?? new ConsoleJsonLogger());
+  }
+
+  /**
+   * Validate every merchant's config, then build a gateway per merchant
+   * All configuration errors are reported together, e.g. 'acme.payme.password is required'
+   */
+  static fromConfig(config: MerchantRegistryConfig): MerchantRegistry {
+    const { merchants, ...shared } = config;
+
+    const keys = Object.keys(merchants);
+    const errors = keys.length === 0
+      ? [new ValidationError('CONFIGURATION_ERROR', 'merchants must contain at least one merchant', 'merchants')]
+      : keys.flatMap(key => {
+        const { payme, click } = merchants[key];
+        if (!payme && !click) {
+          return [new ValidationError('CONFIGURATION_ERROR', `${key} must configure payme or click`, key)];
+        }
+        return [
+          ...(payme ? validatePaymeConfig(payme, `${key}.payme`) : []),
+          ...(click ? validateClickConfig(click, `${key}.click`) : [])
+        ];
+      });
+    assertValidConfig(errors);
+
+    const registry = new MerchantRegistry({ logger: shared.logger });
+    for (const key of keys) {
+      registry.register(key, PaymentGateway.fromConfig({ ...shared, ...merchants[key] }));
+    }
+    return registry;
+  }
+
+  /**
+   * Register a merchant's gateway under a unique key
+   * Click service ids and Payme merchant ids must be unique across merchants, or webhooks could not be routed
+   */
+  register(key: string, gateway: PaymentGateway): this {
+    if (!key) {
+      throw new Error('Merchant key must be non-empty');
+    }
+    if (this.merchants.has(key)) {
+      throw new Error(`Merchant ${key} is already registered`);
+    }
+
+    for (const provider of providersOf(gateway, ClickProvider)) {
+      const owner = this.findClick(provider.serviceId);
+      if (owner) {
+        throw new Error(`Click service_id ${provider.serviceId} is already registered for merchant ${owner.key}`);
+      }
+    }
+    for (const provider of providersOf(gateway, PaymeProvider)) {
+      const owner = this.entries().find(([, other]) =>
+        providersOf(other, PaymeProvider).some(existing => existing.merchantId === provider.merchantId)
+      );
+      if (owner) {
+        throw new Error(`Payme merchant_id ${provider.merchantId} is already registered for merchant ${owner[0]}`);
+      }
+    }
+
+    this.merchants.set(key, gateway);
+    return this;
+  }
+
+  has(key: string): boolean {
+    return this.merchants.has(key);
+  }
+
+  get keys(): string[] {
+    return [...this.merchants.keys()];
+  }
+
+  /**
+   * Gateway of a merchant, e.g. registry.get('acme').createPayment('payme', order)
+   */
+  get(key: string): PaymentGateway {
+    const gateway = this.merchants.get(key);
+    if (!gateway) {
+      throw new Error(`Merchant ${key} is not registered`);
+    }
+    return gateway;
+  }
+
+  /**
+   * Payme provider of a merchant
+   */
+  payme(key: string): PaymeProvider {
+    const [provider] = providersOf(this.get(key), PaymeProvider);
+    if (!provider) {
+      throw new Error(`Merchant ${key} has no Payme provider`);
+    }
+    return provider;
+  }
+
+  /**
+   * Click provider of a merchant
+   */
+  click(key: string): ClickProvider {
+    const [provider] = providersOf(this.get(key), ClickProvider);
+    if (!provider) {
+      throw new Error(`Merchant ${key} has no Click provider`);
+    }
+    return provider;
+  }
+
+  private async handlePaymeWebhook(
+    request: PaymeWebhookRequest,
+    context?: WebhookContext
+  ): Promise<PaymeWebhookResponse> {
+    for (const [, gateway] of this.entries()) {
+      const provider = providersOf(gateway, PaymeProvider).find(payme => payme.verifyWebhookAuthorization(request));
+      if (provider) {
+        return provider.handleWebhook(request, context);
+      }
+    }
+
+    this.logger.warn('webhook.unrouted', {
+      provider: 'payme',
+      correlation_id: context?.correlation_id,
+      method: request.method,
+      ip: context?.ip
+    });
+    return {
+      error: {
+        code: PaymeErrorCodes.AuthorizationFailure,
+        message: 'Invalid authorization'
+      }
+    };
+  }
+
+  private async handleClickWebhook(
+    request: ClickWebhookRequest,
+    context?: WebhookContext
+  ): Promise<ClickWebhookResponse> {
+    const owner = this.findClick(String(request.service_id));
+    if (owner) {
+      return owner.provider.handleWebhook(request, context);
+    }
+
+    this.logger.warn('webhook.unrouted', {
+      provider: 'click',
+      correlation_id: context?.correlation_id,
+      service_id: request.service_id,
+      ip: context?.ip
+    });
+    return {
+      click_trans_id: +request.click_trans_id,
+      merchant_trans_id: request.merchant_trans_id,
+      error: ClickErrorCodes.SignatureFailure,
+      error_note: `Unknown service_id ${request.service_id}`
+    };
+  }
+
+  private findClick(service_id: string): { key: string; provider: ClickProvider } | null {
+    for (const [key, gateway] of this.entries()) {
+      const provider = providersOf(gateway, ClickProvider).find(click => click.serviceId === service_id);
+      if (provider) return { key, provider };
+    }
+    return null;
+  }
+
+  private entries(): Array<[string, PaymentGateway]> {
+    return [...this.merchants.entries()];
+  }
+}
+
+function providersOf<T extends PaymentProvider>(gateway: PaymentGateway, type: new (...args: never[]) => T): T[] {
+  return gateway.names
+    .map(name => gateway.get(name))
+    .filter((provider): provider is T => provider instanceof type);
+}
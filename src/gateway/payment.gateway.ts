@@ -0,0 +1,224 @@
+import { settle, ValidationError } from '../errors/payment.error';
+import { HttpClientConfig, PaymentGatewayConfig } from '../interfaces/gateway.interface';
+import { IdempotencyOptions } from '../interfaces/idempotency.interface';
+import {
+  PaymentOrder,
+  PaymentProvider,
+  PaymentResult,
+  PaymentVerifyResult,
+  ProviderCapabilities,
+  RefundOptions,
+  RefundResult,
+} from '../interfaces/payment.interface';
+import { ClickProvider } from '../providers/click.provider';
+import { PaymeProvider } from '../providers/payme.provider';
+import { HttpClient } from '../utils/http.client';
+import { QrCodeOptions, qrCodeToPngDataUri, qrCodeToSvg } from '../utils/qr.code';
+
+/**
+ * Separates the provider name from the provider's own id in gateway transaction ids, e.g. 'payme:6f1c...'
+ */
+export const TRANSACTION_ID_SEPARATOR = ':';
+
+const NO_CAPABILITIES: ProviderCapabilities = {
+  refunds: false,
+  tokenized_cards: false,
+  invoices: false,
+  statements: false
+};
+
+/**
+ * Routes payments to registered providers by name
+ * Transaction ids returned by the gateway carry the provider name as a prefix,
+ * so verifyPayment/cancelPayment need nothing but the id
+ */
+export class PaymentGateway {
+  private readonly providers = new Map<string, PaymentProvider>();
+
+  /**
+   * @param options.throw_errors - Throw PaymentError instead of returning failed results (default: false)
+   */
+  constructor(private readonly options: { throw_errors?: boolean } = {}) {}
+
+  /**
+   * Build a gateway with the providers present in the config
+   */
+  static fromConfig(config: PaymentGatewayConfig): PaymentGateway {
+    const gateway = new PaymentGateway({ throw_errors: config.throw_errors });
+    const { timeout, retries, retry_delay, ...options } = config.http ?? {};
+    options.logger ??= config.logger;
+    options.instrumentation ??= config.instrumentation;
+    const httpClient = (provider: HttpClientConfig) => config.http_client ?? new HttpClient(
+      provider.timeout ?? timeout,
+      provider.retries ?? retries,
+      provider.retry_delay ?? retry_delay,
+      options
+    );
+
+    if (config.payme) {
+      const { store, refund_store, ...payme } = config.payme;
+      payme.throw_errors ??= config.throw_errors;
+      payme.logger ??= config.logger;
+      payme.instrumentation ??= config.instrumentation;
+      gateway.register('payme', new PaymeProvider(httpClient(payme), payme, store, refund_store));
+    }
+    if (config.click) {
+      const { store, refund_store, ...click } = config.click;
+      click.throw_errors ??= config.throw_errors;
+      click.logger ??= config.logger;
+      click.instrumentation ??= config.instrumentation;
+      gateway.register('click', new ClickProvider(httpClient(click), click, store, refund_store));
+    }
+
+    return gateway;
+  }
+
+  /**
+   * Register a provider under a unique name
+   */
+  register(name: string, provider: PaymentProvider): this {
+    if (!name || name.includes(TRANSACTION_ID_SEPARATOR)) {
+      throw new Error(`Provider name must be non-empty and must not contain '${TRANSACTION_ID_SEPARATOR}'`);
+    }
+    if (this.providers.has(name)) {
+      throw new Error(`Provider ${name} is already registered`);
+    }
+
+    this.providers.set(name, provider);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.providers.has(name);
+  }
+
+  /**
+   * Get a registered provider, e.g. gateway.get<PaymeProvider>('payme') to reach its webhook handler
+   */
+  get<T extends PaymentProvider = PaymentProvider>(name: string): T {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Provider ${name} is not registered`);
+    }
+    return provider as T;
+  }
+
+  get names(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Optional features of a provider; all false when the provider does not declare them
+   */
+  capabilities(name: string): ProviderCapabilities {
+    return { ...NO_CAPABILITIES, ...this.get(name).capabilities };
+  }
+
+  generatePaymentUrl(provider: string, order: PaymentOrder): string {
+    return this.get(provider).generatePaymentUrl(order);
+  }
+
+  /**
+   * QR code of the provider's payment URL, rendered in-process
+   * @param options.format - 'svg' markup (default) or a 'png' data URI
+   */
+  generatePaymentQrCode(
+    provider: string,
+    order: PaymentOrder,
+    options: QrCodeOptions & { format?: 'svg' | 'png' } = {}
+  ): string {
+    const url = this.generatePaymentUrl(provider, order);
+    return options.format === 'png' ? qrCodeToPngDataUri(url, options) : qrCodeToSvg(url, options);
+  }
+
+  /**
+   * Create a payment with the named provider
+   * @param options.idempotency_key - A repeated call with the same key returns the first result
+   */
+  async createPayment(provider: string, order: PaymentOrder, options?: IdempotencyOptions): Promise<PaymentResult> {
+    if (!this.providers.has(provider)) {
+      return settle(this.unknownProvider(provider), this.options.throw_errors ?? false);
+    }
+
+    const result = await this.get(provider).createPayment(order, options);
+    return this.withPrefix(provider, result);
+  }
+
+  /**
+   * Verify a payment by gateway transaction id, or by the provider's own id when the provider is given
+   */
+  async verifyPayment(transaction_id: string, provider?: string): Promise<PaymentVerifyResult> {
+    const target = this.resolve(transaction_id, provider);
+    if (!target) {
+      return settle<PaymentVerifyResult>(
+        { ...this.unknownProvider(provider ?? transaction_id), status: 'failed' },
+        this.options.throw_errors ?? false
+      );
+    }
+
+    const result = await this.get(target.name).verifyPayment(target.id);
+    return this.withPrefix(target.name, result);
+  }
+
+  /**
+   * Cancel a payment by gateway transaction id, or by the provider's own id when the provider is given
+   * @param options.idempotency_key - A repeated call with the same key returns the first result
+   */
+  async cancelPayment(transaction_id: string, provider?: string, options?: IdempotencyOptions): Promise<PaymentResult> {
+    const target = this.resolve(transaction_id, provider);
+    if (!target) {
+      return settle(this.unknownProvider(provider ?? transaction_id), this.options.throw_errors ?? false);
+    }
+
+    const result = await this.get(target.name).cancelPayment(target.id, options);
+    return this.withPrefix(target.name, result);
+  }
+
+  /**
+   * Refund all or part of a payment by gateway transaction id, or by the provider's own id when the provider is given
+   */
+  async refundPayment(transaction_id: string, options: RefundOptions, provider?: string): Promise<RefundResult> {
+    const target = this.resolve(transaction_id, provider);
+    if (!target) {
+      return settle(this.unknownProvider(provider ?? transaction_id), this.options.throw_errors ?? false);
+    }
+
+    const selected = this.get(target.name);
+    if (!selected.refundPayment) {
+      const error = new ValidationError('REFUND_NOT_SUPPORTED', `Provider ${target.name} does not support refunds`, 'provider');
+      return settle({ success: false, error }, this.options.throw_errors ?? false);
+    }
+
+    const result = await selected.refundPayment(target.id, options);
+    return this.withPrefix(target.name, result);
+  }
+
+  /**
+   * Split a transaction id into provider name and the provider's own id
+   */
+  private resolve(transaction_id: string, provider?: string): { name: string; id: string } | null {
+    const separator = transaction_id.indexOf(TRANSACTION_ID_SEPARATOR);
+    const prefix = separator > 0 ? transaction_id.slice(0, separator) : undefined;
+
+    if (provider) {
+      if (!this.providers.has(provider)) return null;
+      const id = prefix === provider ? transaction_id.slice(separator + 1) : transaction_id;
+      return { name: provider, id };
+    }
+
+    if (!prefix || !this.providers.has(prefix)) return null;
+    return { name: prefix, id: transaction_id.slice(separator + 1) };
+  }
+
+  private withPrefix<T extends PaymentResult>(name: string, result: T): T {
+    if (!result.transaction_id) return result;
+    return { ...result, transaction_id: `${name}${TRANSACTION_ID_SEPARATOR}${result.transaction_id}` };
+  }
+
+  private unknownProvider(reference: string): PaymentResult {
+    return {
+      success: false,
+      error: new ValidationError('UNKNOWN_PROVIDER', `No registered provider for ${reference}`, 'provider')
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import { toPaymentError } from '../errors/payment.error';
+import { PaymentProvider } from '../interfaces/payment.interface';
+import { ExpiringProvider, SweepResult } from '../interfaces/sweeper.interface';
+import { ConsoleJsonLogger, Logger, redactingLogger } from '../utils/logger';
+import { PaymentGateway } from './payment.gateway';
+
+/**
+ * Periodically cancels Payme transactions left created past their timeout
+ * and Click prepares that never received a Complete
+ */
+export class TransactionSweeper {
+  private readonly logger: Logger;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<SweepResult[]> | null = null;
+
+  /**
+   * @param providers - Providers to sweep by name
+   * @param options.logger - Receives sweep failures (default: ConsoleJsonLogger)
+   */
+  constructor(
+    private readonly providers: Record<string, ExpiringProvider>,
+    options: { logger?: Logger } = {}
+  ) {
+    this.logger = redactingLogger(options.logger ?? new ConsoleJsonLogger());
+  }
+
+  /**
+   * Sweep every provider of the gateway that supports expiry
+   */
+  static fromGateway(gateway: PaymentGateway, options: { logger?: Logger } = {}): TransactionSweeper {
+    const providers: Record<string, ExpiringProvider> = {};
+    for (const name of gateway.names) {
+      const provider = gateway.get(name);
+      if (isExpiring(provider)) {
+        providers[name] = provider;
+      }
+    }
+    return new TransactionSweeper(providers, options);
+  }
+
+  /**
+   * Expire stale transactions of every provider once
+   * A sweep that is still running is joined instead of starting another
+   */
+  sweep(now = Date.now()): Promise<SweepResult[]> {
+    if (!this.running) {
+      this.running = this.sweepAll(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Sweep every interval ms until stop() is called; the timer does not keep the process alive
+   */
+  start(interval = 60000): this {
+    this.stop();
+    this.timer = setInterval(() => {
+      void this.sweep();
+    }, interval);
+    this.timer.unref?.();
+    return this;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async sweepAll(now: number): Promise<SweepResult[]> {
+    const results: SweepResult[] = [];
+
+    for (const provider of Object.keys(this.providers)) {
+      try {
+        results.push({ provider, expired: await this.providers[provider].expireStaleTransactions(now) });
+      } catch (error) {
+        const failure = toPaymentError(error, 'SWEEP_ERROR');
+        this.logger.error('sweep.failed', { provider, code: failure.code, error: failure.message });
+        results.push({ provider, expired: [], error: failure });
+      }
+    }
+
+    return results;
+  }
+}
+
+function isExpiring(provider: PaymentProvider): provider is PaymentProvider & ExpiringProvider {
+  return typeof (provider as Partial<ExpiringProvider>).expireStaleTransactions === 'function';
+}
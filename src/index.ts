@@ -1,3 +1,45 @@
+export * from './errors/payment.error';
 export * from './interfaces/payment.interface';
+export * from './interfaces/fiscal.interface';
+export * from './interfaces/payme.interface';
+export * from './interfaces/click.interface';
+export * from './interfaces/transaction.interface';
+export * from './interfaces/idempotency.interface';
+export * from './stores/memory.store';
+export * from './stores/json-file.store';
+export * from './stores/store.pagination';
+export * from './stores/idempotency.store';
 export * from './providers/payme.provider';
 export * from './providers/click.provider';
+export * from './interfaces/gateway.interface';
+export * from './gateway/payment.gateway';
+export * from './gateway/merchant.registry';
+export * from './interfaces/sweeper.interface';
+export * from './gateway/transaction.sweeper';
+export * from './utils/provider.config';
+export * from './utils/http.client';
+export * from './utils/circuit.breaker';
+export * from './utils/logger';
+export * from './utils/instrumentation';
+export * from './utils/prometheus.exporter';
+export * from './utils/money';
+export * from './utils/refund.ledger';
+export * from './utils/idempotency';
+export * from './utils/csv';
+export * from './utils/xlsx.writer';
+export * from './utils/qr.code';
+export * from './utils/checkout.html';
+export * from './utils/checkout.url';
+export * from './utils/fiscal.receipt';
+export * from './utils/webhook.security';
+export * from './utils/payment.events';
+export * from './routers/payme.router';
+export * from './routers/click.router';
+export * from './interfaces/payme-subscribe.interface';
+export * from './clients/payme-subscribe.client';
+export * from './interfaces/click-merchant.interface';
+export * from './clients/click-merchant.client';
+export * from './interfaces/reconciliation.interface';
+export * from './reconciliation/payment.reconciler';
+export * from './reconciliation/reconciliation.export';
+export * from './reconciliation/transaction.export';
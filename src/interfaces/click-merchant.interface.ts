@@ -0,0 +1,89 @@
+import { Money } from '../utils/money';
+import { GatewayCallResult } from './payment.interface';
+
+/**
+ * Configuration for the Click Merchant API client
+ * @property merchant_user_id - Merchant API user id from the Click merchant cabinet
+ * @property service_id - Click service id
+ * @property secret_key - Service secret key, used for the Auth digest
+ * @property api_url - Override the Merchant API URL (e.g. a local GatewayEmulator)
+ */
+export interface ClickMerchantConfig {
+  merchant_user_id: string;
+  service_id: string;
+  secret_key: string;
+  api_url?: string;
+}
+
+/**
+ * Every Merchant API response carries error_code (0 on success) and error_note
+ */
+export interface ClickMerchantResponse {
+  error_code: number;
+  error_note: string;
+}
+
+/**
+ * Merchant API error codes the package reacts to
+ */
+export enum ClickMerchantErrorCodes {
+  Success = 0,
+  PaymentNotFound = -5,
+  AuthenticationFailed = -16
+}
+
+export interface ClickInvoiceCreateParams {
+  amount: Money;
+  phone_number: string;  // 998XXXXXXXXX
+  merchant_trans_id: string;
+}
+
+export interface ClickInvoice extends ClickMerchantResponse {
+  invoice_id: number;
+}
+
+export interface ClickInvoiceStatus extends ClickMerchantResponse {
+  invoice_status: number;
+  invoice_status_note: string;
+}
+
+/**
+ * Payment status; 2 means paid, negative values mean failed or reversed
+ */
+export interface ClickPaymentStatus extends ClickMerchantResponse {
+  payment_id: number;
+  payment_status: number;
+}
+
+export interface ClickPaymentByMerchantTransId extends ClickMerchantResponse {
+  payment_id: number;
+  merchant_trans_id: string;
+}
+
+export interface ClickPaymentReversal extends ClickMerchantResponse {
+  payment_id: number;
+}
+
+export interface ClickCardTokenRequestParams {
+  card_number: string;
+  expire_date: string;  // MMYY
+  temporary?: boolean;  // Token is deleted after the first payment (default: true)
+}
+
+export interface ClickCardToken extends ClickMerchantResponse {
+  card_token: string;
+  phone_number: string;
+  temporary: number;
+}
+
+export interface ClickCardTokenVerification extends ClickMerchantResponse {
+  card_number: string;
+}
+
+export interface ClickCardTokenPaymentParams {
+  card_token: string;
+  amount: Money;
+  transaction_parameter: string;  // merchant_trans_id of the order
+}
+
+export type ClickMerchantResult<T> = GatewayCallResult<T>;
@@ -1,23 +1,9 @@
-export interface ClickTransactionResponse {
-  success: boolean;
-  transaction_id: string;
-  status: -1 | 0 | 1;  // -1: cancelled, 0: pending, 1: completed
-  amount: number;
-  payment_time?: string;
-  error?: {
-    code: string;
-    message: string;
-  };
-}
-
-export interface ClickCancelResponse {
-  success: boolean;
-  transaction_id: string;
-  error?: {
-    code: string;
-    message: string;
-  };
-}
+import { Money } from '../utils/money';
+import { IdempotencyConfig } from './idempotency.interface';
+import { Instrumentation } from '../utils/instrumentation';
+import { Logger } from '../utils/logger';
+import { ListenerErrorHandler } from '../utils/payment.events';
+import { WebhookContext, WebhookRejection, WebhookSecurityConfig } from '../utils/webhook.security';
 
 export interface ClickWebhookRequest {
   click_trans_id: string;
@@ -31,6 +17,7 @@ export interface ClickWebhookRequest {
   sign_time: string;
   sign_string: string;
   merchant_prepare_id?: string;
+  raw?: Record<string, string>;  // Form fields as received; the signature covers the original amount string
 }
 
 export interface ClickWebhookResponse {
@@ -42,6 +29,13 @@ export interface ClickWebhookResponse {
   error_note: string;
 }
 
+/**
+ * Anything that answers Click webhooks: a ClickProvider or MerchantRegistry.clickWebhooks
+ */
+export interface ClickWebhookHandler {
+  handleWebhook(request: ClickWebhookRequest, context?: WebhookContext): Promise<ClickWebhookResponse>;
+}
+
 export enum ClickErrorCodes {
   Success = 0,
   SignatureFailure = -1,
@@ -53,13 +47,90 @@ export enum ClickErrorCodes {
   TransactionCancelled = -9
 }
 
-export interface ClickConfig {
-  merchant_id: string;
+export enum ClickTransactionState {
+  Prepared = 0,
+  Confirmed = 1,
+  Cancelled = -1
+}
+
+/**
+ * Order details returned by the merchant's findOrder hook
+ * @property amount - Expected order amount
+ * @property paid - Order has already been paid
+ * @property cancelled - Order has been cancelled and can no longer be paid
+ */
+export interface ClickOrderInfo {
+  amount: Money;
+  paid?: boolean;
+  cancelled?: boolean;
+}
+
+export type ClickCardType = 'uzcard' | 'humo';
+
+/**
+ * Parameters of a Click checkout URL, named as Click documents them
+ * @property amount - Amount in so'm, e.g. '15000.00'
+ * @property transaction_param - Order id, sent back as merchant_trans_id
+ * @property merchant_user_id - Merchant user id from the Click cabinet
+ * @property card_type - Restrict payment to one card system
+ */
+export interface ClickCheckoutParams {
   service_id: string;
-  secret_key: string;
+  merchant_id: string;
+  amount: string;
+  transaction_param: string;
+  return_url?: string;
+  merchant_user_id?: string;
+  card_type?: ClickCardType;
+}
+
+/**
+ * Checkout settings of ClickProvider.generatePaymentUrl beyond the order itself
+ * @property merchant_user_id - Default: the config's merchant_user_id
+ * @property card_type - Restrict payment to one card system (default: any)
+ */
+export interface ClickCheckoutOptions {
+  merchant_user_id?: string;
+  card_type?: ClickCardType;
+}
+
+/**
+ * Configuration for Click provider
+ * @property service_id - Service ID; MerchantRegistry routes Click webhooks by it
+ * @property test_mode - true for the test environment, false for production; required
+ * @property findOrder - Looks up the order by merchant_trans_id; return null if it does not exist
+ * @property merchant_user_id - Merchant API user id; required for verifyPayment/cancelPayment
+ * @property prepare_timeout - Ms a Prepare may wait for Complete before it expires (default: 3600000, 1 hour)
+ * @property api_url - Override the Click Merchant API URL (e.g. a local GatewayEmulator)
+ * @property security - Source IP allowlist, sign_time freshness and a replay window for webhooks
+ * @property idempotency - Where createPayment/cancelPayment results are kept for their idempotency keys
+ * @property webhook_dedupe - Answer a redelivered webhook (same click_trans_id, action and fields) with the
+ *   response it got the first time, from any process sharing the store; off unless set
+ * @property onWebhookRejected - Called for every rejected webhook with a typed reason
+ * @property onListenerError - Receives errors thrown by event listeners (default: logged as listener.failed)
+ * @property throw_errors - Throw PaymentError instead of returning failed results (default: false)
+ * @property logger - Receives webhook and outbound call logs, redacted (default: ConsoleJsonLogger)
+ * @property instrumentation - Receives webhook metrics and spans (default: none)
+ */
+export interface ClickConfig {
+  merchant_id?: string;
+  service_id?: string;
+  secret_key?: string;
+  merchant_user_id?: string;
   return_url?: string;
+  prepare_timeout?: number;
   test_mode?: boolean;
   timeout?: number;
   retries?: number;
   retry_delay?: number;
+  findOrder?: (merchant_trans_id: string) => Promise<ClickOrderInfo | null>;
+  api_url?: string;
+  security?: WebhookSecurityConfig;
+  idempotency?: IdempotencyConfig;
+  webhook_dedupe?: IdempotencyConfig;
+  onWebhookRejected?: (rejection: WebhookRejection) => void;
+  onListenerError?: ListenerErrorHandler;
+  throw_errors?: boolean;
+  logger?: Logger;
+  instrumentation?: Instrumentation;
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { PaymeAccount, PaymeTransactionState, PaymeWebhookResponse } from './payme.interface';
+import { ClickWebhookResponse } from './click.interface';
+
+/**
+ * Configuration for GatewayEmulator
+ * @property payme - Payme cashbox credentials and the merchant's webhook URL
+ * @property click - Click service credentials and the merchant's webhook URL;
+ *   merchant_user_id is checked in Merchant API Auth headers when set
+ * @property webhook_timeout - Timeout for webhook calls made by the emulator in ms (default: 10000)
+ */
+export interface GatewayEmulatorConfig {
+  payme?: {
+    webhook_url: string;
+    login?: string;
+    password: string;
+  };
+  click?: {
+    webhook_url: string;
+    merchant_id: string;
+    service_id: string;
+    secret_key: string;
+    merchant_user_id?: string;
+  };
+  webhook_timeout?: number;
+}
+
+/**
+ * Gateway API endpoints served by the emulator
+ */
+export type EmulatorRoute =
+  | 'payme'
+  | 'click.payment_status'
+  | 'click.status_by_mti'
+  | 'click.reversal'
+  | 'click.partial_reversal';
+
+/**
+ * Scripted failure for the next call to an emulator endpoint
+ * - timeout: hold the response for delay_ms so the client times out
+ * - http_error: answer with the given HTTP status
+ * - response: answer with an arbitrary body
+ */
+export type EmulatorFault =
+  | { type: 'timeout'; delay_ms: number }
+  | { type: 'http_error'; status: number }
+  | { type: 'response'; body: unknown };
+
+/**
+ * Payme payment sequence sent to the merchant's webhook
+ * @property amount - Order amount in tiyin
+ * @property id - Payme transaction id (generated when omitted)
+ * @property send_amount - Amount sent in the webhooks, to simulate a wrong amount
+ * @property duplicate_create - Send CreateTransaction twice with the same id
+ * @property skip_perform - Stop after CreateTransaction
+ * @property cancel_reason - Send CancelTransaction with this reason after the last step
+ */
+export interface PaymePaymentScenario {
+  account: PaymeAccount;
+  amount: number;
+  id?: string;
+  send_amount?: number;
+  duplicate_create?: boolean;
+  skip_perform?: boolean;
+  cancel_reason?: number;
+}
+
+/**
+ * Click payment sequence sent to the merchant's webhook
+ * @property amount - Order amount in so'm
+ * @property click_trans_id - Click transaction id (generated when omitted)
+ * @property complete_amount - Amount sent in Complete, to simulate a wrong amount
+ * @property complete_error - Error sent in Complete; a negative value means the payment failed
+ * @property skip_complete - Stop after Prepare
+ */
+export interface ClickPaymentScenario {
+  merchant_trans_id: string;
+  amount: number;
+  click_trans_id?: number;
+  complete_amount?: number;
+  complete_error?: number;
+  skip_complete?: boolean;
+}
+
+export interface EmulatorWebhookCall<T> {
+  method: string;
+  request: Record<string, unknown>;
+  response: T;
+}
+
+export interface PaymeScenarioResult {
+  id: string;
+  transaction?: string;
+  state?: PaymeTransactionState;
+  calls: EmulatorWebhookCall<PaymeWebhookResponse>[];
+}
+
+export interface ClickScenarioResult {
+  click_trans_id: number;
+  merchant_prepare_id?: number;
+  status: -1 | 0 | 1;
+  calls: EmulatorWebhookCall<ClickWebhookResponse>[];
+}
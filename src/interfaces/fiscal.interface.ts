@@ -0,0 +1,36 @@
+import { Money } from '../utils/money';
+
+/**
+ * Fiscal receipt line item
+ * @property price - Unit price
+ * @property count - Quantity
+ * @property code - IKPU (MXIK) product/service code, 17 digits
+ * @property package_code - Package code from the IKPU catalogue
+ * @property vat_percent - VAT rate in percent, e.g. 12 (0 when exempt)
+ * @property units - Unit of measure code, when the IKPU requires one
+ * @property discount - Discount on the whole line
+ */
+export interface FiscalReceiptItem {
+  title: string;
+  price: Money;
+  count: number;
+  code: string;
+  package_code: string;
+  vat_percent: number;
+  units?: number;
+  discount?: Money;
+}
+
+/**
+ * Fiscal line-item breakdown of an order, required by Uzbek tax rules
+ * The receipt total (items minus discounts plus shipping) must equal the order amount
+ * @property receipt_type - 0: sale (default)
+ */
+export interface FiscalReceipt {
+  receipt_type?: number;
+  items: FiscalReceiptItem[];
+  shipping?: {
+    title: string;
+    price: Money;
+  };
+}
@@ -0,0 +1,54 @@
+import { ClickConfig } from './click.interface';
+import { PaymeConfig } from './payme.interface';
+import { ClickTransaction, PaymeTransaction, RefundRecord, TransactionStore } from './transaction.interface';
+import { HttpClient, HttpClientOptions } from '../utils/http.client';
+import { Instrumentation } from '../utils/instrumentation';
+import { Logger } from '../utils/logger';
+
+/**
+ * Settings for the HttpClient a provider is built with
+ * @property timeout - Request timeout in ms (default: 30000)
+ * @property retries - Number of retries (default: 3)
+ * @property retry_delay - Base delay between retries in ms (default: 1000)
+ */
+export interface HttpClientConfig extends HttpClientOptions {
+  timeout?: number;
+  retries?: number;
+  retry_delay?: number;
+}
+
+/**
+ * Configuration for PaymentGateway.fromConfig
+ * Each provider gets its own HttpClient; its timeout/retries/retry_delay override the shared `http` settings
+ * @property http - Shared HttpClient settings
+ * @property http_client - Use this HttpClient for every provider instead of building one
+ * @property payme - Registers a PaymeProvider as 'payme'
+ * @property click - Registers a ClickProvider as 'click'
+ *   (each provider may pass its own store and refund_store; both default to in-memory)
+ * @property throw_errors - Throwing mode for the gateway and, unless they set their own, its providers
+ * @property logger - Logger for the providers and HttpClients that do not set their own
+ * @property instrumentation - Metrics and tracing for the providers and HttpClients that do not set their own
+ */
+export interface PaymentGatewayConfig {
+  http?: HttpClientConfig;
+  http_client?: HttpClient;
+  payme?: PaymeConfig & { store?: TransactionStore<PaymeTransaction>; refund_store?: TransactionStore<RefundRecord> };
+  click?: ClickConfig & { store?: TransactionStore<ClickTransaction>; refund_store?: TransactionStore<RefundRecord> };
+  throw_errors?: boolean;
+  logger?: Logger;
+  instrumentation?: Instrumentation;
+}
+
+/**
+ * One legal entity or marketplace: its own Payme cashbox and/or Click service, with their own credentials and mode
+ */
+export type MerchantConfig = Pick<PaymentGatewayConfig, 'payme' | 'click'>;
+
+/**
+ * Configuration for MerchantRegistry.fromConfig
+ * Shared settings (http, logger, throw_errors...) apply to every merchant
+ * @property merchants - Merchants by key, e.g. { acme: { payme: {...}, click: {...} } }
+ */
+export interface MerchantRegistryConfig extends Omit<PaymentGatewayConfig, 'payme' | 'click'> {
+  merchants: Record<string, MerchantConfig>;
+}
@@ -0,0 +1,26 @@
+/**
+ * Key-value store whose entries expire, used for idempotency keys and webhook responses
+ * Values are plain JSON data; implement it on top of Redis or your database to share it between processes
+ */
+export interface IdempotencyStore {
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttl_ms: number): Promise<void>;
+}
+
+/**
+ * Where remembered results are kept and for how long
+ * @property store - Defaults to an InMemoryIdempotencyStore, which only covers one process
+ * @property ttl - How long a result is remembered in seconds (default: 86400, 24 hours)
+ */
+export interface IdempotencyConfig {
+  store?: IdempotencyStore;
+  ttl?: number;
+}
+
+/**
+ * @property idempotency_key - Calls repeated with the same key return the first call's result
+ *   instead of reaching the gateway again; use one key per checkout attempt, e.g. a request id
+ */
+export interface IdempotencyOptions {
+  idempotency_key?: string;
+}
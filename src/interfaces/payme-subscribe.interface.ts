@@ -0,0 +1,106 @@
+import { Money } from '../utils/money';
+import { FiscalReceipt } from './fiscal.interface';
+import { GatewayCallResult } from './payment.interface';
+import { PaymeAccount } from './payme.interface';
+
+/**
+ * Configuration for the Payme Subscribe API client
+ * @property merchant_id - Cashbox ID; sent alone in X-Auth for front-side (card) methods
+ * @property key - Cashbox secret key; required for back-side methods (X-Auth: id:key)
+ * @property test_mode - true for checkout.test.paycom.uz, false for production; required
+ * @property api_url - Override the Subscribe API URL (e.g. a local emulator)
+ */
+export interface PaymeSubscribeConfig {
+  merchant_id: string;
+  key?: string;
+  test_mode?: boolean;
+  api_url?: string;
+}
+
+/**
+ * Error codes returned by the Subscribe API
+ * Card errors use the -31300..-31399 range, receipt errors -31600..-31699
+ */
+export enum PaymeSubscribeErrorCodes {
+  InvalidAmount = -31001,
+  InvalidAccount = -31050,
+  CardError = -31300,
+  ReceiptError = -31600,
+  AccessDenied = -32504,
+  InvalidRequest = -32600,
+  MethodNotFound = -32601,
+  ParseError = -32700,
+  InternalError = -32400
+}
+
+export enum PaymeReceiptState {
+  Created = 0,
+  FirstStageCheck = 1,
+  Debiting = 2,
+  Closing = 3,
+  Paid = 4,
+  Held = 5,
+  Paused = 20,
+  CancelQueued = 21,
+  CloseQueued = 30,
+  Cancelled = 50
+}
+
+export interface PaymeCard {
+  number: string;    // Masked card number, e.g. 860006******6311
+  expire: string;    // MM/YY
+  token: string;
+  recurrent: boolean;
+  verify: boolean;
+}
+
+export interface PaymeReceipt {
+  _id: string;
+  create_time: number;
+  pay_time: number;
+  cancel_time: number;
+  state: PaymeReceiptState;
+  type: number;
+  external: boolean;
+  operation: number;
+  error: unknown;
+  description: string;
+  amount: number;   // Amount in tiyin
+  currency: number;
+  commission: number;
+  account: { name: string; title: string; value: string }[];
+  card: { number: string; expire: string } | null;
+  detail?: unknown;
+}
+
+export interface PaymeCardCreateParams {
+  card: {
+    number: string;
+    expire: string;  // MMYY
+  };
+  account?: PaymeAccount;
+  save?: boolean;   // Keep the token for recurring payments
+}
+
+export interface PaymeReceiptCreateParams {
+  amount: Money;
+  account: PaymeAccount;
+  description?: string;
+  detail?: FiscalReceipt;
+}
+
+export interface PaymeReceiptPayParams {
+  id: string;
+  token: string;
+  payer?: {
+    phone?: string;
+  };
+}
+
+export interface PaymeVerifyCodeResult {
+  sent: boolean;
+  phone: string;
+  wait: number;  // Milliseconds before a new code can be requested
+}
+
+export type PaymeSubscribeResult<T> = GatewayCallResult<T>;
@@ -1,3 +1,11 @@
+import { Money } from '../utils/money';
+import { FiscalReceipt } from './fiscal.interface';
+import { IdempotencyConfig } from './idempotency.interface';
+import { Instrumentation } from '../utils/instrumentation';
+import { Logger } from '../utils/logger';
+import { ListenerErrorHandler } from '../utils/payment.events';
+import { WebhookContext, WebhookRejection, WebhookSecurityConfig } from '../utils/webhook.security';
+
 export enum PaymeTransactionState {
   Created = 1,
   Completed = 2,
@@ -14,14 +22,100 @@ export enum PaymeErrorCodes {
   CantCancelTransaction = -31007,
   TransactionAlreadyExists = -31051,
   AuthorizationFailure = -32504,
+  InvalidRequest = -32600,
+  ParseError = -32700,
   InternalError = -32400
 }
 
+/**
+ * Reasons given for cancelling a Payme transaction
+ */
+export enum PaymeCancelReason {
+  ReceiverNotFound = 1,
+  DebitError = 2,
+  TransactionError = 3,
+  TransactionTimeout = 4,
+  Refund = 5,
+  UnknownError = 10
+}
+
 export interface PaymeAccount {
-  order_id: string;
+  order_id?: string;
   [key: string]: any;
 }
 
+/**
+ * Order details returned by the merchant's findOrder hook
+ * @property amount - Expected order amount
+ * @property payable - Whether the order can be paid right now (default: true)
+ * @property error_code - Custom account error in the -31050..-31099 range (e.g. order already paid)
+ * @property receipt - Fiscal breakdown returned to Payme as `detail` in CheckPerformTransaction
+ * @property receivers - Split of the payment between cash desks, returned to Payme in CreateTransaction
+ */
+export interface PaymeOrderInfo {
+  amount: Money;
+  payable?: boolean;
+  error_code?: number;
+  receipt?: FiscalReceipt;
+  receivers?: PaymeReceiver[];
+}
+
+/**
+ * Cash desk that receives part of a split payment
+ * @property id - Payme cash desk id
+ * @property amount - Share in tiyin; the shares add up to the transaction amount
+ */
+export interface PaymeReceiver {
+  id: string;
+  amount: number;
+}
+
+/**
+ * Fiscal `detail` object in Payme's wire format (amounts in tiyin)
+ */
+export interface PaymeReceiptDetail {
+  receipt_type: number;
+  shipping?: {
+    title: string;
+    price: number;
+  };
+  items: {
+    title: string;
+    price: number;
+    count: number;
+    code: string;
+    package_code: string;
+    vat_percent: number;
+    units?: number;
+    discount?: number;
+  }[];
+}
+
+/**
+ * Fiscal data sent by Payme in SetFiscalData once the receipt is registered
+ */
+export interface PaymeFiscalData {
+  receipt_id: number;
+  status_code: number;
+  message: string;
+  terminal_id: string;
+  fiscal_sign: string;
+  qr_code_url: string;
+  date: string;
+}
+
+/**
+ * SetFiscalData payload forwarded to the merchant's onFiscalData hook
+ * @property transaction - Payme transaction id
+ * @property type - Whether the receipt belongs to the payment or its cancellation
+ */
+export interface PaymeFiscalDataEvent {
+  transaction: string;
+  order_id: string;
+  type: 'PERFORM' | 'CANCEL';
+  fiscal_data: PaymeFiscalData;
+}
+
 export interface PaymeTransactionResult {
   transaction: string;
   create_time: number;
@@ -33,6 +127,26 @@ export interface PaymeTransactionResult {
   amount: number;  // Amount in tiyin
 }
 
+/**
+ * A transaction as GetStatement reports it
+ * @property id - Transaction ID assigned by Payme
+ * @property time - Payme-side creation time in ms
+ * @property transaction - Transaction ID assigned by the merchant
+ */
+export interface PaymeStatementTransaction {
+  id: string;
+  time: number;
+  amount: number;  // Amount in tiyin
+  account: PaymeAccount;
+  create_time: number;
+  perform_time: number;
+  cancel_time: number;
+  transaction: string;
+  state: PaymeTransactionState;
+  reason: number | null;
+  receivers: PaymeReceiver[] | null;
+}
+
 export interface PaymeTransactionResponse {
   result: PaymeTransactionResult;
 }
@@ -56,12 +170,15 @@ export interface PaymeWebhookRequest {
     from?: number;
     to?: number;
     transaction?: string;
+    type?: 'PERFORM' | 'CANCEL';
+    fiscal_data?: PaymeFiscalData;
   };
   id: string;
   headers?: Record<string, string>;
 }
 
 export interface PaymeWebhookResponse {
+  id?: string | number | null;
   result?: {
     allow?: boolean;
     transaction?: string;
@@ -70,24 +187,48 @@ export interface PaymeWebhookResponse {
     cancel_time?: number | null;
     state?: PaymeTransactionState;
     reason?: number | null;
-    transactions?: PaymeTransactionResult[];
+    transactions?: PaymeStatementTransaction[];
+    receivers?: PaymeReceiver[];
+    detail?: PaymeReceiptDetail;
+    success?: boolean;
   };
   error?: {
-    code: PaymeErrorCodes;
+    code: PaymeErrorCodes | number;
     message: string;
     data?: any;
   };
 }
 
+/**
+ * Anything that answers Payme webhooks: a PaymeProvider or MerchantRegistry.paymeWebhooks
+ */
+export interface PaymeWebhookHandler {
+  handleWebhook(request: PaymeWebhookRequest, context?: WebhookContext): Promise<PaymeWebhookResponse>;
+}
+
 /**
  * Configuration for Payme provider
  * @property merchant_id - Merchant ID for payment URL generation
  * @property login - Merchant login (default: 'Paycom')
  * @property password - Merchant password (use test password for test mode)
- * @property test_mode - Enable test mode (default: true in development)
+ * @property test_mode - true for the test environment, false for production; required
  * @property timeout - Request timeout in ms (default: 30000)
  * @property retries - Number of retries (default: 3)
  * @property retry_delay - Delay between retries in ms (default: 1000)
+ * @property account_field - Account field that holds the order id (default: 'order_id')
+ * @property transaction_timeout - Ms a transaction may stay created before it expires (default: 43200000, 12 hours)
+ * @property findOrder - Looks up the order referenced by a webhook account; return null if it does not exist
+ * @property api_url - Override the Payme API URL (e.g. a local GatewayEmulator)
+ * @property security - Source IP allowlist for webhooks
+ * @property idempotency - Where createPayment/cancelPayment results are kept for their idempotency keys
+ * @property webhook_dedupe - Answer a redelivered webhook (same request id, method and params) with the
+ *   response it got the first time; off unless set
+ * @property onWebhookRejected - Called for every rejected webhook with a typed reason
+ * @property onFiscalData - Receives fiscal data from SetFiscalData; throw to make Payme retry
+ * @property onListenerError - Receives errors thrown by event listeners (default: logged as listener.failed)
+ * @property throw_errors - Throw PaymentError instead of returning failed results (default: false)
+ * @property logger - Receives webhook and outbound call logs, redacted (default: ConsoleJsonLogger)
+ * @property instrumentation - Receives webhook metrics and spans (default: none)
  */
 export interface PaymeConfig {
   merchant_id?: string;
@@ -97,6 +238,19 @@ export interface PaymeConfig {
   timeout?: number;
   retries?: number;
   retry_delay?: number;
+  account_field?: string;
+  transaction_timeout?: number;
+  findOrder?: (account: PaymeAccount) => Promise<PaymeOrderInfo | null>;
+  api_url?: string;
+  security?: Pick<WebhookSecurityConfig, 'allowed_ips'>;
+  idempotency?: IdempotencyConfig;
+  webhook_dedupe?: IdempotencyConfig;
+  onWebhookRejected?: (rejection: WebhookRejection) => void;
+  onFiscalData?: (event: PaymeFiscalDataEvent) => Promise<void> | void;
+  onListenerError?: ListenerErrorHandler;
+  throw_errors?: boolean;
+  logger?: Logger;
+  instrumentation?: Instrumentation;
 }
 
 export interface PaymeOrder {
@@ -105,3 +259,38 @@ export interface PaymeOrder {
   account: PaymeAccount;
   time: number;
 }
+
+export type PaymeCheckoutLanguage = 'ru' | 'uz' | 'en';
+
+/**
+ * Parameters of a Payme GET checkout URL, named as Payme documents them
+ * @property m - Merchant (cashbox) id
+ * @property ac - Account fields that identify the order, e.g. { order_id: '42' }
+ * @property a - Amount in tiyin
+ * @property l - Checkout language
+ * @property c - URL the customer returns to after payment
+ * @property ct - Delay in ms before returning to c
+ * @property cr - Currency as an ISO 4217 code, e.g. '860' for UZS
+ */
+export interface PaymeCheckoutParams {
+  m: string;
+  ac: Record<string, string>;
+  a: number;
+  l?: PaymeCheckoutLanguage;
+  c?: string;
+  ct?: number;
+  cr?: string;
+}
+
+/**
+ * Checkout settings of PaymeProvider.generatePaymentUrl beyond the order itself
+ * The return URL is the order's return_url
+ * @property lang - Checkout language (default: Payme's choice)
+ * @property callback_timeout - Delay in ms before returning to the order's return_url
+ * @property currency - ISO 4217 currency code (default: Payme's, UZS)
+ */
+export interface PaymeCheckoutOptions {
+  lang?: PaymeCheckoutLanguage;
+  callback_timeout?: number;
+  currency?: string;
+}
@@ -1,3 +1,8 @@
+import { PaymentFailure } from '../errors/payment.error';
+import { Money } from '../utils/money';
+import { FiscalReceipt } from './fiscal.interface';
+import { IdempotencyOptions } from './idempotency.interface';
+
 export interface PaymentConfig {
   merchant_id: string;
   service_id?: string;
@@ -8,39 +13,97 @@ export interface PaymentConfig {
   retry_delay?: number;  // Delay between retries in milliseconds
 }
 
-export interface PaymentAmount {
-  amount: number;
-  currency?: string;
-}
-
 export interface PaymentOrder {
   id: string;
-  amount: PaymentAmount;
+  amount: Money;
   description?: string;
   return_url?: string;
   cancel_url?: string;
   extra_params?: Record<string, string>; 
+  receipt?: FiscalReceipt;
 }
 
+/**
+ * Result of a provider call
+ * @property error - Set when success is false; switch on error.kind to tell failures apart
+ */
 export interface PaymentResult {
   success: boolean;
   transaction_id?: string;
   payment_url?: string;
-  error?: {
-    code: string;
-    message: string;
-  };
+  error?: PaymentFailure;
 }
 
+/**
+ * Result of a direct gateway API call (Payme Subscribe, Click Merchant API)
+ */
+export interface GatewayCallResult<T> {
+  success: boolean;
+  result?: T;
+  error?: PaymentFailure;
+}
+
+/**
+ * Result of verifyPayment
+ * @property status - refunded and partially_refunded are completed payments with refunds
+ * @property refunded_amount - Amount refunded so far, set for refunded and partially_refunded payments
+ */
 export interface PaymentVerifyResult extends PaymentResult {
-  status?: 'pending' | 'completed' | 'cancelled' | 'failed';
-  paid_amount?: number;
+  status?: 'pending' | 'completed' | 'cancelled' | 'failed' | 'refunded' | 'partially_refunded';
+  paid_amount?: Money;
   paid_time?: Date;
+  refunded_amount?: Money;
+}
+
+/**
+ * Options of refundPayment
+ * @property amount - Amount to refund (default: everything not refunded yet)
+ * @property reason - Cancel reason code, e.g. PaymeCancelReason.Refund; sent to Payme and kept on the refund record
+ */
+export interface RefundOptions {
+  amount?: Money;
+  reason: number;
+}
+
+/**
+ * Result of refundPayment
+ * @property refund_id - Id of the refund record
+ * @property amount - Amount refunded by this call
+ * @property total_refunded - Amount refunded so far, this call included
+ */
+export interface RefundResult extends PaymentResult {
+  refund_id?: string;
+  amount?: Money;
+  total_refunded?: Money;
+}
+
+/**
+ * Inclusive amount range accepted by a gateway
+ */
+export interface AmountLimits {
+  min: Money;
+  max: Money;
+}
+
+/**
+ * Optional features a provider supports beyond create/verify/cancel
+ * @property refunds - Completed payments can be refunded
+ * @property tokenized_cards - Cards can be saved and charged with a token
+ * @property invoices - Invoices can be pushed to a customer's phone
+ * @property statements - The gateway can fetch a statement of transactions
+ */
+export interface ProviderCapabilities {
+  refunds: boolean;
+  tokenized_cards: boolean;
+  invoices: boolean;
+  statements: boolean;
 }
 
 export interface PaymentProvider {
-  createPayment(order: PaymentOrder): Promise<PaymentResult>;
+  readonly capabilities?: ProviderCapabilities;
+  createPayment(order: PaymentOrder, options?: IdempotencyOptions): Promise<PaymentResult>;
   verifyPayment(transaction_id: string): Promise<PaymentVerifyResult>;
-  cancelPayment(transaction_id: string): Promise<PaymentResult>;
+  cancelPayment(transaction_id: string, options?: IdempotencyOptions): Promise<PaymentResult>;
+  refundPayment?(transaction_id: string, options: RefundOptions): Promise<RefundResult>;
   generatePaymentUrl(order: PaymentOrder): string; 
 }
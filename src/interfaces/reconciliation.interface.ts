@@ -0,0 +1,120 @@
+import { PaymentFailure } from '../errors/payment.error';
+import { Money } from '../utils/money';
+import { PaymentVerifyResult } from './payment.interface';
+import { PaymeReceiver, PaymeStatementTransaction } from './payme.interface';
+
+export type ReconciliationStatus = NonNullable<PaymentVerifyResult['status']>;
+
+/**
+ * One payment as seen by one side of the reconciliation
+ * @property transaction_id - Id verifyPayment takes: Payme transaction id, Click merchant_trans_id
+ * @property time - Creation time in ms
+ */
+export interface ReconciliationEntry {
+  transaction_id: string;
+  order_id: string;
+  amount: Money;
+  status: ReconciliationStatus;
+  time: number;
+}
+
+/**
+ * missing_locally - The gateway settled a payment we have no record of
+ * missing_at_gateway - We have a record the gateway does not know
+ * status_mismatch - Both sides know the payment but disagree on its status
+ * amount_mismatch - Both sides know the payment but disagree on its amount
+ */
+export type DiscrepancyType = 'missing_locally' | 'missing_at_gateway' | 'status_mismatch' | 'amount_mismatch';
+
+/**
+ * A payment the two sides disagree on
+ * @property local - Our side, absent for missing_locally
+ * @property gateway - Gateway side, absent for missing_at_gateway
+ */
+export interface Discrepancy {
+  type: DiscrepancyType;
+  transaction_id: string;
+  order_id: string;
+  local?: ReconciliationEntry;
+  gateway?: Pick<ReconciliationEntry, 'status'> & Partial<ReconciliationEntry>;
+}
+
+/**
+ * Outcome of a reconciliation run
+ * @property checked - Local transactions verified at the gateway
+ * @property matched - Transactions both sides agree on
+ * @property errors - Transactions whose gateway status could not be fetched
+ * @property statement - The period as our GetStatement answers it to Payme (Payme only)
+ */
+export interface ReconciliationReport {
+  provider: string;
+  from: number;
+  to: number;
+  generated_at: number;
+  checked: number;
+  matched: number;
+  discrepancies: Discrepancy[];
+  errors: Array<{ transaction_id: string; order_id: string; error: PaymentFailure }>;
+  statement?: PaymeStatementTransaction[];
+}
+
+/**
+ * Period and settings of a reconciliation run
+ * @property from - Period start in ms, inclusive
+ * @property to - Period end in ms, inclusive
+ * @property concurrency - verifyPayment calls in flight at once (default: the reconciler's)
+ * @property gateway_entries - Payments from the gateway's settlement report; entries we have no record of
+ *   are reported as missing_locally
+ */
+export interface ReconciliationOptions {
+  from: number;
+  to: number;
+  concurrency?: number;
+  gateway_entries?: ReconciliationEntry[];
+}
+
+/**
+ * csv - RFC 4180 with a header row
+ * jsonl - One JSON object per line, amounts in tiyin and times in ms as in GetStatement
+ * xlsx - Single-sheet Excel workbook
+ */
+export type TransactionExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+/**
+ * One transaction of a history export, in the same shape for both providers
+ * @property id - Payme transaction id, or Click merchant_prepare_id
+ * @property transaction - Our Payme transaction id, or Click click_trans_id
+ * @property amount - Amount in tiyin
+ * @property state - The provider's own transaction state
+ * @property perform_time - Payme perform time or Click confirm time in ms (0 if not completed)
+ * @property cancel_time - Cancellation time in ms (0 if not cancelled)
+ * @property account - Payme account fields (null for Click)
+ * @property receivers - Payme split payment receivers, if any
+ */
+export interface TransactionExportRow {
+  provider: 'payme' | 'click';
+  id: string;
+  transaction: string;
+  order_id: string;
+  amount: number;
+  status: ReconciliationStatus;
+  state: number;
+  create_time: number;
+  perform_time: number;
+  cancel_time: number;
+  reason: number | null;
+  account: Record<string, unknown> | null;
+  receivers: PaymeReceiver[] | null;
+}
+
+/**
+ * Period of a transaction history export
+ * @property from - Period start in ms, inclusive
+ * @property to - Period end in ms, inclusive
+ * @property page_size - Records read from the store at a time (default: 500)
+ */
+export interface TransactionExportOptions {
+  from: number;
+  to: number;
+  page_size?: number;
+}
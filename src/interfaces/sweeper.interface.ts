@@ -0,0 +1,20 @@
+import { PaymentFailure } from '../errors/payment.error';
+import { StoredTransaction } from './transaction.interface';
+
+/**
+ * A provider that can cancel transactions left unfinished for too long
+ */
+export interface ExpiringProvider {
+  expireStaleTransactions(now?: number): Promise<StoredTransaction[]>;
+}
+
+/**
+ * Outcome of one sweep for one provider
+ * @property expired - Transactions cancelled by this sweep
+ * @property error - Set when the provider's store could not be swept; the other providers are still swept
+ */
+export interface SweepResult {
+  provider: string;
+  expired: StoredTransaction[];
+  error?: PaymentFailure;
+}
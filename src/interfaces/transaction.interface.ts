@@ -0,0 +1,100 @@
+import { ClickTransactionState } from './click.interface';
+import { PaymeAccount, PaymeReceiver, PaymeTransactionState } from './payme.interface';
+
+/**
+ * Base shape of every record kept in a TransactionStore
+ * @property id - Unique record key
+ * @property order_id - Merchant order the record belongs to
+ * @property amount - Amount in minor units (tiyin)
+ * @property create_time - Creation time in ms
+ */
+export interface StoredTransaction {
+  id: string;
+  order_id: string;
+  amount: number;
+  create_time: number;
+}
+
+/**
+ * Payme transaction as persisted by PaymeProvider
+ * @property id - Transaction ID assigned by Payme
+ * @property transaction - Transaction ID assigned by the merchant
+ * @property time - Payme-side creation time in ms
+ * @property perform_time - Completion time in ms (0 if not performed)
+ * @property cancel_time - Cancellation time in ms (0 if not cancelled)
+ * @property receivers - Split of the payment returned by findOrder, reported back in CreateTransaction and GetStatement
+ */
+export interface PaymeTransaction extends StoredTransaction {
+  transaction: string;
+  account: PaymeAccount;
+  time: number;
+  state: PaymeTransactionState;
+  perform_time: number;
+  cancel_time: number;
+  reason: number | null;
+  receivers?: PaymeReceiver[] | null;
+}
+
+/**
+ * Click prepare/confirm record as persisted by ClickProvider
+ * @property id - merchant_prepare_id handed to Click, as a string
+ * @property prepare_id - merchant_prepare_id handed to Click
+ * @property confirm_id - merchant_confirm_id handed to Click (0 until confirmed)
+ * @property confirm_time - Confirmation time in ms (0 if not confirmed)
+ * @property cancel_time - Cancellation time in ms (0 if not cancelled)
+ */
+export interface ClickTransaction extends StoredTransaction {
+  prepare_id: number;
+  confirm_id: number;
+  click_trans_id: string;
+  click_paydoc_id: string;
+  state: ClickTransactionState;
+  confirm_time: number;
+  cancel_time: number;
+}
+
+/**
+ * A refund of a completed payment, as kept by the providers' refund ledger
+ * @property id - Refund id
+ * @property order_id - Refunded transaction id, as passed to refundPayment; refunds are looked up by it
+ * @property amount - Refunded amount in tiyin
+ * @property reason - Reason code passed to refundPayment
+ * @property status - pending while the gateway call is in flight, or when its outcome is unknown until the
+ *   next refundPayment or verifyPayment settles it from the gateway state; pending and succeeded refunds count
+ *   against the paid amount
+ */
+export interface RefundRecord extends StoredTransaction {
+  provider: 'payme' | 'click';
+  reason: number;
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+/**
+ * Status of a refund whose outcome is known
+ */
+export type SettledRefundStatus = Exclude<RefundRecord['status'], 'pending'>;
+
+/**
+ * One page of records created in a period
+ * @property cursor - Pass back to get the next page; undefined on the last page
+ */
+export interface TransactionPage<T extends StoredTransaction> {
+  records: T[];
+  cursor?: string;
+}
+
+/**
+ * Persistence used by the providers to keep webhook state
+ * Implement it on top of your own database or use one of the bundled stores
+ */
+export interface TransactionStore<T extends StoredTransaction> {
+  get(id: string): Promise<T | null>;
+  findByOrderId(order_id: string): Promise<T[]>;
+  findByCreateTime(from: number, to: number): Promise<T[]>;
+  save(record: T): Promise<void>;
+  /**
+   * Records created in [from, to] ordered by create_time, then id, a page at a time
+   * Optional: exports fall back to findByCreateTime, which loads the whole period at once
+   */
+  listByCreateTime?(from: number, to: number, options: { limit: number; cursor?: string }): Promise<TransactionPage<T>>;
+}
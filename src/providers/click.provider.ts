@@ -1,19 +1,63 @@
-import { createHash } from 'crypto';
+import { randomUUID } from 'crypto';
 import {
-  PaymentConfig,
+  AmountLimits,
   PaymentOrder,
   PaymentProvider,
   PaymentResult,
   PaymentVerifyResult,
+  GatewayCallResult,
+  ProviderCapabilities,
+  RefundOptions,
+  RefundResult,
 } from '../interfaces/payment.interface';
-import { 
-  ClickTransactionResponse, 
-  ClickCancelResponse,
+import {
   ClickWebhookRequest,
   ClickWebhookResponse,
-  ClickErrorCodes
+  ClickErrorCodes,
+  ClickCheckoutOptions,
+  ClickConfig,
+  ClickTransactionState
 } from '../interfaces/click.interface';
+import { IdempotencyOptions } from '../interfaces/idempotency.interface';
+import {
+  ClickTransaction,
+  RefundRecord,
+  SettledRefundStatus,
+  TransactionStore,
+} from '../interfaces/transaction.interface';
+import { InMemoryTransactionStore } from '../stores/memory.store';
+import { ClickMerchantClient } from '../clients/click-merchant.client';
+import { settle, toPaymentError, ValidationError } from '../errors/payment.error';
+import { ClickCheckoutButtonOptions, renderClickButton } from '../utils/checkout.html';
+import { buildClickCheckoutUrl } from '../utils/checkout.url';
 import { HttpClient } from '../utils/http.client';
+import { fingerprintOf, IdempotencyCache } from '../utils/idempotency';
+import { Instrumentation, NoopInstrumentation, PAYMENT_METRICS } from '../utils/instrumentation';
+import { ConsoleJsonLogger, Logger, redactingLogger } from '../utils/logger';
+import { Money } from '../utils/money';
+import { PaymentEventBus, PaymentEventName } from '../utils/payment.events';
+import { assertValidConfig, validateClickConfig } from '../utils/provider.config';
+import { RefundLedger, refundStatus } from '../utils/refund.ledger';
+import {
+  clickSignString,
+  safeCompare,
+  WebhookContext,
+  WebhookRejectionReason,
+  WebhookSecurity,
+} from '../utils/webhook.security';
+
+/**
+ * Amount range accepted by Click checkout
+ */
+export const CLICK_AMOUNT_LIMITS: AmountLimits = {
+  min: Money.fromSom(1000),
+  max: Money.fromSom(10000000)
+};
+
+/**
+ * How long a Prepare waits for its Complete before it is cancelled
+ */
+export const CLICK_PREPARE_TIMEOUT = 60 * 60 * 1000;
 
 /**
  * Click Payment Provider Implementation
@@ -22,72 +66,144 @@ import { HttpClient } from '../utils/http.client';
  */
 export class ClickProvider implements PaymentProvider {
   private readonly baseUrl: string;
-  private readonly merchantApiUrl: string;
-  private readonly config: Required<PaymentConfig>;
+  private readonly merchantClient: ClickMerchantClient | null;
+  private readonly merchantUserId?: string;
+  private readonly config: Required<Omit<
+    ClickConfig,
+    | 'merchant_user_id' | 'findOrder' | 'api_url' | 'security' | 'idempotency' | 'webhook_dedupe'
+    | 'onWebhookRejected' | 'onListenerError' | 'logger' | 'instrumentation'
+  >>;
+  private readonly findOrder?: ClickConfig['findOrder'];
+  private readonly onWebhookRejected?: ClickConfig['onWebhookRejected'];
+  private readonly security: WebhookSecurity;
+  private readonly logger: Logger;
+  private readonly instrumentation: Instrumentation;
+  private readonly refunds: RefundLedger;
+  private readonly idempotency: IdempotencyCache;
+  private readonly webhookResponses: IdempotencyCache | null;
+  // Lower create_time bound of the next sweep; moves up only when a sweep succeeds
+  private sweepFrom: number | null = null;
+
+  /**
+   * Payment lifecycle events raised by the webhook handlers
+   */
+  readonly events: PaymentEventBus;
+  private lastIssuedId = 0;
 
   constructor(
     private readonly httpClient: HttpClient,
-    config: PaymentConfig
+    config: ClickConfig,
+    private readonly store: TransactionStore<ClickTransaction> = new InMemoryTransactionStore(),
+    refundStore: TransactionStore<RefundRecord> = new InMemoryTransactionStore()
   ) {
-    // Validate required configuration
-    if (!config.merchant_id && !process.env.CLICK_MERCHANT_ID) {
-      throw new Error('merchant_id is required. Provide in config or set CLICK_MERCHANT_ID env variable');
-    }
-    if (!config.secret_key && !process.env.CLICK_SECRET) {
-      throw new Error('secret_key is required. Provide in config or set CLICK_SECRET env variable');
-    }
+    assertValidConfig(validateClickConfig(config));
 
     // Set configuration with defaults
     this.config = {
-      merchant_id: config.merchant_id || process.env.CLICK_MERCHANT_ID!,
-      service_id: config.service_id || process.env.CLICK_SERVICE_ID || '',
-      secret_key: config.secret_key || process.env.CLICK_SECRET!,
-      test_mode: config.test_mode ?? (process.env.NODE_ENV !== 'production'),
+      merchant_id: config.merchant_id!,
+      service_id: config.service_id!,
+      secret_key: config.secret_key!,
+      return_url: config.return_url || '',
+      prepare_timeout: config.prepare_timeout ?? CLICK_PREPARE_TIMEOUT,
+      test_mode: config.test_mode!,
       timeout: config.timeout || 30000,
       retries: config.retries || 3,
-      retry_delay: config.retry_delay || 1000
+      retry_delay: config.retry_delay || 1000,
+      throw_errors: config.throw_errors ?? false
     };
+    this.merchantUserId = config.merchant_user_id;
+    this.findOrder = config.findOrder;
+    this.onWebhookRejected = config.onWebhookRejected;
+    this.security = new WebhookSecurity(config.security);
+    this.logger = redactingLogger(config.logger ?? new ConsoleJsonLogger());
+    this.events = new PaymentEventBus(
+      config.onListenerError ?? ((error, event) => this.logger.error('listener.failed', { event, error }))
+    );
+    this.instrumentation = config.instrumentation ?? new NoopInstrumentation();
+    this.refunds = new RefundLedger('click', refundStore);
+    this.idempotency = IdempotencyCache.fromConfig(config.idempotency);
+    this.webhookResponses = config.webhook_dedupe ? IdempotencyCache.fromConfig(config.webhook_dedupe) : null;
 
     // Set URLs based on environment
     this.baseUrl = this.config.test_mode 
       ? 'https://test.click.uz/services/pay'
       : 'https://my.click.uz/services/pay';
     
-    this.merchantApiUrl = this.config.test_mode
-      ? 'https://test.click.uz/api/v2/merchant'
-      : 'https://click.uz/api/v2/merchant';
+    // The Merchant API is only reachable with a merchant user id
+    this.merchantClient = config.merchant_user_id
+      ? new ClickMerchantClient(httpClient, {
+        merchant_user_id: config.merchant_user_id,
+        service_id: this.config.service_id,
+        secret_key: this.config.secret_key,
+        api_url: config.api_url
+      })
+      : null;
+  }
+
+  get serviceId(): string {
+    return this.config.service_id;
   }
 
   /**
-   * Generate signature for Click API requests
+   * Refunds, card tokens and invoices all go through the Merchant API
    */
-  private generateSignature(data: Record<string, any>): string {
-    const signString = Object.values(data).join('');
-    return createHash('md5')
-      .update(signString + this.config.secret_key)
-      .digest('hex');
+  get capabilities(): ProviderCapabilities {
+    const merchantApi = this.merchantClient !== null;
+    return {
+      refunds: merchantApi,
+      tokenized_cards: merchantApi,
+      invoices: merchantApi,
+      statements: false
+    };
   }
 
   /**
    * Generate payment URL for Click redirect
    */
-  generatePaymentUrl(order: PaymentOrder): string {
-    const params = new URLSearchParams({
+  generatePaymentUrl(order: PaymentOrder, options: ClickCheckoutOptions = {}): string {
+    const amountError = this.validateAmount(order.amount);
+    if (amountError) {
+      throw amountError;
+    }
+
+    return buildClickCheckoutUrl(this.baseUrl, {
       service_id: this.config.service_id,
       merchant_id: this.config.merchant_id,
-      amount: String(order.amount.amount),
+      amount: order.amount.toSomString(),
       transaction_param: order.id,
-      return_url: order.return_url || '',
-      ...(order.extra_params || {})
-    });
+      return_url: order.return_url || this.config.return_url || undefined,
+      merchant_user_id: options.merchant_user_id ?? this.merchantUserId,
+      card_type: options.card_type
+    }, order.extra_params);
+  }
 
-    return `${this.baseUrl}?${params.toString()}`;
+  /**
+   * Generate an HTML link button to the order's Click checkout page
+   */
+  generateCheckoutButton(order: PaymentOrder, options: ClickCheckoutButtonOptions = {}): string {
+    return renderClickButton(this.generatePaymentUrl(order), options);
   }
 
   /**
    * Create a new payment
+   * With an idempotency key, a repeated call returns the first result
    */
-  async createPayment(order: PaymentOrder): Promise<PaymentResult> {
+  createPayment(order: PaymentOrder, options: IdempotencyOptions = {}): Promise<PaymentResult> {
+    return this.idempotent(
+      options,
+      'create',
+      { id: order.id, amount: order.amount, extra_params: order.extra_params },
+      'PAYMENT_CREATE_ERROR',
+      () => this.buildPayment(order)
+    );
+  }
+
+  private async buildPayment(order: PaymentOrder): Promise<PaymentResult> {
+    const amountError = this.validateAmount(order.amount);
+    if (amountError) {
+      return settle({ success: false, error: amountError }, this.config.throw_errors);
+    }
+
     try {
       const paymentUrl = this.generatePaymentUrl(order);
       
@@ -97,122 +213,332 @@ export class ClickProvider implements PaymentProvider {
         transaction_id: order.id
       };
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          code: 'PAYMENT_CREATE_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error'
-        }
-      };
+      return settle({ success: false, error: toPaymentError(error, 'PAYMENT_CREATE_ERROR') }, this.config.throw_errors);
     }
   }
 
   /**
-   * Verify payment status
+   * Verify payment status through the Click Merchant API
+   * transaction_id is the merchant_trans_id (order id) returned by createPayment
    */
   async verifyPayment(transaction_id: string): Promise<PaymentVerifyResult> {
-    try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const payload = {
-        merchant_id: this.config.merchant_id,
-        transaction_id,
-        timestamp
-      };
+    const payment = await this.resolvePayment(transaction_id);
+    if (!payment.success) {
+      return settle<PaymentVerifyResult>({ success: false, status: 'failed', error: payment.error }, this.config.throw_errors);
+    }
 
-      const signature = this.generateSignature(payload);
+    const { payment_id, record } = payment.result!;
+    const status = await this.merchantClient!.getPaymentStatus(payment_id);
+    if (!status.success) {
+      return settle<PaymentVerifyResult>({ success: false, status: 'failed', error: status.error }, this.config.throw_errors);
+    }
 
-      const response = await this.httpClient.request<ClickTransactionResponse>({
-        method: 'POST',
-        url: `${this.merchantApiUrl}/check_transaction`,
-        data: {
-          ...payload,
-          signature
-        }
-      });
+    const paid = record ? Money.fromTiyin(record.amount) : undefined;
+    if (paid) {
+      await this.settlePendingRefunds(transaction_id, payment_id, paid, status.result!.payment_status);
+    }
+    const refunded = await this.refunds.refunded(transaction_id);
+    return {
+      success: true,
+      transaction_id,
+      // Click reports a fully reversed payment as cancelled; the refund ledger tells them apart
+      status: paid && refunded.tiyin > 0
+        ? refundStatus(paid, refunded)
+        : this.mapClickStatus(status.result!.payment_status),
+      paid_amount: paid,
+      paid_time: record?.confirm_time ? new Date(record.confirm_time) : undefined,
+      refunded_amount: refunded.tiyin > 0 ? refunded : undefined
+    };
+  }
 
-      return {
-        success: response.data.success,
-        transaction_id: response.data.transaction_id,
-        status: this.mapClickStatus(response.data.status),
-        paid_amount: response.data.amount,
-        paid_time: response.data.payment_time ? new Date(response.data.payment_time) : undefined,
-        error: response.data.error
-      };
-    } catch (error) {
-      const isTimeout = error instanceof Error && 
-        (error.message.includes('timeout') || error.message.includes('ECONNABORTED'));
+  /**
+   * Cancel payment by reversing it through the Click Merchant API
+   * With an idempotency key, a repeated call returns the first result instead of reversing again
+   */
+  cancelPayment(transaction_id: string, options: IdempotencyOptions = {}): Promise<PaymentResult> {
+    return this.idempotent(
+      options,
+      'cancel',
+      { transaction_id },
+      'PAYMENT_CANCEL_ERROR',
+      () => this.reversePayment(transaction_id)
+    );
+  }
 
-      return {
-        success: false,
-        status: 'failed',
-        error: {
-          code: isTimeout ? 'PAYMENT_TIMEOUT' : 'PAYMENT_VERIFY_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error'
-        }
-      };
+  private async reversePayment(transaction_id: string): Promise<PaymentResult> {
+    const payment = await this.resolvePayment(transaction_id);
+    if (!payment.success) {
+      return settle({ success: false, error: payment.error }, this.config.throw_errors);
+    }
+
+    const reversal = await this.merchantClient!.reversePayment(payment.result!.payment_id);
+    if (!reversal.success) {
+      return settle({ success: false, error: reversal.error }, this.config.throw_errors);
     }
+
+    return {
+      success: true,
+      transaction_id
+    };
   }
 
   /**
-   * Cancel payment
+   * Run a call once per idempotency key; without a key it simply runs
+   * @param request - What the key must keep referring to; the same key with other values is IDEMPOTENCY_KEY_REUSED
    */
-  async cancelPayment(transaction_id: string): Promise<PaymentResult> {
+  private async idempotent(
+    options: IdempotencyOptions,
+    operation: string,
+    request: unknown,
+    error_code: string,
+    call: () => Promise<PaymentResult>
+  ): Promise<PaymentResult> {
+    if (!options.idempotency_key) return call();
+
+    const key = `click:${this.config.service_id}:${operation}:${options.idempotency_key}`;
     try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const payload = {
-        merchant_id: this.config.merchant_id,
-        transaction_id,
-        timestamp
-      };
+      return await this.idempotency.run(key, fingerprintOf(request), call);
+    } catch (error) {
+      return settle({ success: false, error: toPaymentError(error, error_code) }, this.config.throw_errors);
+    }
+  }
 
-      const signature = this.generateSignature(payload);
+  /**
+   * Refund all or part of a completed payment through the Click Merchant API
+   * Refunding the whole payment at once uses a full reversal, anything else a partial reversal
+   * @param options - amount defaults to what is left to refund; reason is kept with the refund record
+   */
+  async refundPayment(transaction_id: string, options: RefundOptions): Promise<RefundResult> {
+    const payment = await this.resolvePayment(transaction_id);
+    if (!payment.success) {
+      return settle<RefundResult>({ success: false, transaction_id, error: payment.error }, this.config.throw_errors);
+    }
 
-      const response = await this.httpClient.request<ClickCancelResponse>({
-        method: 'POST',
-        url: `${this.merchantApiUrl}/cancel_transaction`,
-        data: {
-          ...payload,
-          signature
-        }
-      });
+    const { payment_id, record } = payment.result!;
+    if (record?.state !== ClickTransactionState.Confirmed) {
+      const error = new ValidationError(
+        'REFUND_NOT_ALLOWED',
+        'Only payments confirmed by a Complete webhook can be refunded',
+        'transaction_id'
+      );
+      return settle<RefundResult>({ success: false, transaction_id, error }, this.config.throw_errors);
+    }
 
-      return {
-        success: response.data.success,
-        transaction_id: response.data.transaction_id,
-        error: response.data.error
-      };
-    } catch (error) {
+    const paid = Money.fromTiyin(record.amount);
+    await this.settlePendingRefunds(transaction_id, payment_id, paid);
+    const result = await this.refunds.refund(transaction_id, paid, options, async (amount, reserved) => {
+      const reversal = reserved.tiyin === 0 && amount.equals(paid)
+        ? await this.merchantClient!.reversePayment(payment_id)
+        : await this.merchantClient!.partialReversePayment(payment_id, amount);
+      if (!reversal.success) {
+        throw reversal.error;
+      }
+    });
+    return settle(result, this.config.throw_errors);
+  }
+
+  /**
+   * Refunds recorded for a payment, oldest first
+   */
+  getRefunds(transaction_id: string): Promise<RefundRecord[]> {
+    return this.refunds.list(transaction_id);
+  }
+
+  /**
+   * Record the outcome of a refund left pending, when it is known some other way
+   * Needed for partial reversals, which the payment status cannot settle
+   * @returns The updated refund, or null when the payment has no pending refund with this id
+   */
+  settleRefund(transaction_id: string, refund_id: string, status: SettledRefundStatus): Promise<RefundRecord | null> {
+    return this.refunds.settle(transaction_id, refund_id, status);
+  }
+
+  /**
+   * Settle refunds left pending by a reversal with an unknown outcome from the payment status
+   * A reversed payment (status < 0) took them all; a payment still paid (2) never saw a full reversal,
+   * but a partial one cannot be told apart and stays pending
+   * @param payment_status - Status already fetched, if any; otherwise it is fetched once a pending refund is found
+   */
+  private settlePendingRefunds(
+    transaction_id: string,
+    payment_id: string,
+    paid: Money,
+    payment_status?: number | null
+  ): Promise<void> {
+    return this.refunds.settlePending(transaction_id, async refund => {
+      if (payment_status === undefined) {
+        const status = await this.merchantClient!.getPaymentStatus(payment_id);
+        payment_status = status.success ? status.result!.payment_status : null;
+      }
+      if (payment_status === null) return null;
+      if (payment_status < 0) return 'succeeded';
+      return payment_status === 2 && refund.amount === paid.tiyin ? 'failed' : null;
+    });
+  }
+
+  /**
+   * Find Click's payment_id for an order
+   * Uses the stored webhook record when there is one, otherwise asks Click by merchant_trans_id
+   */
+  private async resolvePayment(
+    transaction_id: string
+  ): Promise<GatewayCallResult<{ payment_id: string; record?: ClickTransaction }>> {
+    if (!this.merchantClient) {
       return {
         success: false,
-        error: {
-          code: 'PAYMENT_CANCEL_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error'
-        }
+        error: new ValidationError(
+          'CONFIGURATION_ERROR',
+          'merchant_user_id is required to call the Click Merchant API',
+          'merchant_user_id'
+        )
       };
     }
+
+    const records = await this.store.findByOrderId(transaction_id);
+    const record = records.find(transaction => transaction.state === ClickTransactionState.Confirmed)
+      ?? records.sort((a, b) => b.create_time - a.create_time)[0];
+    if (record) {
+      return { success: true, result: { payment_id: record.click_paydoc_id, record } };
+    }
+
+    const lookup = await this.merchantClient.getPaymentStatusByMerchantTransId(transaction_id);
+    if (!lookup.success) {
+      return { success: false, error: lookup.error };
+    }
+    return { success: true, result: { payment_id: String(lookup.result!.payment_id) } };
+  }
+
+  /**
+   * Cancel Prepares older than prepare_timeout that never received a Complete
+   * Each one raises payment.cancelled; run it periodically, e.g. with TransactionSweeper
+   * Only transactions that timed out since the last sweep are loaded; the first sweep looks back one more
+   * prepare_timeout, and anything older is cancelled when a webhook touches it
+   * @returns The transactions that were cancelled
+   */
+  async expireStaleTransactions(now = Date.now()): Promise<ClickTransaction[]> {
+    const until = now - this.config.prepare_timeout;
+    const from = this.sweepFrom ?? until - this.config.prepare_timeout;
+    this.sweepFrom = from;
+    const candidates = await this.store.findByCreateTime(from, until);
+    const expired = candidates.filter(transaction => this.isExpired(transaction, now));
+
+    for (const transaction of expired) {
+      await this.expire(transaction, null, now);
+    }
+    this.sweepFrom = Math.max(from, until);
+    return expired;
   }
 
   /**
    * Handle Click webhook requests
    */
-  async handleWebhook(request: ClickWebhookRequest): Promise<ClickWebhookResponse> {
+  async handleWebhook(request: ClickWebhookRequest, context?: WebhookContext): Promise<ClickWebhookResponse> {
+    const correlation_id = context?.correlation_id ?? randomUUID();
+    const fields = {
+      correlation_id,
+      action: request.action,
+      click_trans_id: request.click_trans_id,
+      merchant_trans_id: request.merchant_trans_id
+    };
+    const action = Number(request.action);
+    const labels = { provider: 'click', method: action === 0 ? 'prepare' : action === 1 ? 'complete' : 'unknown' };
+    const span = this.instrumentation.startSpan('webhook', {
+      ...labels,
+      order_id: request.merchant_trans_id,
+      correlation_id
+    });
+    const startedAt = Date.now();
+    let error_code = 'exception';
+    this.logger.info('webhook.received', { ...fields, ip: context?.ip });
+
+    try {
+      const response = await this.dispatchWebhook(request, { ...context, correlation_id });
+      error_code = String(response.error);
+      this.logger.info('webhook.handled', {
+        ...fields,
+        error_code: response.error,
+        duration_ms: Date.now() - startedAt
+      });
+      return response;
+    } catch (error) {
+      this.logger.error('webhook.failed', { ...fields, error, duration_ms: Date.now() - startedAt });
+      span.recordError(error);
+      throw error;
+    } finally {
+      this.instrumentation.increment(PAYMENT_METRICS.webhookRequests, { ...labels, error_code });
+      this.instrumentation.observe(PAYMENT_METRICS.webhookDuration, (Date.now() - startedAt) / 1000, labels);
+      span.setAttributes({ error_code });
+      span.end();
+    }
+  }
+
+  private async dispatchWebhook(request: ClickWebhookRequest, context: WebhookContext): Promise<ClickWebhookResponse> {
+    const ipRejection = this.security.checkIp(context);
+    if (ipRejection) {
+      return this.reject(request, ipRejection, `Source IP ${context.ip ?? 'unknown'} is not allowed`, context);
+    }
+
     // Verify signature
     if (!this.verifyWebhookSignature(request)) {
-      return {
-        click_trans_id: +request.click_trans_id,
-        merchant_trans_id: request.merchant_trans_id,
-        error: ClickErrorCodes.SignatureFailure,
-        error_note: 'Invalid signature'
-      };
+      return this.reject(request, WebhookRejectionReason.InvalidSignature, 'Invalid signature', context);
     }
 
+    const staleRejection = this.security.checkSignTime(request.sign_time);
+    if (staleRejection) {
+      return this.reject(request, staleRejection, `sign_time ${request.sign_time} is outside the allowed window`, context);
+    }
+
+    if (!this.webhookResponses) {
+      return this.routeOnce(request, context);
+    }
+
+    // A redelivered request gets the response it got the first time, even from another process
+    const { response, deduplicated } = await this.webhookResponses.dedupe(
+      `click:${this.config.service_id}:webhook:${request.click_trans_id}:${request.action}`,
+      fingerprintOf([
+        request.merchant_trans_id,
+        request.merchant_prepare_id,
+        request.raw?.amount ?? request.amount,
+        request.error
+      ]),
+      () => this.routeOnce(request, context)
+    );
+    if (deduplicated) {
+      this.logger.info('webhook.deduplicated', {
+        correlation_id: context.correlation_id,
+        action: request.action,
+        click_trans_id: request.click_trans_id
+      });
+    }
+    return response;
+  }
+
+  /**
+   * Route a request unless the same action of the same Click transaction is already in the replay window
+   */
+  private async routeOnce(request: ClickWebhookRequest, context: WebhookContext): Promise<ClickWebhookResponse> {
+    const { response, replayed } = await this.security.guardReplay(
+      `${request.click_trans_id}:${request.action}`,
+      () => this.routeWebhook(request)
+    );
+    if (replayed) {
+      this.logger.info('webhook.replayed', {
+        correlation_id: context.correlation_id,
+        action: request.action,
+        click_trans_id: request.click_trans_id
+      });
+    }
+    return response;
+  }
+
+  private async routeWebhook(request: ClickWebhookRequest): Promise<ClickWebhookResponse> {
     // Handle prepare request (action = 0)
-    if (request.action === 0) {
+    if (Number(request.action) === 0) {
       return this.handlePreparePay(request);
     }
 
     // Handle complete request (action = 1)
-    if (request.action === 1) {
+    if (Number(request.action) === 1) {
       return this.handleCompletePay(request);
     }
 
@@ -225,33 +551,95 @@ export class ClickProvider implements PaymentProvider {
   }
 
   /**
-   * Verify Click webhook signature
+   * Verify Click webhook signature against the amount exactly as Click sent it
    */
   private verifyWebhookSignature(request: ClickWebhookRequest): boolean {
-    const signParams = {
-      click_trans_id: request.click_trans_id,
-      service_id: request.service_id,
-      click_paydoc_id: request.click_paydoc_id,
-      merchant_trans_id: request.merchant_trans_id,
-      amount: request.amount,
-      action: request.action,
-      sign_time: request.sign_time
-    };
+    const signature = clickSignString(
+      { ...request, amount: request.raw?.amount ?? request.amount },
+      this.config.secret_key
+    );
+    return safeCompare(signature, String(request.sign_string ?? ''));
+  }
 
-    const signature = this.generateSignature(signParams);
-    return signature === request.sign_string;
+  /**
+   * Report a rejected webhook and build the response Click expects
+   */
+  private async reject(
+    request: ClickWebhookRequest,
+    reason: WebhookRejectionReason,
+    message: string,
+    context: WebhookContext
+  ): Promise<ClickWebhookResponse> {
+    const rejection = { provider: 'click' as const, reason, message, ip: context.ip };
+    this.logger.warn('webhook.rejected', {
+      correlation_id: context.correlation_id,
+      reason,
+      error: message,
+      ip: context.ip,
+      request: request.raw ?? request
+    });
+    this.onWebhookRejected?.(rejection);
+    await this.events.emit('webhook.rejected', { ...rejection, raw: request.raw ?? request });
+    return this.errorResponse(request, ClickErrorCodes.SignatureFailure, message);
   }
 
   /**
    * Handle prepare payment webhook
+   * Validates the order and records a prepare id that Complete must reference
    */
   private async handlePreparePay(request: ClickWebhookRequest): Promise<ClickWebhookResponse> {
-    const prepare_id = Date.now();
-    
+    const orderTransactions = await this.store.findByOrderId(request.merchant_trans_id);
+
+    const amount = this.parseWebhookAmount(request);
+    // Without a findOrder hook nothing else stops a zero or negative sum from being prepared
+    if (!amount || amount.tiyin <= 0) {
+      return this.errorResponse(request, ClickErrorCodes.InvalidAmount, 'Incorrect parameter amount');
+    }
+
+    const order = this.findOrder ? await this.findOrder(request.merchant_trans_id) : null;
+    if (this.findOrder && !order) {
+      return this.errorResponse(request, ClickErrorCodes.UserNotFound, 'User does not exist');
+    }
+    if (order && !order.amount.equals(amount)) {
+      return this.errorResponse(request, ClickErrorCodes.InvalidAmount, 'Incorrect parameter amount');
+    }
+    if (order?.paid || orderTransactions.some(transaction => transaction.state === ClickTransactionState.Confirmed)) {
+      return this.errorResponse(request, ClickErrorCodes.AlreadyPaid, 'Already paid');
+    }
+    if (order?.cancelled) {
+      return this.errorResponse(request, ClickErrorCodes.TransactionCancelled, 'Transaction cancelled');
+    }
+
+    // Click may resend Prepare for the same transaction; hand back the same prepare id
+    const existing = orderTransactions.find(transaction => transaction.click_trans_id === String(request.click_trans_id));
+    if (existing?.state === ClickTransactionState.Cancelled) {
+      return this.errorResponse(request, ClickErrorCodes.TransactionCancelled, 'Transaction cancelled');
+    }
+
+    let transaction = existing;
+    if (!transaction) {
+      const prepare_id = await this.nextPrepareId();
+      transaction = {
+        id: String(prepare_id),
+        prepare_id,
+        confirm_id: 0,
+        order_id: request.merchant_trans_id,
+        click_trans_id: String(request.click_trans_id),
+        click_paydoc_id: String(request.click_paydoc_id),
+        amount: amount.tiyin,
+        state: ClickTransactionState.Prepared,
+        create_time: Date.now(),
+        confirm_time: 0,
+        cancel_time: 0
+      };
+      await this.store.save(transaction);
+      await this.emitPaymentEvent('payment.prepared', transaction, request);
+    }
+
     return {
       click_trans_id: +request.click_trans_id,
       merchant_trans_id: request.merchant_trans_id,
-      merchant_prepare_id: prepare_id,
+      merchant_prepare_id: transaction.prepare_id,
       error: ClickErrorCodes.Success,
       error_note: 'Success'
     };
@@ -259,41 +647,167 @@ export class ClickProvider implements PaymentProvider {
 
   /**
    * Handle complete payment webhook
+   * Confirms the prepared transaction, or cancels it when Click reports an error
    */
   private async handleCompletePay(request: ClickWebhookRequest): Promise<ClickWebhookResponse> {
-    if (request.error < 0) {
-      return {
-        click_trans_id: +request.click_trans_id,
-        merchant_trans_id: request.merchant_trans_id,
-        error: request.error,
-        error_note: request.error_note
-      };
+    const transaction = request.merchant_prepare_id
+      ? await this.store.get(String(request.merchant_prepare_id))
+      : null;
+    if (
+      !transaction ||
+      transaction.click_trans_id !== String(request.click_trans_id) ||
+      transaction.order_id !== request.merchant_trans_id
+    ) {
+      return this.errorResponse(request, ClickErrorCodes.TransactionNotFound, 'Transaction does not exist');
+    }
+
+    if (transaction.state === ClickTransactionState.Confirmed) {
+      return this.errorResponse(request, ClickErrorCodes.AlreadyPaid, 'Already paid');
+    }
+    if (transaction.state === ClickTransactionState.Cancelled) {
+      return this.errorResponse(request, ClickErrorCodes.TransactionCancelled, 'Transaction cancelled');
+    }
+    if (this.isExpired(transaction)) {
+      await this.expire(transaction, request);
+      return this.errorResponse(request, ClickErrorCodes.TransactionCancelled, 'Transaction cancelled');
+    }
+    const amount = this.parseWebhookAmount(request);
+    if (!amount || amount.tiyin !== transaction.amount) {
+      return this.errorResponse(request, ClickErrorCodes.InvalidAmount, 'Incorrect parameter amount');
     }
 
-    const confirm_id = Date.now();
+    // A negative error means the payment failed on Click's side
+    if (Number(request.error) < 0) {
+      transaction.state = ClickTransactionState.Cancelled;
+      transaction.cancel_time = Date.now();
+      await this.store.save(transaction);
+      await this.emitPaymentEvent('payment.cancelled', transaction, request);
+      return this.errorResponse(request, ClickErrorCodes.TransactionCancelled, 'Transaction cancelled');
+    }
+
+    transaction.state = ClickTransactionState.Confirmed;
+    transaction.confirm_id = this.nextId();
+    transaction.confirm_time = Date.now();
+    await this.store.save(transaction);
+    await this.emitPaymentEvent('payment.completed', transaction, request);
 
     return {
       click_trans_id: +request.click_trans_id,
       merchant_trans_id: request.merchant_trans_id,
-      merchant_confirm_id: confirm_id,
+      merchant_confirm_id: transaction.confirm_id,
       error: ClickErrorCodes.Success,
       error_note: 'Success'
     };
   }
 
   /**
-   * Map Click status to PaymentVerifyResult status
+   * Build a Click error response
+   */
+  private errorResponse(request: ClickWebhookRequest, error: ClickErrorCodes, error_note: string): ClickWebhookResponse {
+    return {
+      click_trans_id: +request.click_trans_id,
+      merchant_trans_id: request.merchant_trans_id,
+      error,
+      error_note
+    };
+  }
+
+  /**
+   * Emit a payment event for a stored transaction
+   */
+  private emitPaymentEvent(
+    event: Exclude<PaymentEventName, 'webhook.rejected'>,
+    transaction: ClickTransaction,
+    request: ClickWebhookRequest | null
+  ): Promise<void> {
+    return this.events.emit(event, {
+      provider: 'click',
+      order_id: transaction.order_id,
+      transaction_id: transaction.click_trans_id,
+      amount: Money.fromTiyin(transaction.amount),
+      raw: request ? request.raw ?? request : null
+    });
+  }
+
+  /**
+   * A prepared transaction expires prepare_timeout ms after Prepare
+   */
+  private isExpired(transaction: ClickTransaction, now = Date.now()): boolean {
+    return transaction.state === ClickTransactionState.Prepared
+      && now - transaction.create_time > this.config.prepare_timeout;
+  }
+
+  /**
+   * Cancel a Prepare that never received its Complete
+   * @param request - Complete that arrived too late; null when swept
+   */
+  private async expire(transaction: ClickTransaction, request: ClickWebhookRequest | null, now = Date.now()): Promise<void> {
+    transaction.state = ClickTransactionState.Cancelled;
+    transaction.cancel_time = now;
+    await this.store.save(transaction);
+
+    this.logger.info('payment.expired', {
+      provider: 'click',
+      transaction_id: transaction.click_trans_id,
+      order_id: transaction.order_id
+    });
+    await this.emitPaymentEvent('payment.cancelled', transaction, request);
+  }
+
+  /**
+   * Parse the so'm amount sent by Click; returns null if it is malformed
    */
-  private mapClickStatus(status: number): PaymentVerifyResult['status'] {
-    switch (status) {
-      case 1:
-        return 'completed';
-      case 0:
-        return 'pending';
-      case -1:
-        return 'cancelled';
-      default:
-        return 'failed';
+  private parseWebhookAmount(request: ClickWebhookRequest): Money | null {
+    try {
+      return Money.fromSom(request.raw?.amount ?? request.amount);
+    } catch {
+      return null;
     }
   }
+
+  /**
+   * Check an order amount against Click's currency and limits
+   */
+  private validateAmount(amount: Money): ValidationError | null {
+    if (amount.currency !== 'UZS') {
+      return new ValidationError('INVALID_CURRENCY', `Click only accepts UZS, got ${amount.currency}`, 'amount');
+    }
+    if (!amount.isBetween(CLICK_AMOUNT_LIMITS.min, CLICK_AMOUNT_LIMITS.max)) {
+      return new ValidationError(
+        'INVALID_AMOUNT',
+        `Click amount must be between ${CLICK_AMOUNT_LIMITS.min} and ${CLICK_AMOUNT_LIMITS.max}, got ${amount}`,
+        'amount'
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Issue a unique, increasing id for merchant_prepare_id / merchant_confirm_id
+   */
+  private nextId(): number {
+    this.lastIssuedId = Math.max(Date.now(), this.lastIssuedId + 1);
+    return this.lastIssuedId;
+  }
+
+  /**
+   * Issue a merchant_prepare_id that no stored record uses yet
+   * It is also the store key, and another process sharing the store may issue the same millisecond
+   */
+  private async nextPrepareId(): Promise<number> {
+    let id = this.nextId();
+    while (await this.store.get(String(id))) {
+      id = this.nextId();
+    }
+    return id;
+  }
+
+  /**
+   * Map Click status to PaymentVerifyResult status
+   */
+  private mapClickStatus(payment_status: number): PaymentVerifyResult['status'] {
+    if (payment_status === 2) return 'completed';
+    if (payment_status < 0) return 'cancelled';
+    return 'pending';
+  }
 }
@@ -1,21 +1,94 @@
-import { createHash } from 'crypto';
-import { DateTime } from 'luxon';
+import { createHash, randomUUID } from 'crypto';
 import {
+  AmountLimits,
   PaymentOrder,
   PaymentProvider,
   PaymentResult,
   PaymentVerifyResult,
+  ProviderCapabilities,
+  RefundOptions,
+  RefundResult,
 } from '../interfaces/payment.interface';
 import {
   PaymeTransactionState,
   PaymeErrorCodes,
   PaymeWebhookRequest,
   PaymeWebhookResponse,
-  PaymeTransactionResponse,
+  PaymeTransactionResult,
+  PaymeStatementTransaction,
   PaymeCancelResponse,
   PaymeConfig,
+  PaymeAccount,
+  PaymeCancelReason,
+  PaymeCheckoutOptions,
+  PaymeOrderInfo,
 } from '../interfaces/payme.interface';
+import { IdempotencyOptions } from '../interfaces/idempotency.interface';
+import {
+  PaymeTransaction,
+  RefundRecord,
+  SettledRefundStatus,
+  TransactionStore,
+} from '../interfaces/transaction.interface';
+import {
+  AuthenticationError,
+  GatewayError,
+  settle,
+  toPaymentError,
+  ValidationError,
+} from '../errors/payment.error';
+import { InMemoryTransactionStore } from '../stores/memory.store';
+import { PaymeCheckoutFormOptions, renderCheckoutForm } from '../utils/checkout.html';
+import { buildPaymeCheckoutUrl } from '../utils/checkout.url';
+import { assertFiscalReceipt, toPaymeReceiptDetail } from '../utils/fiscal.receipt';
 import { HttpClient } from '../utils/http.client';
+import { fingerprintOf, IdempotencyCache } from '../utils/idempotency';
+import { Instrumentation, NoopInstrumentation, PAYMENT_METRICS } from '../utils/instrumentation';
+import { ConsoleJsonLogger, Logger, redactingLogger } from '../utils/logger';
+import { Money } from '../utils/money';
+import { PaymentEventBus, PaymentEventName } from '../utils/payment.events';
+import { assertValidConfig, validatePaymeConfig } from '../utils/provider.config';
+import { RefundLedger } from '../utils/refund.ledger';
+import {
+  paymeBasicToken,
+  safeCompare,
+  WebhookContext,
+  WebhookRejectionReason,
+  WebhookSecurity,
+} from '../utils/webhook.security';
+
+interface PaymeRpcResponse<T> {
+  result?: T;
+  error?: {
+    code: number;
+    message: string | Record<string, string>;
+    data?: unknown;
+  };
+}
+
+// Webhook methods used as metric labels; anything else is counted as 'unknown'
+const WEBHOOK_METHODS = new Set([
+  'CheckPerformTransaction',
+  'CreateTransaction',
+  'PerformTransaction',
+  'CancelTransaction',
+  'CheckTransaction',
+  'GetStatement',
+  'SetFiscalData'
+]);
+
+/**
+ * Amount range accepted by Payme checkout
+ */
+export const PAYME_AMOUNT_LIMITS: AmountLimits = {
+  min: Money.fromSom(1000),
+  max: Money.fromSom(10000000)
+};
+
+/**
+ * How long Payme lets a transaction stay created before it must be cancelled
+ */
+export const PAYME_TRANSACTION_TIMEOUT = 12 * 60 * 60 * 1000;
 
 /**
  * Payme Payment Provider Implementation
@@ -25,106 +98,179 @@ import { HttpClient } from '../utils/http.client';
 export class PaymeProvider implements PaymentProvider {
   private readonly baseUrl: string;
   private readonly merchantApiUrl: string;
-  private readonly config: Required<PaymeConfig>;
+  private readonly config: Required<Omit<
+    PaymeConfig,
+    | 'findOrder' | 'api_url' | 'security' | 'idempotency' | 'webhook_dedupe'
+    | 'onWebhookRejected' | 'onFiscalData' | 'onListenerError' | 'logger' | 'instrumentation'
+  >>;
   private readonly authorization: string;
+  private readonly findOrder?: PaymeConfig['findOrder'];
+  private readonly onWebhookRejected?: PaymeConfig['onWebhookRejected'];
+  private readonly onFiscalData?: PaymeConfig['onFiscalData'];
+  private readonly security: WebhookSecurity;
+  private readonly logger: Logger;
+  private readonly instrumentation: Instrumentation;
+  private readonly refunds: RefundLedger;
+  private readonly idempotency: IdempotencyCache;
+  private readonly webhookResponses: IdempotencyCache | null;
+  // Lower create_time bound of the next sweep; moves up only when a sweep succeeds
+  private sweepFrom: number | null = null;
+
+  /**
+   * Payment lifecycle events raised by the webhook handlers
+   */
+  readonly events: PaymentEventBus;
+
+  /**
+   * Refunds via CancelTransaction, card tokens and invoices via PaymeSubscribeClient, statements via GetStatement
+   */
+  readonly capabilities: ProviderCapabilities = {
+    refunds: true,
+    tokenized_cards: true,
+    invoices: true,
+    statements: true
+  };
 
   constructor(
     private readonly httpClient: HttpClient,
-    config: PaymeConfig
+    config: PaymeConfig,
+    private readonly store: TransactionStore<PaymeTransaction> = new InMemoryTransactionStore(),
+    refundStore: TransactionStore<RefundRecord> = new InMemoryTransactionStore()
   ) {
-    // Validate required configuration
-    if (!config.merchant_id && !process.env.PAYME_MERCHANT_ID) {
-      throw new Error('merchant_id is required. Provide in config or set PAYME_MERCHANT_ID env variable');
-    }
-    if (!config.password && !process.env.PAYME_PASSWORD && !process.env.PAYME_PASSWORD_TEST) {
-      throw new Error('password is required. Provide in config or set PAYME_PASSWORD/PAYME_PASSWORD_TEST env variable');
-    }
-
-    const isTestMode = config.test_mode ?? (process.env.NODE_ENV !== 'production');
+    assertValidConfig(validatePaymeConfig(config));
 
     // Set configuration with defaults
     this.config = {
-      merchant_id: config.merchant_id || process.env.PAYME_MERCHANT_ID!,
-      login: config.login || process.env.PAYME_LOGIN || 'Paycom',
-      password: config.password || (isTestMode ? process.env.PAYME_PASSWORD_TEST! : process.env.PAYME_PASSWORD!),
-      test_mode: isTestMode,
+      merchant_id: config.merchant_id!,
+      login: config.login || 'Paycom',
+      password: config.password!,
+      test_mode: config.test_mode!,
       timeout: config.timeout || 30000,
       retries: config.retries || 3,
-      retry_delay: config.retry_delay || 1000
+      retry_delay: config.retry_delay || 1000,
+      account_field: config.account_field || 'order_id',
+      transaction_timeout: config.transaction_timeout ?? PAYME_TRANSACTION_TIMEOUT,
+      throw_errors: config.throw_errors ?? false
     };
+    this.findOrder = config.findOrder;
+    this.onWebhookRejected = config.onWebhookRejected;
+    this.onFiscalData = config.onFiscalData;
+    this.security = new WebhookSecurity(config.security);
+    this.logger = redactingLogger(config.logger ?? new ConsoleJsonLogger());
+    this.events = new PaymentEventBus(
+      config.onListenerError ?? ((error, event) => this.logger.error('listener.failed', { event, error }))
+    );
+    this.instrumentation = config.instrumentation ?? new NoopInstrumentation();
+    this.refunds = new RefundLedger('payme', refundStore);
+    this.idempotency = IdempotencyCache.fromConfig(config.idempotency);
+    this.webhookResponses = config.webhook_dedupe ? IdempotencyCache.fromConfig(config.webhook_dedupe) : null;
 
     // Generate Basic Auth token
-    this.authorization = Buffer.from(`${this.config.login}:${this.config.password}`).toString('base64');
+    this.authorization = paymeBasicToken(this.config.password, this.config.login);
 
     // Set URLs based on environment
     this.baseUrl = this.config.test_mode 
       ? 'https://test.paycom.uz'
       : 'https://checkout.paycom.uz';
     
-    this.merchantApiUrl = this.config.test_mode
+    this.merchantApiUrl = config.api_url || (this.config.test_mode
       ? 'https://test.paycom.uz/api'
-      : 'https://paycom.uz/api';
+      : 'https://paycom.uz/api');
+  }
+
+  get merchantId(): string {
+    return this.config.merchant_id;
   }
 
   /**
    * Generate payment URL for Payme redirect
+   * The order id and extra_params are sent as account fields; description is not part of the GET checkout
    */
-  generatePaymentUrl(order: PaymentOrder): string {
-    const params = new URLSearchParams({
+  generatePaymentUrl(order: PaymentOrder, options: PaymeCheckoutOptions = {}): string {
+    const amountError = this.validateAmount(order.amount) ?? this.validateReceipt(order);
+    if (amountError) {
+      throw amountError;
+    }
+
+    return buildPaymeCheckoutUrl(this.baseUrl, {
       m: this.config.merchant_id,
-      a: String(order.amount.amount * 100), // Convert to tiyin
-      ac: JSON.stringify({
-        order_id: order.id,
-        ...order.extra_params
-      }),
-      l: order.return_url || '',
-      c: order.description || ''
+      ac: this.checkoutAccount(order),
+      a: order.amount.tiyin,
+      l: options.lang,
+      c: order.return_url || undefined,
+      ct: options.callback_timeout,
+      cr: options.currency
     });
+  }
 
-    const encodedParams = Buffer.from(params.toString()).toString('base64');
-    return `${this.baseUrl}/${encodedParams}`;
+  /**
+   * Generate an HTML form that POSTs the order to Payme checkout, submitting itself on load by default
+   * All order values are HTML-escaped; extra_params become account fields as in generatePaymentUrl
+   */
+  generateCheckoutForm(order: PaymentOrder, options: PaymeCheckoutFormOptions = {}): string {
+    const amountError = this.validateAmount(order.amount) ?? this.validateReceipt(order);
+    if (amountError) {
+      throw amountError;
+    }
+
+    const account = this.checkoutAccount(order);
+    const fields: Array<[string, string]> = [
+      ['merchant', this.config.merchant_id],
+      ['amount', String(order.amount.tiyin)],
+      ...Object.keys(account).map((key): [string, string] => [`account[${key}]`, account[key]])
+    ];
+    if (options.lang) fields.push(['lang', options.lang]);
+    if (order.return_url) fields.push(['callback', order.return_url]);
+    if (options.callback_timeout !== undefined) fields.push(['callback_timeout', String(options.callback_timeout)]);
+    if (order.description) fields.push(['description', order.description]);
+    if (order.receipt) {
+      fields.push(['detail', Buffer.from(JSON.stringify(toPaymeReceiptDetail(order.receipt))).toString('base64')]);
+    }
+
+    return renderCheckoutForm(`${this.baseUrl}/`, fields, {
+      form_id: options.form_id ?? 'payme-checkout',
+      button_text: options.button_text ?? 'Pay with Payme',
+      auto_submit: options.auto_submit ?? true
+    });
   }
 
   /**
    * Create a new payment
+   * With an idempotency key, a repeated call returns the first result instead of sending another CreateTransaction
    */
-  async createPayment(order: PaymentOrder): Promise<PaymentResult> {
-    try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const payload = {
-        method: 'CreateTransaction',
-        params: {
-          amount: order.amount.amount * 100, // Convert to tiyin
-          account: {
-            order_id: order.id,
-            ...order.extra_params
-          },
-          time: timestamp
-        }
-      };
+  createPayment(order: PaymentOrder, options: IdempotencyOptions = {}): Promise<PaymentResult> {
+    return this.idempotent(
+      options,
+      'create',
+      { id: order.id, amount: order.amount, extra_params: order.extra_params },
+      'PAYMENT_CREATE_ERROR',
+      () => this.sendCreatePayment(order)
+    );
+  }
+
+  private async sendCreatePayment(order: PaymentOrder): Promise<PaymentResult> {
+    const amountError = this.validateAmount(order.amount) ?? this.validateReceipt(order);
+    if (amountError) {
+      return settle({ success: false, error: amountError }, this.config.throw_errors);
+    }
 
-      const response = await this.httpClient.request<PaymeTransactionResponse>({
-        method: 'POST',
-        url: this.merchantApiUrl,
-        headers: {
-          'Authorization': `Basic ${this.authorization}`
+    try {
+      const result = await this.callMerchantApi<PaymeTransactionResult>('CreateTransaction', false, {
+        amount: order.amount.tiyin,
+        account: {
+          [this.config.account_field]: order.id,
+          ...order.extra_params
         },
-        data: payload
-      });
+        time: Math.floor(Date.now() / 1000)
+      }, order.id);
 
       return {
         success: true,
         payment_url: this.generatePaymentUrl(order),
-        transaction_id: response.data.result.transaction
+        transaction_id: result.transaction
       };
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          code: 'PAYMENT_CREATE_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error'
-        }
-      };
+      return settle({ success: false, error: toPaymentError(error, 'PAYMENT_CREATE_ERROR') }, this.config.throw_errors);
     }
   }
 
@@ -133,98 +279,298 @@ export class PaymeProvider implements PaymentProvider {
    */
   async verifyPayment(transaction_id: string): Promise<PaymentVerifyResult> {
     try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const payload = {
-        method: 'CheckTransaction',
-        params: {
-          transaction: transaction_id,
-          time: timestamp
-        }
-      };
-
-      const response = await this.httpClient.request<PaymeTransactionResponse>({
-        method: 'POST',
-        url: this.merchantApiUrl,
-        headers: {
-          'Authorization': `Basic ${this.authorization}`
-        },
-        data: payload
+      const result = await this.callMerchantApi<PaymeTransactionResult>('CheckTransaction', true, {
+        transaction: transaction_id,
+        time: Math.floor(Date.now() / 1000)
       });
+      await this.settlePendingRefunds(transaction_id, result.state);
 
+      const paid = Money.fromTiyin(result.amount);
+      const status = this.mapPaymeStatus(result.state);
       return {
         success: true,
-        transaction_id: response.data.result.transaction,
-        status: this.mapPaymeStatus(response.data.result.state),
-        paid_amount: response.data.result.amount / 100, // Convert from tiyin
-        paid_time: response.data.result.perform_time ? new Date(response.data.result.perform_time) : undefined
+        transaction_id: result.transaction,
+        status,
+        paid_amount: paid,
+        paid_time: result.perform_time ? new Date(result.perform_time) : undefined,
+        refunded_amount: status === 'refunded' ? paid : undefined
       };
     } catch (error) {
-      const isTimeout = error instanceof Error && 
-        (error.message.includes('timeout') || error.message.includes('ECONNABORTED'));
-
-      return {
+      return settle<PaymentVerifyResult>({
         success: false,
         status: 'failed',
-        error: {
-          code: isTimeout ? 'PAYMENT_TIMEOUT' : 'PAYMENT_VERIFY_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error'
-        }
-      };
+        error: toPaymentError(error, 'PAYMENT_VERIFY_ERROR')
+      }, this.config.throw_errors);
     }
   }
 
   /**
    * Cancel payment
+   * With an idempotency key, a repeated call returns the first result instead of cancelling again
    */
-  async cancelPayment(transaction_id: string): Promise<PaymentResult> {
-    try {
-      const timestamp = Math.floor(Date.now() / 1000);
-      const payload = {
-        method: 'CancelTransaction',
-        params: {
-          transaction: transaction_id,
-          time: timestamp
-        }
-      };
+  cancelPayment(transaction_id: string, options: IdempotencyOptions = {}): Promise<PaymentResult> {
+    return this.idempotent(
+      options,
+      'cancel',
+      { transaction_id },
+      'PAYMENT_CANCEL_ERROR',
+      () => this.sendCancelPayment(transaction_id)
+    );
+  }
 
-      const response = await this.httpClient.request<PaymeCancelResponse>({
-        method: 'POST',
-        url: this.merchantApiUrl,
-        headers: {
-          'Authorization': `Basic ${this.authorization}`
-        },
-        data: payload
+  private async sendCancelPayment(transaction_id: string): Promise<PaymentResult> {
+    try {
+      const result = await this.callMerchantApi<PaymeCancelResponse['result']>('CancelTransaction', false, {
+        transaction: transaction_id,
+        time: Math.floor(Date.now() / 1000)
       });
 
       return {
         success: true,
-        transaction_id: response.data.result.transaction
+        transaction_id: result.transaction
       };
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          code: 'PAYMENT_CANCEL_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error'
-        }
-      };
+      return settle({ success: false, error: toPaymentError(error, 'PAYMENT_CANCEL_ERROR') }, this.config.throw_errors);
+    }
+  }
+
+  /**
+   * Run a call once per idempotency key; without a key it simply runs
+   * @param request - What the key must keep referring to; the same key with other values is IDEMPOTENCY_KEY_REUSED
+   */
+  private async idempotent(
+    options: IdempotencyOptions,
+    operation: string,
+    request: unknown,
+    error_code: string,
+    call: () => Promise<PaymentResult>
+  ): Promise<PaymentResult> {
+    if (!options.idempotency_key) return call();
+
+    const key = `payme:${this.config.merchant_id}:${operation}:${options.idempotency_key}`;
+    try {
+      return await this.idempotency.run(key, fingerprintOf(request), call);
+    } catch (error) {
+      return settle({ success: false, error: toPaymentError(error, error_code) }, this.config.throw_errors);
+    }
+  }
+
+  /**
+   * Refund a completed payment by cancelling it after perform (state -2)
+   * Payme only refunds the whole amount; a partial amount is rejected with PARTIAL_REFUND_UNSUPPORTED
+   * @param options - reason is a Payme cancel reason, usually PaymeCancelReason.Refund
+   */
+  async refundPayment(transaction_id: string, options: RefundOptions): Promise<RefundResult> {
+    let result: RefundResult;
+    try {
+      const transaction = await this.callMerchantApi<PaymeTransactionResult>('CheckTransaction', true, {
+        transaction: transaction_id,
+        time: Math.floor(Date.now() / 1000)
+      });
+      await this.settlePendingRefunds(transaction_id, transaction.state);
+
+      if (transaction.state !== PaymeTransactionState.Completed) {
+        throw new ValidationError(
+          'REFUND_NOT_ALLOWED',
+          transaction.state === PaymeTransactionState.CancelledAfterComplete
+            ? 'Payment is already refunded'
+            : `Only completed payments can be refunded, transaction state is ${transaction.state}`,
+          'transaction_id'
+        );
+      }
+
+      const paid = Money.fromTiyin(transaction.amount);
+      if (options.amount && !options.amount.equals(paid)) {
+        throw new ValidationError(
+          'PARTIAL_REFUND_UNSUPPORTED',
+          `Payme refunds the whole payment of ${paid}, got ${options.amount}`,
+          'amount'
+        );
+      }
+
+      result = await this.refunds.refund(transaction_id, paid, options, async () => {
+        await this.callMerchantApi<PaymeCancelResponse['result']>('CancelTransaction', false, {
+          transaction: transaction_id,
+          reason: options.reason,
+          time: Math.floor(Date.now() / 1000)
+        });
+      });
+    } catch (error) {
+      result = { success: false, transaction_id, error: toPaymentError(error, 'PAYMENT_REFUND_ERROR') };
     }
+    return settle(result, this.config.throw_errors);
+  }
+
+  /**
+   * Refunds recorded for a payment, oldest first
+   */
+  getRefunds(transaction_id: string): Promise<RefundRecord[]> {
+    return this.refunds.list(transaction_id);
+  }
+
+  /**
+   * Record the outcome of a refund left pending, when it is known some other way
+   * refundPayment and verifyPayment settle pending refunds from the transaction state on their own
+   * @returns The updated refund, or null when the payment has no pending refund with this id
+   */
+  settleRefund(transaction_id: string, refund_id: string, status: SettledRefundStatus): Promise<RefundRecord | null> {
+    return this.refunds.settle(transaction_id, refund_id, status);
+  }
+
+  /**
+   * Settle refunds left pending by a CancelTransaction with an unknown outcome
+   * State -2 means the cancel went through, state 2 that it never reached Payme
+   */
+  private settlePendingRefunds(transaction_id: string, state: PaymeTransactionState): Promise<void> {
+    return this.refunds.settlePending(transaction_id, async () => {
+      if (state === PaymeTransactionState.CancelledAfterComplete) return 'succeeded';
+      return state === PaymeTransactionState.Completed ? 'failed' : null;
+    });
+  }
+
+  /**
+   * Call the Payme merchant API
+   * Only idempotent methods are retried once the request may have reached Payme;
+   * JSON-RPC errors are thrown as AuthenticationError or GatewayError with the raw code
+   */
+  private async callMerchantApi<T>(
+    method: string,
+    idempotent: boolean,
+    params: Record<string, unknown>,
+    order_id?: string
+  ): Promise<T> {
+    const response = await this.httpClient.request<PaymeRpcResponse<T>>({
+      method: 'POST',
+      url: this.merchantApiUrl,
+      headers: {
+        'Authorization': `Basic ${this.authorization}`
+      },
+      data: { method, params },
+      idempotent,
+      attributes: { provider: 'payme', operation: method, order_id }
+    });
+
+    const { result, error } = response.data;
+    if (error) {
+      const message = typeof error.message === 'string'
+        ? error.message
+        : error.message.en ?? error.message.ru ?? Object.values(error.message)[0];
+
+      throw error.code === PaymeErrorCodes.AuthorizationFailure
+        ? new AuthenticationError('AUTHORIZATION_ERROR', message)
+        : new GatewayError('PAYME_API_ERROR', message, error.code, error.data);
+    }
+    return result as T;
+  }
+
+  /**
+   * Transactions created in [from, to] (ms) as GetStatement reports them to Payme, oldest first
+   */
+  async getStatement(from: number, to: number): Promise<PaymeStatementTransaction[]> {
+    const transactions = await this.store.findByCreateTime(from, to);
+
+    return transactions
+      .sort((a, b) => a.create_time - b.create_time)
+      .map(transaction => ({
+        id: transaction.id,
+        time: transaction.time,
+        amount: transaction.amount,
+        account: transaction.account,
+        create_time: transaction.create_time,
+        perform_time: transaction.perform_time,
+        cancel_time: transaction.cancel_time,
+        transaction: transaction.transaction,
+        state: transaction.state,
+        reason: transaction.reason ?? null,
+        receivers: transaction.receivers ?? null
+      }));
+  }
+
+  /**
+   * Cancel created transactions older than transaction_timeout with reason 4, as Payme requires
+   * Each one raises payment.cancelled; run it periodically, e.g. with TransactionSweeper
+   * Only transactions that timed out since the last sweep are loaded; the first sweep looks back one more
+   * transaction_timeout, and anything older is cancelled when a webhook touches it
+   * @returns The transactions that were cancelled
+   */
+  async expireStaleTransactions(now = Date.now()): Promise<PaymeTransaction[]> {
+    const until = now - this.config.transaction_timeout;
+    const from = this.sweepFrom ?? until - this.config.transaction_timeout;
+    this.sweepFrom = from;
+    const candidates = await this.store.findByCreateTime(from, until);
+    const expired = candidates.filter(transaction => this.isExpired(transaction, now));
+
+    for (const transaction of expired) {
+      await this.expire(transaction, null, now);
+    }
+    this.sweepFrom = Math.max(from, until);
+    return expired;
   }
 
   /**
    * Handle Payme webhook requests
    */
-  async handleWebhook(request: PaymeWebhookRequest): Promise<PaymeWebhookResponse> {
+  async handleWebhook(request: PaymeWebhookRequest, context?: WebhookContext): Promise<PaymeWebhookResponse> {
+    const correlation_id = context?.correlation_id ?? randomUUID();
+    const fields = { correlation_id, method: request.method, id: request.id };
+    const labels = { provider: 'payme', method: WEBHOOK_METHODS.has(request.method) ? request.method : 'unknown' };
+    const order_id = request.params?.account?.[this.config.account_field];
+    const span = this.instrumentation.startSpan('webhook', {
+      ...labels,
+      order_id: order_id !== undefined ? String(order_id) : undefined,
+      correlation_id
+    });
+    const startedAt = Date.now();
+    let error_code = 'exception';
+    this.logger.info('webhook.received', { ...fields, ip: context?.ip });
+
+    try {
+      const response = await this.dispatchWebhook(request, { ...context, correlation_id });
+      error_code = String(response.error?.code ?? 0);
+      this.logger.info('webhook.handled', {
+        ...fields,
+        error_code: response.error?.code,
+        duration_ms: Date.now() - startedAt
+      });
+      return response;
+    } catch (error) {
+      this.logger.error('webhook.failed', { ...fields, error, duration_ms: Date.now() - startedAt });
+      span.recordError(error);
+      throw error;
+    } finally {
+      this.instrumentation.increment(PAYMENT_METRICS.webhookRequests, { ...labels, error_code });
+      this.instrumentation.observe(PAYMENT_METRICS.webhookDuration, (Date.now() - startedAt) / 1000, labels);
+      span.setAttributes({ error_code });
+      span.end();
+    }
+  }
+
+  private async dispatchWebhook(request: PaymeWebhookRequest, context: WebhookContext): Promise<PaymeWebhookResponse> {
+    const ipRejection = this.security.checkIp(context);
+    if (ipRejection) {
+      return this.reject(request, ipRejection, `Source IP ${context.ip ?? 'unknown'} is not allowed`, context);
+    }
+
     // Verify authorization
     if (!this.verifyWebhookAuthorization(request)) {
-      return {
-        error: {
-          code: PaymeErrorCodes.AuthorizationFailure,
-          message: 'Invalid authorization'
-        }
-      };
+      return this.reject(request, WebhookRejectionReason.InvalidAuthorization, 'Invalid authorization', context);
     }
 
+    if (!this.webhookResponses || request.id === undefined || request.id === null) {
+      return this.routeWebhook(request);
+    }
+
+    // A redelivered request gets the response it got the first time, without running its handler again
+    const key = `payme:${this.config.merchant_id}:webhook:${request.id}:${request.method}`;
+    const fingerprint = fingerprintOf(request.params);
+    const { response, deduplicated } = await this.webhookResponses.dedupe(key, fingerprint, () => this.routeWebhook(request));
+    if (deduplicated) {
+      this.logger.info('webhook.deduplicated', { correlation_id: context.correlation_id, method: request.method, id: request.id });
+    }
+    return response;
+  }
+
+  private async routeWebhook(request: PaymeWebhookRequest): Promise<PaymeWebhookResponse> {
     switch (request.method) {
       case 'CheckPerformTransaction':
         return this.handleCheckPerformTransaction(request);
@@ -238,6 +584,8 @@ export class PaymeProvider implements PaymentProvider {
         return this.handleCheckTransaction(request);
       case 'GetStatement':
         return this.handleGetStatement(request);
+      case 'SetFiscalData':
+        return this.handleSetFiscalData(request);
       default:
         return {
           error: {
@@ -249,14 +597,38 @@ export class PaymeProvider implements PaymentProvider {
   }
 
   /**
-   * Verify Payme webhook authorization
+   * Whether a webhook carries this cashbox's Basic credentials
    */
-  private verifyWebhookAuthorization(request: PaymeWebhookRequest): boolean {
-    const authHeader = request.headers?.['Authorization'];
+  verifyWebhookAuthorization(request: PaymeWebhookRequest): boolean {
+    const headerName = Object.keys(request.headers ?? {})
+      .find(name => name.toLowerCase() === 'authorization');
+    const authHeader = headerName ? request.headers![headerName] : undefined;
     if (!authHeader?.startsWith('Basic ')) return false;
 
     const token = authHeader.slice(6); // Remove 'Basic ' prefix
-    return token === this.authorization;
+    return safeCompare(token, this.authorization);
+  }
+
+  /**
+   * Report a rejected webhook and build the response Payme expects
+   */
+  private async reject(
+    request: PaymeWebhookRequest,
+    reason: WebhookRejectionReason,
+    message: string,
+    context: WebhookContext
+  ): Promise<PaymeWebhookResponse> {
+    const rejection = { provider: 'payme' as const, reason, message, ip: context.ip };
+    this.logger.warn('webhook.rejected', {
+      correlation_id: context.correlation_id,
+      reason,
+      error: message,
+      ip: context.ip,
+      request: { ...this.rawRequest(request), headers: request.headers }
+    });
+    this.onWebhookRejected?.(rejection);
+    await this.events.emit('webhook.rejected', { ...rejection, raw: this.rawRequest(request) });
+    return this.errorResponse(PaymeErrorCodes.AuthorizationFailure, message);
   }
 
   /**
@@ -264,67 +636,159 @@ export class PaymeProvider implements PaymentProvider {
    */
   private async handleCheckPerformTransaction(request: PaymeWebhookRequest): Promise<PaymeWebhookResponse> {
     const { amount, account } = request.params;
-    
-    // Implement your business logic here
-    // For example, check if the order exists and the amount is correct
-    
+
+    const { rejection, order } = await this.validateOrder(amount, account);
+    if (rejection) {
+      return rejection;
+    }
+
     return {
       result: {
-        allow: true
+        allow: true,
+        ...(order?.receipt && { detail: toPaymeReceiptDetail(order.receipt) })
       }
     };
   }
 
   /**
    * Handle create transaction webhook
+   * Idempotent per Payme transaction id; a second transaction for the same order is rejected
    */
   private async handleCreateTransaction(request: PaymeWebhookRequest): Promise<PaymeWebhookResponse> {
     const { id, time, amount, account } = request.params;
-    
-    // Implement your business logic here
-    // For example, create a new transaction in your database
-    
+    if (!id || amount === undefined) {
+      return this.errorResponse(PaymeErrorCodes.InvalidRequest, 'Missing transaction parameters');
+    }
+
+    const existing = await this.store.get(id);
+    if (existing) {
+      if (existing.state !== PaymeTransactionState.Created) {
+        return this.errorResponse(PaymeErrorCodes.CantPerformTransaction, 'Transaction is not in created state');
+      }
+      if (this.isExpired(existing)) {
+        await this.expire(existing, request);
+        return this.errorResponse(PaymeErrorCodes.CantPerformTransaction, 'Transaction has expired');
+      }
+
+      return {
+        result: {
+          create_time: existing.create_time,
+          transaction: existing.transaction,
+          state: existing.state,
+          ...(existing.receivers && { receivers: existing.receivers })
+        }
+      };
+    }
+
+    const { rejection, order } = await this.validateOrder(amount, account);
+    if (rejection) {
+      return rejection;
+    }
+
+    const order_id = String(account![this.config.account_field]);
+    const orderTransactions = await this.store.findByOrderId(order_id);
+    const hasActive = orderTransactions.some(transaction =>
+      transaction.state === PaymeTransactionState.Created ||
+      transaction.state === PaymeTransactionState.Completed
+    );
+    if (hasActive) {
+      return this.errorResponse(
+        PaymeErrorCodes.TransactionAlreadyExists,
+        'Another transaction exists for this order',
+        this.config.account_field
+      );
+    }
+
+    const transaction: PaymeTransaction = {
+      id,
+      transaction: randomUUID(),
+      order_id,
+      account: account!,
+      amount,
+      time: time ?? Date.now(),
+      state: PaymeTransactionState.Created,
+      create_time: Date.now(),
+      perform_time: 0,
+      cancel_time: 0,
+      reason: null,
+      receivers: order?.receivers ?? null
+    };
+    await this.store.save(transaction);
+    await this.emitPaymentEvent('payment.created', transaction, request);
+
     return {
       result: {
-        create_time: Date.now(),
-        transaction: id,
-        state: PaymeTransactionState.Created
+        create_time: transaction.create_time,
+        transaction: transaction.transaction,
+        state: transaction.state,
+        ...(transaction.receivers && { receivers: transaction.receivers })
       }
     };
   }
 
   /**
    * Handle perform transaction webhook
+   * Moves a created transaction to completed exactly once; an expired one is cancelled with reason 4 instead
    */
   private async handlePerformTransaction(request: PaymeWebhookRequest): Promise<PaymeWebhookResponse> {
-    const { id } = request.params;
-    
-    // Implement your business logic here
-    // For example, mark the transaction as completed in your database
-    
+    const transaction = await this.findTransaction(request);
+    if (!transaction) {
+      return this.errorResponse(PaymeErrorCodes.TransactionNotFound, 'Transaction not found');
+    }
+
+    if (this.isExpired(transaction)) {
+      await this.expire(transaction, request);
+      return this.errorResponse(PaymeErrorCodes.CantPerformTransaction, 'Transaction has expired');
+    }
+
+    if (transaction.state === PaymeTransactionState.Created) {
+      transaction.state = PaymeTransactionState.Completed;
+      transaction.perform_time = Date.now();
+      await this.store.save(transaction);
+      await this.emitPaymentEvent('payment.completed', transaction, request);
+    } else if (transaction.state !== PaymeTransactionState.Completed) {
+      return this.errorResponse(PaymeErrorCodes.CantPerformTransaction, 'Transaction is cancelled');
+    }
+
     return {
       result: {
-        transaction: id,
-        perform_time: Date.now(),
-        state: PaymeTransactionState.Completed
+        transaction: transaction.transaction,
+        perform_time: transaction.perform_time,
+        state: transaction.state
       }
     };
   }
 
   /**
    * Handle cancel transaction webhook
+   * Created transactions become -1, completed ones become -2
    */
   private async handleCancelTransaction(request: PaymeWebhookRequest): Promise<PaymeWebhookResponse> {
-    const { id, reason } = request.params;
-    
-    // Implement your business logic here
-    // For example, mark the transaction as cancelled in your database
-    
+    const { reason } = request.params;
+    const transaction = await this.findTransaction(request);
+    if (!transaction) {
+      return this.errorResponse(PaymeErrorCodes.TransactionNotFound, 'Transaction not found');
+    }
+
+    if (
+      transaction.state === PaymeTransactionState.Created ||
+      transaction.state === PaymeTransactionState.Completed
+    ) {
+      const wasCompleted = transaction.state === PaymeTransactionState.Completed;
+      transaction.state = wasCompleted
+        ? PaymeTransactionState.CancelledAfterComplete
+        : PaymeTransactionState.Cancelled;
+      transaction.cancel_time = Date.now();
+      transaction.reason = reason ?? null;
+      await this.store.save(transaction);
+      await this.emitPaymentEvent(wasCompleted ? 'payment.refunded' : 'payment.cancelled', transaction, request);
+    }
+
     return {
       result: {
-        transaction: id,
-        cancel_time: Date.now(),
-        state: PaymeTransactionState.Cancelled
+        transaction: transaction.transaction,
+        cancel_time: transaction.cancel_time,
+        state: transaction.state
       }
     };
   }
@@ -333,19 +797,19 @@ export class PaymeProvider implements PaymentProvider {
    * Handle check transaction webhook
    */
   private async handleCheckTransaction(request: PaymeWebhookRequest): Promise<PaymeWebhookResponse> {
-    const { id } = request.params;
-    
-    // Implement your business logic here
-    // For example, get transaction details from your database
-    
+    const transaction = await this.findTransaction(request);
+    if (!transaction) {
+      return this.errorResponse(PaymeErrorCodes.TransactionNotFound, 'Transaction not found');
+    }
+
     return {
       result: {
-        create_time: Date.now(),
-        perform_time: Date.now(),
-        cancel_time: null,
-        transaction: id,
-        state: PaymeTransactionState.Created,
-        reason: null
+        create_time: transaction.create_time,
+        perform_time: transaction.perform_time,
+        cancel_time: transaction.cancel_time,
+        transaction: transaction.transaction,
+        state: transaction.state,
+        reason: transaction.reason
       }
     };
   }
@@ -355,17 +819,189 @@ export class PaymeProvider implements PaymentProvider {
    */
   private async handleGetStatement(request: PaymeWebhookRequest): Promise<PaymeWebhookResponse> {
     const { from, to } = request.params;
-    
-    // Implement your business logic here
-    // For example, get transactions within the date range from your database
-    
+    if (typeof from !== 'number' || typeof to !== 'number' || from > to) {
+      return this.errorResponse(PaymeErrorCodes.InvalidRequest, 'Missing or invalid statement period');
+    }
+
     return {
       result: {
-        transactions: []
+        transactions: await this.getStatement(from, to)
       }
     };
   }
 
+  /**
+   * Handle set fiscal data webhook
+   * Forwards the registered receipt to the merchant's onFiscalData hook
+   */
+  private async handleSetFiscalData(request: PaymeWebhookRequest): Promise<PaymeWebhookResponse> {
+    const { type, fiscal_data } = request.params;
+    if ((type !== 'PERFORM' && type !== 'CANCEL') || !fiscal_data) {
+      return this.errorResponse(PaymeErrorCodes.InvalidRequest, 'Missing fiscal data');
+    }
+
+    const transaction = await this.findTransaction(request);
+    if (!transaction) {
+      return this.errorResponse(PaymeErrorCodes.TransactionNotFound, 'Transaction not found');
+    }
+
+    await this.onFiscalData?.({
+      transaction: transaction.id,
+      order_id: transaction.order_id,
+      type,
+      fiscal_data
+    });
+
+    return {
+      result: {
+        success: true
+      }
+    };
+  }
+
+  /**
+   * Validate the webhook amount and account against the merchant's order
+   * Returns an error response, or the order (when a findOrder hook is set) if it can be paid
+   */
+  private async validateOrder(
+    amount: number | undefined,
+    account: PaymeAccount | undefined
+  ): Promise<{ rejection?: PaymeWebhookResponse; order?: PaymeOrderInfo }> {
+    const field = this.config.account_field;
+    if (account?.[field] === undefined || account[field] === '') {
+      return { rejection: this.errorResponse(PaymeErrorCodes.InvalidAccount, 'Order not found', field) };
+    }
+    if (amount === undefined || !Number.isInteger(amount) || amount <= 0) {
+      return { rejection: this.errorResponse(PaymeErrorCodes.InvalidAmount, 'Invalid amount') };
+    }
+
+    // Without a hook every order is accepted as-is
+    if (!this.findOrder) return {};
+
+    const order = await this.findOrder(account);
+    if (!order) {
+      return { rejection: this.errorResponse(PaymeErrorCodes.InvalidAccount, 'Order not found', field) };
+    }
+    if (order.error_code !== undefined) {
+      if (order.error_code > PaymeErrorCodes.InvalidAccount || order.error_code < -31099) {
+        throw new Error(`error_code must be in the -31050..-31099 range, got ${order.error_code}`);
+      }
+      return { rejection: this.errorResponse(order.error_code, 'Order cannot be paid', field) };
+    }
+    if (!order.amount.equals(Money.fromTiyin(amount))) {
+      return { rejection: this.errorResponse(PaymeErrorCodes.InvalidAmount, 'Invalid amount') };
+    }
+    if (order.payable === false) {
+      return { rejection: this.errorResponse(PaymeErrorCodes.CantPerformTransaction, 'Order cannot be paid') };
+    }
+    // A receipt or split that does not add up is a merchant bug, surfaced as an internal error
+    if (order.receipt) {
+      assertFiscalReceipt(order.receipt, order.amount);
+    }
+    if (order.receivers) {
+      const split = order.receivers.reduce((sum, receiver) => sum + receiver.amount, 0);
+      if (split !== amount) {
+        throw new Error(`receivers must add up to the transaction amount of ${amount} tiyin, got ${split}`);
+      }
+    }
+
+    return { order };
+  }
+
+  /**
+   * Emit a payment event for a stored transaction
+   */
+  private emitPaymentEvent(
+    event: Exclude<PaymentEventName, 'webhook.rejected'>,
+    transaction: PaymeTransaction,
+    request: PaymeWebhookRequest | null
+  ): Promise<void> {
+    return this.events.emit(event, {
+      provider: 'payme',
+      order_id: transaction.order_id,
+      transaction_id: transaction.id,
+      amount: Money.fromTiyin(transaction.amount),
+      reason: transaction.reason,
+      raw: request ? this.rawRequest(request) : null
+    });
+  }
+
+  /**
+   * Webhook request as passed to event listeners; headers carry credentials and are left out
+   */
+  private rawRequest(request: PaymeWebhookRequest): Omit<PaymeWebhookRequest, 'headers'> {
+    return { method: request.method, params: request.params, id: request.id };
+  }
+
+  /**
+   * Look up the stored transaction referenced by a webhook request
+   */
+  private async findTransaction(request: PaymeWebhookRequest): Promise<PaymeTransaction | null> {
+    const { id } = request.params;
+    return id ? this.store.get(id) : null;
+  }
+
+  /**
+   * Build a Payme error response
+   */
+  private errorResponse(code: PaymeErrorCodes | number, message: string, data?: unknown): PaymeWebhookResponse {
+    return {
+      error: {
+        code,
+        message,
+        ...(data !== undefined && { data })
+      }
+    };
+  }
+
+  /**
+   * Check an order amount against Payme's currency and limits
+   */
+  private validateAmount(amount: Money): ValidationError | null {
+    if (amount.currency !== 'UZS') {
+      return new ValidationError('INVALID_CURRENCY', `Payme only accepts UZS, got ${amount.currency}`, 'amount');
+    }
+    if (!amount.isBetween(PAYME_AMOUNT_LIMITS.min, PAYME_AMOUNT_LIMITS.max)) {
+      return new ValidationError(
+        'INVALID_AMOUNT',
+        `Payme amount must be between ${PAYME_AMOUNT_LIMITS.min} and ${PAYME_AMOUNT_LIMITS.max}, got ${amount}`,
+        'amount'
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Account fields of the order's checkout: the order id under account_field, plus extra_params
+   */
+  private checkoutAccount(order: PaymentOrder): Record<string, string> {
+    if (order.extra_params && this.config.account_field in order.extra_params) {
+      throw new ValidationError(
+        'INVALID_CHECKOUT_PARAMS',
+        `extra_params must not override the account field ${this.config.account_field}`,
+        'extra_params'
+      );
+    }
+    return { [this.config.account_field]: order.id, ...order.extra_params };
+  }
+
+  /**
+   * Check the order's fiscal receipt, if any, against the order amount
+   */
+  private validateReceipt(order: PaymentOrder): ValidationError | null {
+    if (!order.receipt) return null;
+    try {
+      assertFiscalReceipt(order.receipt, order.amount);
+      return null;
+    } catch (error) {
+      return new ValidationError(
+        'INVALID_RECEIPT',
+        error instanceof Error ? error.message : 'Invalid fiscal receipt',
+        'receipt'
+      );
+    }
+  }
+
   /**
    * Map Payme status to PaymentVerifyResult status
    */
@@ -376,22 +1012,37 @@ export class PaymeProvider implements PaymentProvider {
       case PaymeTransactionState.Created:
         return 'pending';
       case PaymeTransactionState.Cancelled:
-      case PaymeTransactionState.CancelledAfterComplete:
         return 'cancelled';
+      case PaymeTransactionState.CancelledAfterComplete:
+        return 'refunded';
       default:
         return 'failed';
     }
   }
 
   /**
-   * Check if transaction has expired
+   * A created transaction expires transaction_timeout ms after it was created
+   */
+  private isExpired(transaction: PaymeTransaction, now = Date.now()): boolean {
+    return transaction.state === PaymeTransactionState.Created
+      && now - transaction.create_time > this.config.transaction_timeout;
+  }
+
+  /**
+   * Cancel an expired transaction with reason 4
+   * @param request - Webhook that found it expired; null when swept
    */
-  private checkTransactionExpiration(createdAt: Date): boolean {
-    const timeoutDuration = 720; // 12 hours in minutes
-    const timeoutThreshold = DateTime.now()
-      .minus({ minutes: timeoutDuration })
-      .toJSDate();
+  private async expire(transaction: PaymeTransaction, request: PaymeWebhookRequest | null, now = Date.now()): Promise<void> {
+    transaction.state = PaymeTransactionState.Cancelled;
+    transaction.cancel_time = now;
+    transaction.reason = PaymeCancelReason.TransactionTimeout;
+    await this.store.save(transaction);
 
-    return createdAt < timeoutThreshold;
+    this.logger.info('payment.expired', {
+      provider: 'payme',
+      transaction_id: transaction.id,
+      order_id: transaction.order_id
+    });
+    await this.emitPaymentEvent('payment.cancelled', transaction, request);
   }
 }
@@ -0,0 +1,235 @@
+import { NetworkError, PaymentFailure, toPaymentError } from '../errors/payment.error';
+import { ClickMerchantErrorCodes } from '../interfaces/click-merchant.interface';
+import { ClickTransactionState } from '../interfaces/click.interface';
+import { PaymentProvider, PaymentVerifyResult } from '../interfaces/payment.interface';
+import { PaymeErrorCodes, PaymeTransactionState } from '../interfaces/payme.interface';
+import {
+  Discrepancy,
+  ReconciliationEntry,
+  ReconciliationOptions,
+  ReconciliationReport,
+  ReconciliationStatus,
+} from '../interfaces/reconciliation.interface';
+import { ClickTransaction, PaymeTransaction, TransactionStore } from '../interfaces/transaction.interface';
+import { ClickProvider } from '../providers/click.provider';
+import { PaymeProvider } from '../providers/payme.provider';
+import { Money } from '../utils/money';
+import { refundStatus } from '../utils/refund.ledger';
+
+/**
+ * Compares stored transactions of a period with their state at the gateway
+ * Every local transaction is checked with verifyPayment, a few at a time
+ */
+export class PaymentReconciler {
+  private readonly concurrency: number;
+
+  /**
+   * @param options.concurrency - verifyPayment calls in flight at once (default: 5)
+   */
+  constructor(options: { concurrency?: number } = {}) {
+    this.concurrency = options.concurrency ?? 5;
+  }
+
+  /**
+   * Reconcile Payme transactions created in the period
+   * @param store - The store the provider writes its webhook state to
+   */
+  async reconcilePayme(
+    provider: PaymeProvider,
+    store: TransactionStore<PaymeTransaction>,
+    options: ReconciliationOptions
+  ): Promise<ReconciliationReport> {
+    const records = await store.findByCreateTime(options.from, options.to);
+    const report = await this.reconcile(
+      'payme',
+      provider,
+      records.map(paymeEntry),
+      options,
+      error => error.kind === 'gateway' && error.gateway_code === PaymeErrorCodes.TransactionNotFound
+    );
+
+    return { ...report, statement: await provider.getStatement(options.from, options.to) };
+  }
+
+  /**
+   * Reconcile Click orders prepared in the period
+   * Click is verified per order, so each order is represented by its confirmed record, or else its latest one;
+   * refunds the provider recorded for a confirmed order are reflected in its local status
+   * @param store - The store the provider writes its webhook state to
+   */
+  async reconcileClick(
+    provider: ClickProvider,
+    store: TransactionStore<ClickTransaction>,
+    options: ReconciliationOptions
+  ): Promise<ReconciliationReport> {
+    const records = await store.findByCreateTime(options.from, options.to);
+
+    const orders = new Map<string, ClickTransaction>();
+    for (const record of records) {
+      const current = orders.get(record.order_id);
+      if (!current || isPreferredClickRecord(record, current)) {
+        orders.set(record.order_id, record);
+      }
+    }
+
+    const entries = await Promise.all([...orders.values()].map(async record => {
+      const entry = clickEntry(record);
+      if (entry.status !== 'completed') return entry;
+
+      const refunds = await provider.getRefunds(record.order_id);
+      const refunded = refunds
+        .filter(refund => refund.status === 'succeeded')
+        .reduce((sum, refund) => sum.add(Money.fromTiyin(refund.amount)), Money.zero());
+      return { ...entry, status: refundStatus(entry.amount, refunded) };
+    }));
+
+    return this.reconcile(
+      'click',
+      provider,
+      entries,
+      options,
+      error => error.kind === 'gateway' && error.gateway_code === ClickMerchantErrorCodes.PaymentNotFound
+    );
+  }
+
+  /**
+   * Reconcile local entries against any provider's verifyPayment
+   * @param isNotFound - Tells a payment unknown to the gateway apart from other verify failures
+   */
+  async reconcile(
+    provider: string,
+    verifier: Pick<PaymentProvider, 'verifyPayment'>,
+    local: ReconciliationEntry[],
+    options: ReconciliationOptions,
+    isNotFound: (error: PaymentFailure) => boolean
+  ): Promise<ReconciliationReport> {
+    const report: ReconciliationReport = {
+      provider,
+      from: options.from,
+      to: options.to,
+      generated_at: Date.now(),
+      checked: local.length,
+      matched: 0,
+      discrepancies: [],
+      errors: []
+    };
+
+    const results = await mapWithConcurrency(local, options.concurrency ?? this.concurrency, async entry => ({
+      entry,
+      result: await verify(verifier, entry.transaction_id)
+    }));
+
+    for (const { entry, result } of results) {
+      const { transaction_id, order_id } = entry;
+
+      if (!result.success) {
+        const error = result.error ?? new NetworkError('PAYMENT_VERIFY_ERROR', 'Verification failed');
+        if (isNotFound(error)) {
+          report.discrepancies.push({ type: 'missing_at_gateway', transaction_id, order_id, local: entry });
+        } else {
+          report.errors.push({ transaction_id, order_id, error });
+        }
+        continue;
+      }
+
+      const gateway = { status: result.status ?? 'failed', amount: result.paid_amount };
+      const found: Discrepancy[] = [];
+      if (gateway.status !== entry.status) {
+        found.push({ type: 'status_mismatch', transaction_id, order_id, local: entry, gateway });
+      }
+      if (gateway.amount && !gateway.amount.equals(entry.amount)) {
+        found.push({ type: 'amount_mismatch', transaction_id, order_id, local: entry, gateway });
+      }
+
+      if (found.length === 0) {
+        report.matched++;
+      }
+      report.discrepancies.push(...found);
+    }
+
+    const known = new Set(local.map(entry => entry.transaction_id));
+    for (const entry of options.gateway_entries ?? []) {
+      if (entry.time < options.from || entry.time > options.to || known.has(entry.transaction_id)) continue;
+      report.discrepancies.push({
+        type: 'missing_locally',
+        transaction_id: entry.transaction_id,
+        order_id: entry.order_id,
+        gateway: entry
+      });
+    }
+
+    return report;
+  }
+}
+
+async function verify(
+  verifier: Pick<PaymentProvider, 'verifyPayment'>,
+  transaction_id: string
+): Promise<PaymentVerifyResult> {
+  // Providers in throwing mode reject instead of returning a failed result
+  try {
+    return await verifier.verifyPayment(transaction_id);
+  } catch (error) {
+    return { success: false, status: 'failed', error: toPaymentError(error, 'PAYMENT_VERIFY_ERROR') };
+  }
+}
+
+function paymeEntry(record: PaymeTransaction): ReconciliationEntry {
+  return {
+    transaction_id: record.id,
+    order_id: record.order_id,
+    amount: Money.fromTiyin(record.amount),
+    status: paymeTransactionStatus(record.state),
+    time: record.create_time
+  };
+}
+
+/**
+ * Status of a stored Payme transaction in PaymentVerifyResult terms
+ */
+export function paymeTransactionStatus(state: PaymeTransactionState): ReconciliationStatus {
+  if (state === PaymeTransactionState.Completed) return 'completed';
+  if (state === PaymeTransactionState.Created) return 'pending';
+  if (state === PaymeTransactionState.CancelledAfterComplete) return 'refunded';
+  return 'cancelled';
+}
+
+function clickEntry(record: ClickTransaction): ReconciliationEntry {
+  return {
+    transaction_id: record.order_id,
+    order_id: record.order_id,
+    amount: Money.fromTiyin(record.amount),
+    status: clickTransactionStatus(record.state),
+    time: record.create_time
+  };
+}
+
+/**
+ * Status of a stored Click record in PaymentVerifyResult terms, before any refunds
+ */
+export function clickTransactionStatus(state: ClickTransactionState): ReconciliationStatus {
+  if (state === ClickTransactionState.Confirmed) return 'completed';
+  return state === ClickTransactionState.Cancelled ? 'cancelled' : 'pending';
+}
+
+function isPreferredClickRecord(record: ClickTransaction, current: ClickTransaction): boolean {
+  const confirmed = (transaction: ClickTransaction) => transaction.state === ClickTransactionState.Confirmed;
+  if (confirmed(record) !== confirmed(current)) return confirmed(record);
+  return record.create_time > current.create_time;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  const workers = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,61 @@
+import { ReconciliationReport } from '../interfaces/reconciliation.interface';
+import { formatCsvRow } from '../utils/csv';
+
+const CSV_COLUMNS = [
+  'type',
+  'transaction_id',
+  'order_id',
+  'local_status',
+  'gateway_status',
+  'local_amount',
+  'gateway_amount',
+  'local_time',
+  'gateway_time',
+  'error'
+];
+
+/**
+ * One CSV row per discrepancy, then one row of type 'error' per transaction that could not be verified
+ * Amounts are in so'm with two decimals, times in ISO 8601
+ */
+export function reconciliationReportToCsv(report: ReconciliationReport): string {
+  const rows = [
+    ...report.discrepancies.map(({ type, transaction_id, order_id, local, gateway }) => [
+      type,
+      transaction_id,
+      order_id,
+      local?.status,
+      gateway?.status,
+      local?.amount.toSomString(),
+      gateway?.amount?.toSomString(),
+      isoTime(local?.time),
+      isoTime(gateway?.time),
+      undefined
+    ]),
+    ...report.errors.map(({ transaction_id, order_id, error }) => [
+      'error',
+      transaction_id,
+      order_id,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      `${error.code}: ${error.message}`
+    ])
+  ];
+
+  return [CSV_COLUMNS, ...rows].map(formatCsvRow).join('\r\n') + '\r\n';
+}
+
+/**
+ * The full report as JSON; Money is written as { tiyin, currency } and errors through PaymentError.toJSON
+ */
+export function reconciliationReportToJson(report: ReconciliationReport, space = 2): string {
+  return JSON.stringify(report, null, space);
+}
+
+function isoTime(time: number | undefined): string | undefined {
+  return time ? new Date(time).toISOString() : undefined;
+}
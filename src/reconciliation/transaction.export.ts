@@ -0,0 +1,155 @@
+import { ValidationError } from '../errors/payment.error';
+import {
+  TransactionExportFormat,
+  TransactionExportOptions,
+  TransactionExportRow,
+} from '../interfaces/reconciliation.interface';
+import { ClickTransaction, PaymeTransaction, TransactionStore } from '../interfaces/transaction.interface';
+import { iterateByCreateTime } from '../stores/store.pagination';
+import { formatCsvRow } from '../utils/csv';
+import { Money } from '../utils/money';
+import { streamXlsx, XlsxCell } from '../utils/xlsx.writer';
+import { clickTransactionStatus, paymeTransactionStatus } from './payment.reconciler';
+
+const EXPORT_COLUMNS = [
+  'provider',
+  'id',
+  'transaction',
+  'order_id',
+  'amount',
+  'status',
+  'state',
+  'create_time',
+  'perform_time',
+  'cancel_time',
+  'reason',
+  'account',
+  'receivers'
+];
+
+/**
+ * HTTP Content-Type and file extension of each export format
+ */
+export const TRANSACTION_EXPORT_FORMATS: Record<TransactionExportFormat, { content_type: string; extension: string }> = {
+  csv: { content_type: 'text/csv; charset=utf-8', extension: 'csv' },
+  jsonl: { content_type: 'application/x-ndjson', extension: 'jsonl' },
+  xlsx: { content_type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' }
+};
+
+/**
+ * Payme transactions created in the period, oldest first, read from the store a page at a time
+ */
+export async function* paymeExportRows(
+  store: TransactionStore<PaymeTransaction>,
+  options: TransactionExportOptions
+): AsyncGenerator<TransactionExportRow> {
+  assertValidPeriod(options);
+
+  for await (const record of iterateByCreateTime(store, options.from, options.to, options.page_size)) {
+    yield {
+      provider: 'payme',
+      id: record.id,
+      transaction: record.transaction,
+      order_id: record.order_id,
+      amount: record.amount,
+      status: paymeTransactionStatus(record.state),
+      state: record.state,
+      create_time: record.create_time,
+      perform_time: record.perform_time,
+      cancel_time: record.cancel_time,
+      reason: record.reason ?? null,
+      account: record.account,
+      receivers: record.receivers ?? null
+    };
+  }
+}
+
+/**
+ * Click Prepare records created in the period, oldest first, read from the store a page at a time
+ */
+export async function* clickExportRows(
+  store: TransactionStore<ClickTransaction>,
+  options: TransactionExportOptions
+): AsyncGenerator<TransactionExportRow> {
+  assertValidPeriod(options);
+
+  for await (const record of iterateByCreateTime(store, options.from, options.to, options.page_size)) {
+    yield {
+      provider: 'click',
+      id: record.id,
+      transaction: record.click_trans_id,
+      order_id: record.order_id,
+      amount: record.amount,
+      status: clickTransactionStatus(record.state),
+      state: record.state,
+      create_time: record.create_time,
+      perform_time: record.confirm_time,
+      cancel_time: record.cancel_time,
+      reason: null,
+      account: null,
+      receivers: null
+    };
+  }
+}
+
+/**
+ * Serialize export rows as they arrive, e.g. Readable.from(exportTransactions(rows, 'csv')).pipe(res)
+ * In csv and xlsx, amounts are in so'm and times in ISO 8601; jsonl keeps tiyin and ms
+ */
+export async function* exportTransactions(
+  rows: AsyncIterable<TransactionExportRow> | Iterable<TransactionExportRow>,
+  format: TransactionExportFormat
+): AsyncGenerator<Buffer> {
+  switch (format) {
+    case 'csv':
+      yield Buffer.from(formatCsvRow(EXPORT_COLUMNS) + '\r\n');
+      for await (const row of rows) {
+        yield Buffer.from(formatCsvRow(tableRow(row, amount => amount.toSomString())) + '\r\n');
+      }
+      return;
+    case 'jsonl':
+      for await (const row of rows) {
+        yield Buffer.from(JSON.stringify(row) + '\n');
+      }
+      return;
+    case 'xlsx':
+      yield* streamXlsx(EXPORT_COLUMNS, mapRows(rows, row => tableRow(row, amount => amount.toSom())), 'Transactions');
+      return;
+    default:
+      throw new ValidationError('INVALID_EXPORT_FORMAT', `Unknown export format '${format}'`, 'format');
+  }
+}
+
+function tableRow(row: TransactionExportRow, amount: (value: Money) => XlsxCell): XlsxCell[] {
+  return [
+    row.provider,
+    row.id,
+    row.transaction,
+    row.order_id,
+    amount(Money.fromTiyin(row.amount)),
+    row.status,
+    row.state,
+    isoTime(row.create_time),
+    isoTime(row.perform_time),
+    isoTime(row.cancel_time),
+    row.reason,
+    row.account ? JSON.stringify(row.account) : undefined,
+    row.receivers ? JSON.stringify(row.receivers) : undefined
+  ];
+}
+
+async function* mapRows<T, R>(rows: AsyncIterable<T> | Iterable<T>, fn: (row: T) => R): AsyncGenerator<R> {
+  for await (const row of rows) {
+    yield fn(row);
+  }
+}
+
+function isoTime(time: number): string | undefined {
+  return time ? new Date(time).toISOString() : undefined;
+}
+
+function assertValidPeriod(options: TransactionExportOptions): void {
+  if (!Number.isFinite(options.from) || !Number.isFinite(options.to) || options.from > options.to) {
+    throw new ValidationError('INVALID_PERIOD', `Invalid export period ${options.from}..${options.to}`, 'from');
+  }
+}
@@ -0,0 +1,97 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import {
+  ClickErrorCodes,
+  ClickWebhookHandler,
+  ClickWebhookRequest,
+  ClickWebhookResponse
+} from '../interfaces/click.interface';
+
+const REQUIRED_FIELDS = [
+  'click_trans_id',
+  'service_id',
+  'click_paydoc_id',
+  'merchant_trans_id',
+  'amount',
+  'action',
+  'sign_time',
+  'sign_string'
+] as const;
+
+/**
+ * Create an Express router that serves Click Prepare/Complete webhooks
+ * Click posts application/x-www-form-urlencoded bodies to the same URL for both actions:
+ * app.use('/webhooks/click', createClickWebhookRouter(clickProvider))
+ * Pass MerchantRegistry.clickWebhooks instead to serve several services from one endpoint
+ */
+export function createClickWebhookRouter(provider: ClickWebhookHandler): Router {
+  const router = Router();
+
+  router.post(
+    '/',
+    express.urlencoded({ extended: false }),
+    express.json(),
+    async (req: Request, res: Response) => {
+      const body = req.body ?? {};
+
+      const missing = REQUIRED_FIELDS.filter(field => body[field] === undefined || body[field] === '');
+      if (missing.length > 0) {
+        return sendResponse(res, toErrorResponse(body, `Missing parameters: ${missing.join(', ')}`));
+      }
+
+      const request = toWebhookRequest(body);
+      if (Number.isNaN(request.amount) || (request.action !== 0 && request.action !== 1)) {
+        return sendResponse(res, toErrorResponse(body, 'Invalid amount or action'));
+      }
+
+      try {
+        sendResponse(res, await provider.handleWebhook(request, { ip: req.ip, correlation_id: req.get('x-request-id') }));
+      } catch {
+        // The provider logged the failure as webhook.failed; its message may carry store or driver details
+        sendResponse(res, toErrorResponse(body, 'Internal error'));
+      }
+    }
+  );
+
+  // Body parser failures never reach the handler above
+  router.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+    sendResponse(res, toErrorResponse({}, 'Malformed request body'));
+  });
+
+  return router;
+}
+
+/**
+ * Coerce Click's form fields to the types used by ClickWebhookRequest
+ */
+function toWebhookRequest(body: Record<string, string>): ClickWebhookRequest {
+  return {
+    click_trans_id: String(body.click_trans_id),
+    service_id: String(body.service_id),
+    click_paydoc_id: String(body.click_paydoc_id),
+    merchant_trans_id: String(body.merchant_trans_id),
+    merchant_prepare_id: body.merchant_prepare_id !== undefined ? String(body.merchant_prepare_id) : undefined,
+    amount: Number(body.amount),
+    action: Number(body.action) as ClickWebhookRequest['action'],
+    error: Number(body.error ?? 0),
+    error_note: String(body.error_note ?? ''),
+    sign_time: String(body.sign_time),
+    sign_string: String(body.sign_string),
+    raw: body
+  };
+}
+
+function toErrorResponse(body: Record<string, string>, error_note: string): ClickWebhookResponse {
+  return {
+    click_trans_id: Number(body.click_trans_id) || 0,
+    merchant_trans_id: String(body.merchant_trans_id ?? ''),
+    error: ClickErrorCodes.BadRequest,
+    error_note
+  };
+}
+
+/**
+ * Click expects HTTP 200 with the JSON body, even for errors
+ */
+function sendResponse(res: Response, response: ClickWebhookResponse): void {
+  res.status(200).json(response);
+}
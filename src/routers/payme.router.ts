@@ -0,0 +1,66 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import {
+  PaymeErrorCodes,
+  PaymeWebhookHandler,
+  PaymeWebhookRequest,
+  PaymeWebhookResponse
+} from '../interfaces/payme.interface';
+
+/**
+ * Create an Express router that serves Payme JSON-RPC webhooks
+ * Mount it on the endpoint registered in the Payme merchant cabinet:
+ * app.use('/webhooks/payme', createPaymeWebhookRouter(paymeProvider))
+ * Pass MerchantRegistry.paymeWebhooks instead to serve several cashboxes from one endpoint
+ */
+export function createPaymeWebhookRouter(provider: PaymeWebhookHandler): Router {
+  const router = Router();
+
+  router.post('/', express.json(), async (req: Request, res: Response) => {
+    const body = req.body;
+    const id = body?.id ?? null;
+
+    if (!body || typeof body.method !== 'string' || typeof body.params !== 'object' || body.params === null) {
+      return sendResponse(res, id, {
+        error: {
+          code: PaymeErrorCodes.InvalidRequest,
+          message: 'Invalid JSON-RPC request'
+        }
+      });
+    }
+
+    const request: PaymeWebhookRequest = {
+      method: body.method,
+      params: body.params,
+      id,
+      headers: {
+        Authorization: req.get('authorization') ?? ''
+      }
+    };
+
+    try {
+      sendResponse(res, id, await provider.handleWebhook(request, { ip: req.ip, correlation_id: req.get('x-request-id') }));
+    } catch {
+      // The provider logged the failure as webhook.failed; its message may carry store or driver details
+      sendResponse(res, id, { error: { code: PaymeErrorCodes.InternalError, message: 'Internal error' } });
+    }
+  });
+
+  // Body parser failures never reach the handler above
+  router.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+    sendResponse(res, null, {
+      error: {
+        code: error instanceof SyntaxError ? PaymeErrorCodes.ParseError : PaymeErrorCodes.InternalError,
+        message: error instanceof SyntaxError ? 'Parse error' : 'Internal error'
+      }
+    });
+  });
+
+  return router;
+}
+
+/**
+ * Payme expects HTTP 200 with the JSON-RPC id echoed back, even for errors
+ */
+function sendResponse(res: Response, id: PaymeWebhookResponse['id'], response: PaymeWebhookResponse): void {
+  res.status(200).json({ ...response, id });
+}
@@ -0,0 +1,32 @@
+import { IdempotencyStore } from '../interfaces/idempotency.interface';
+
+/**
+ * In-memory idempotency store
+ * Values are copied through JSON, as an external store would; expired entries are dropped as new ones arrive
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, { value: string; expires_at: number }>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expires_at <= Date.now()) return null;
+    return JSON.parse(entry.value) as T;
+  }
+
+  async set<T>(key: string, value: T, ttl_ms: number): Promise<void> {
+    const now = Date.now();
+    this.prune(now);
+
+    // Re-insert so iteration order stays expiry order
+    this.entries.delete(key);
+    this.entries.set(key, { value: JSON.stringify(value), expires_at: now + ttl_ms });
+  }
+
+  private prune(now: number): void {
+    // Insertion order is expiry order as long as one ttl is used; get() skips anything left behind
+    for (const [key, entry] of this.entries) {
+      if (entry.expires_at > now) break;
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { promises as fs } from 'fs';
+import { StoredTransaction, TransactionPage, TransactionStore } from '../interfaces/transaction.interface';
+import { pageByCreateTime } from './store.pagination';
+
+/**
+ * Transaction store persisted to a single JSON file
+ * The file is loaded lazily and rewritten after every save
+ */
+export class JsonFileTransactionStore<T extends StoredTransaction> implements TransactionStore<T> {
+  private records: Map<string, T> | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(id: string): Promise<T | null> {
+    const records = await this.load();
+    const record = records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async findByOrderId(order_id: string): Promise<T[]> {
+    return this.filter(record => record.order_id === order_id);
+  }
+
+  async findByCreateTime(from: number, to: number): Promise<T[]> {
+    return this.filter(record => record.create_time >= from && record.create_time <= to);
+  }
+
+  async listByCreateTime(from: number, to: number, options: { limit: number; cursor?: string }): Promise<TransactionPage<T>> {
+    return pageByCreateTime((await this.load()).values(), from, to, options);
+  }
+
+  async save(record: T): Promise<void> {
+    const records = await this.load();
+    records.set(record.id, { ...record });
+
+    // Serialize writes so concurrent saves never interleave on disk
+    const write = this.pending.then(() => this.flush(records));
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  private async filter(predicate: (record: T) => boolean): Promise<T[]> {
+    const records = await this.load();
+    return Array.from(records.values())
+      .filter(predicate)
+      .map(record => ({ ...record }));
+  }
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.records) return this.records;
+
+    let entries: T[] = [];
+    try {
+      entries = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Another call may have finished loading while we were reading
+    if (!this.records) {
+      this.records = new Map(entries.map(entry => [entry.id, entry]));
+    }
+    return this.records;
+  }
+
+  private async flush(records: Map<string, T>): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(Array.from(records.values()), null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,37 @@
+import { StoredTransaction, TransactionPage, TransactionStore } from '../interfaces/transaction.interface';
+import { pageByCreateTime } from './store.pagination';
+
+/**
+ * In-memory transaction store
+ * Suitable for tests and single-process setups; data is lost on restart
+ */
+export class InMemoryTransactionStore<T extends StoredTransaction> implements TransactionStore<T> {
+  private readonly records = new Map<string, T>();
+
+  async get(id: string): Promise<T | null> {
+    const record = this.records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async findByOrderId(order_id: string): Promise<T[]> {
+    return this.filter(record => record.order_id === order_id);
+  }
+
+  async findByCreateTime(from: number, to: number): Promise<T[]> {
+    return this.filter(record => record.create_time >= from && record.create_time <= to);
+  }
+
+  async listByCreateTime(from: number, to: number, options: { limit: number; cursor?: string }): Promise<TransactionPage<T>> {
+    return pageByCreateTime(this.records.values(), from, to, options);
+  }
+
+  async save(record: T): Promise<void> {
+    this.records.set(record.id, { ...record });
+  }
+
+  private filter(predicate: (record: T) => boolean): T[] {
+    return Array.from(this.records.values())
+      .filter(predicate)
+      .map(record => ({ ...record }));
+  }
+}
@@ -0,0 +1,73 @@
+import { ValidationError } from '../errors/payment.error';
+import { StoredTransaction, TransactionPage, TransactionStore } from '../interfaces/transaction.interface';
+
+/**
+ * Records created in [from, to] a page at a time, ordered by create_time, then id
+ * Uses the store's listByCreateTime when it has one, otherwise loads the period with findByCreateTime
+ * @param page_size - Records fetched per call (default: 500)
+ */
+export async function* iterateByCreateTime<T extends StoredTransaction>(
+  store: TransactionStore<T>,
+  from: number,
+  to: number,
+  page_size = 500
+): AsyncGenerator<T> {
+  if (!store.listByCreateTime) {
+    yield* sortByCreateTime(await store.findByCreateTime(from, to));
+    return;
+  }
+
+  let cursor: string | undefined;
+  do {
+    const page = await store.listByCreateTime(from, to, { limit: page_size, cursor });
+    yield* page.records;
+    cursor = page.cursor;
+  } while (cursor);
+}
+
+/**
+ * Cut one page of listByCreateTime out of records already in memory
+ * Cursors are '<create_time>:<id>' of the last record returned, so saves between pages do not shift them
+ */
+export function pageByCreateTime<T extends StoredTransaction>(
+  records: Iterable<T>,
+  from: number,
+  to: number,
+  options: { limit: number; cursor?: string }
+): TransactionPage<T> {
+  if (!Number.isInteger(options.limit) || options.limit <= 0) {
+    throw new ValidationError('INVALID_PAGE_SIZE', `limit must be a positive integer, got ${options.limit}`, 'limit');
+  }
+  const after = options.cursor !== undefined ? parseCursor(options.cursor) : null;
+
+  const matching = sortByCreateTime(Array.from(records).filter(record =>
+    record.create_time >= from &&
+    record.create_time <= to &&
+    (!after || compareKeys(record, after) > 0)
+  ));
+
+  const page = matching.slice(0, options.limit).map(record => ({ ...record }));
+  const last = page[page.length - 1];
+  return {
+    records: page,
+    cursor: matching.length > options.limit ? `${last.create_time}:${last.id}` : undefined
+  };
+}
+
+function sortByCreateTime<T extends StoredTransaction>(records: T[]): T[] {
+  return records.sort(compareKeys);
+}
+
+function compareKeys(a: Pick<StoredTransaction, 'create_time' | 'id'>, b: Pick<StoredTransaction, 'create_time' | 'id'>): number {
+  if (a.create_time !== b.create_time) return a.create_time - b.create_time;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function parseCursor(cursor: string): Pick<StoredTransaction, 'create_time' | 'id'> {
+  const separator = cursor.indexOf(':');
+  const create_time = Number(cursor.slice(0, separator));
+  if (separator <= 0 || !Number.isFinite(create_time)) {
+    throw new ValidationError('INVALID_CURSOR', `Malformed page cursor '${cursor}'`, 'cursor');
+  }
+  return { create_time, id: cursor.slice(separator + 1) };
+}
@@ -0,0 +1,437 @@
+import axios from 'axios';
+import { createHash, randomUUID } from 'crypto';
+import express, { Request, Response } from 'express';
+import { DateTime } from 'luxon';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import {
+  ClickPaymentScenario,
+  ClickScenarioResult,
+  EmulatorFault,
+  EmulatorRoute,
+  GatewayEmulatorConfig,
+  PaymePaymentScenario,
+  PaymeScenarioResult,
+} from '../interfaces/emulator.interface';
+import {
+  PaymeErrorCodes,
+  PaymeTransactionResult,
+  PaymeTransactionState,
+  PaymeWebhookResponse,
+} from '../interfaces/payme.interface';
+import { ClickWebhookResponse } from '../interfaces/click.interface';
+import { ClickMerchantErrorCodes } from '../interfaces/click-merchant.interface';
+import { clickSignString, paymeBasicToken } from '../utils/webhook.security';
+
+const CLICK_PAYMENT_NOT_FOUND = { error_code: ClickMerchantErrorCodes.PaymentNotFound, error_note: 'Payment not found' };
+
+interface ClickLedgerEntry {
+  payment_id: number;
+  merchant_trans_id: string;
+  amount: number;
+  reversed: number;  // so'm returned by partial reversals
+  payment_status: number;  // 1: processing, 2: paid, -1: failed or reversed
+}
+
+/**
+ * In-process emulator of the Payme and Click gateways
+ * Drives the merchant's webhooks the way the real gateways do and serves
+ * the gateway APIs that PaymeProvider and ClickProvider call, so both
+ * providers can be tested end-to-end without network access
+ */
+export class GatewayEmulator {
+  private server: Server | null = null;
+  private readonly faults = new Map<EmulatorRoute, EmulatorFault[]>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private readonly paymeLedger = new Map<string, PaymeTransactionResult>();
+  private readonly clickLedger = new Map<number, ClickLedgerEntry>();
+  private rpcId = 0;
+  private clickTransId = 1000;
+
+  constructor(private readonly config: GatewayEmulatorConfig) {}
+
+  /**
+   * Start the emulator HTTP server and return its base URL
+   * Point PaymeConfig.api_url at `${url}/payme/api` and ClickConfig.api_url at `${url}/click`
+   */
+  async start(port = 0): Promise<string> {
+    const app = express();
+    app.use(express.json());
+
+    app.post('/payme/api', (req, res) => this.serve('payme', res, () => this.handlePaymeApi(req)));
+    app.get('/click/payment/status/:service_id/:payment_id', (req, res) =>
+      this.serve('click.payment_status', res, () => this.handleClickPaymentStatus(req))
+    );
+    app.get('/click/payment/status_by_mti/:service_id/:merchant_trans_id/:date', (req, res) =>
+      this.serve('click.status_by_mti', res, () => this.handleClickStatusByMti(req))
+    );
+    app.delete('/click/payment/reversal/:service_id/:payment_id', (req, res) =>
+      this.serve('click.reversal', res, () => this.handleClickReversal(req))
+    );
+    app.delete('/click/payment/partial_reversal/:service_id/:payment_id/:amount', (req, res) =>
+      this.serve('click.partial_reversal', res, () => this.handleClickPartialReversal(req))
+    );
+
+    await new Promise<void>(resolve => {
+      this.server = app.listen(port, '127.0.0.1', () => resolve());
+    });
+    return this.url;
+  }
+
+  /**
+   * Stop the server, dropping any responses held back by timeout faults
+   */
+  async stop(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('GatewayEmulator is not started');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Script a failure for the next call to the given endpoint
+   * Faults queue up and are consumed one per call
+   */
+  failNext(route: EmulatorRoute, fault: EmulatorFault): this {
+    const queue = this.faults.get(route) ?? [];
+    queue.push(fault);
+    this.faults.set(route, queue);
+    return this;
+  }
+
+  /**
+   * Send a Payme payment sequence to the merchant's webhook:
+   * CheckPerformTransaction, CreateTransaction, PerformTransaction and optionally CancelTransaction
+   */
+  async payWithPayme(scenario: PaymePaymentScenario): Promise<PaymeScenarioResult> {
+    const id = scenario.id ?? randomUUID().replace(/-/g, '').slice(0, 24);
+    const amount = scenario.send_amount ?? scenario.amount;
+    const time = Date.now();
+    const result: PaymeScenarioResult = { id, calls: [] };
+
+    const check = await this.callPayme(result, 'CheckPerformTransaction', { amount, account: scenario.account });
+    if (check.error) return result;
+
+    const createParams = { id, time, amount, account: scenario.account };
+    let created = await this.callPayme(result, 'CreateTransaction', createParams);
+    if (scenario.duplicate_create && !created.error) {
+      created = await this.callPayme(result, 'CreateTransaction', createParams);
+    }
+    if (created.error || !created.result?.transaction) return result;
+
+    result.transaction = created.result.transaction;
+    result.state = created.result.state;
+    this.paymeLedger.set(result.transaction, {
+      transaction: result.transaction,
+      create_time: created.result.create_time ?? time,
+      state: PaymeTransactionState.Created,
+      amount
+    });
+
+    if (!scenario.skip_perform) {
+      const performed = await this.callPayme(result, 'PerformTransaction', { id });
+      if (performed.result?.state !== undefined) {
+        result.state = performed.result.state;
+        this.updatePaymeLedger(result.transaction, {
+          state: performed.result.state,
+          perform_time: performed.result.perform_time
+        });
+      }
+    }
+
+    if (scenario.cancel_reason !== undefined) {
+      const cancelled = await this.callPayme(result, 'CancelTransaction', { id, reason: scenario.cancel_reason });
+      if (cancelled.result?.state !== undefined) {
+        result.state = cancelled.result.state;
+        this.updatePaymeLedger(result.transaction, {
+          state: cancelled.result.state,
+          cancel_time: cancelled.result.cancel_time ?? undefined,
+          reason: scenario.cancel_reason
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Send a signed Click Prepare followed by Complete to the merchant's webhook
+   */
+  async payWithClick(scenario: ClickPaymentScenario): Promise<ClickScenarioResult> {
+    const click_trans_id = scenario.click_trans_id ?? ++this.clickTransId;
+    const result: ClickScenarioResult = { click_trans_id, status: 0, calls: [] };
+
+    const prepared = await this.callClick(result, {
+      click_trans_id,
+      merchant_trans_id: scenario.merchant_trans_id,
+      amount: scenario.amount,
+      action: 0,
+      error: 0
+    });
+    if (prepared.error !== 0) {
+      result.status = -1;
+      return result;
+    }
+    result.merchant_prepare_id = prepared.merchant_prepare_id;
+
+    const entry: ClickLedgerEntry = {
+      payment_id: click_trans_id + 500000,
+      merchant_trans_id: scenario.merchant_trans_id,
+      amount: scenario.amount,
+      reversed: 0,
+      payment_status: 1
+    };
+    this.clickLedger.set(entry.payment_id, entry);
+    if (scenario.skip_complete) return result;
+
+    const completeError = scenario.complete_error ?? 0;
+    const completed = await this.callClick(result, {
+      click_trans_id,
+      merchant_trans_id: scenario.merchant_trans_id,
+      merchant_prepare_id: prepared.merchant_prepare_id,
+      amount: scenario.complete_amount ?? scenario.amount,
+      action: 1,
+      error: completeError
+    });
+
+    result.status = completed.error === 0 && completeError >= 0 ? 1 : -1;
+    entry.payment_status = result.status === 1 ? 2 : -1;
+
+    return result;
+  }
+
+  /**
+   * Apply a scripted fault if one is queued, otherwise answer with the handler's body
+   */
+  private serve(route: EmulatorRoute, res: Response, handler: () => unknown): void {
+    const fault = this.faults.get(route)?.shift();
+
+    if (fault?.type === 'timeout') {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        res.status(200).json(handler());
+      }, fault.delay_ms);
+      this.timers.add(timer);
+      return;
+    }
+    if (fault?.type === 'http_error') {
+      res.status(fault.status).json({ error: 'Emulated failure' });
+      return;
+    }
+    if (fault?.type === 'response') {
+      res.status(200).json(fault.body);
+      return;
+    }
+
+    res.status(200).json(handler());
+  }
+
+  private handlePaymeApi(req: Request): unknown {
+    const payme = this.requirePayme();
+    const expected = Buffer.from(`${payme.login ?? 'Paycom'}:${payme.password}`).toString('base64');
+    if (req.get('authorization') !== `Basic ${expected}`) {
+      return { error: { code: PaymeErrorCodes.AuthorizationFailure, message: 'Invalid authorization' } };
+    }
+
+    const { method, params = {} } = req.body ?? {};
+    if (method === 'CreateTransaction') {
+      const transaction: PaymeTransactionResult = {
+        transaction: randomUUID(),
+        create_time: Date.now(),
+        state: PaymeTransactionState.Created,
+        amount: params.amount
+      };
+      this.paymeLedger.set(transaction.transaction, transaction);
+      return { result: transaction };
+    }
+
+    const transaction = this.paymeLedger.get(params.transaction);
+    if (method !== 'CheckTransaction' && method !== 'CancelTransaction') {
+      return { error: { code: PaymeErrorCodes.MethodNotFound, message: 'Method not found' } };
+    }
+    if (!transaction) {
+      return { error: { code: PaymeErrorCodes.TransactionNotFound, message: 'Transaction not found' } };
+    }
+
+    if (method === 'CancelTransaction') {
+      if (transaction.state === PaymeTransactionState.Created || transaction.state === PaymeTransactionState.Completed) {
+        transaction.state = transaction.state === PaymeTransactionState.Created
+          ? PaymeTransactionState.Cancelled
+          : PaymeTransactionState.CancelledAfterComplete;
+        transaction.cancel_time = Date.now();
+        transaction.reason = params.reason;
+      }
+      return {
+        result: { transaction: transaction.transaction, cancel_time: transaction.cancel_time, state: transaction.state }
+      };
+    }
+
+    return { result: transaction };
+  }
+
+  private handleClickPaymentStatus(req: Request): unknown {
+    const rejection = this.verifyClickAuth(req);
+    if (rejection) return rejection;
+
+    const entry = this.clickLedger.get(Number(req.params.payment_id));
+    if (!entry) return CLICK_PAYMENT_NOT_FOUND;
+    return { error_code: 0, error_note: 'Success', payment_id: entry.payment_id, payment_status: entry.payment_status };
+  }
+
+  private handleClickStatusByMti(req: Request): unknown {
+    const rejection = this.verifyClickAuth(req);
+    if (rejection) return rejection;
+
+    const entry = [...this.clickLedger.values()]
+      .reverse()
+      .find(candidate => candidate.merchant_trans_id === req.params.merchant_trans_id);
+    if (!entry) return CLICK_PAYMENT_NOT_FOUND;
+    return { error_code: 0, error_note: 'Success', payment_id: entry.payment_id, merchant_trans_id: entry.merchant_trans_id };
+  }
+
+  private handleClickReversal(req: Request): unknown {
+    const rejection = this.verifyClickAuth(req);
+    if (rejection) return rejection;
+
+    const entry = this.clickLedger.get(Number(req.params.payment_id));
+    if (!entry) return CLICK_PAYMENT_NOT_FOUND;
+    if (entry.payment_status !== 2) {
+      return { error_code: -4, error_note: 'Payment is not completed' };
+    }
+    entry.payment_status = -1;
+    return { error_code: 0, error_note: 'Success', payment_id: entry.payment_id };
+  }
+
+  private handleClickPartialReversal(req: Request): unknown {
+    const rejection = this.verifyClickAuth(req);
+    if (rejection) return rejection;
+
+    const entry = this.clickLedger.get(Number(req.params.payment_id));
+    if (!entry) return CLICK_PAYMENT_NOT_FOUND;
+    if (entry.payment_status !== 2) {
+      return { error_code: -4, error_note: 'Payment is not completed' };
+    }
+
+    const amount = Number(req.params.amount);
+    if (!(amount > 0) || entry.reversed + amount > entry.amount) {
+      return { error_code: -2, error_note: 'Incorrect parameter amount' };
+    }
+    entry.reversed += amount;
+    if (entry.reversed >= entry.amount) {
+      entry.payment_status = -1;
+    }
+    return { error_code: 0, error_note: 'Success', payment_id: entry.payment_id };
+  }
+
+  /**
+   * Check the Auth header ClickMerchantClient sends: merchant_user_id:sha1(timestamp + secret_key):timestamp
+   */
+  private verifyClickAuth(req: Request): unknown | null {
+    const click = this.requireClick();
+    const [userId, digest, timestamp] = String(req.get('auth') ?? '').split(':');
+    const expected = createHash('sha1').update(`${timestamp}${click.secret_key}`).digest('hex');
+
+    const userMatches = !click.merchant_user_id || userId === click.merchant_user_id;
+    if (userMatches && timestamp && digest === expected && req.params.service_id === click.service_id) {
+      return null;
+    }
+    return { error_code: ClickMerchantErrorCodes.AuthenticationFailed, error_note: 'Authentication failed' };
+  }
+
+  private async callPayme(
+    result: PaymeScenarioResult,
+    method: string,
+    params: Record<string, unknown>
+  ): Promise<PaymeWebhookResponse> {
+    const payme = this.requirePayme();
+    const token = paymeBasicToken(payme.password, payme.login);
+    const request = { jsonrpc: '2.0', id: ++this.rpcId, method, params };
+
+    const response = await axios.post<PaymeWebhookResponse>(payme.webhook_url, request, {
+      headers: { Authorization: `Basic ${token}` },
+      timeout: this.config.webhook_timeout ?? 10000
+    });
+
+    result.calls.push({ method, request, response: response.data });
+    return response.data;
+  }
+
+  private async callClick(
+    result: ClickScenarioResult,
+    fields: {
+      click_trans_id: number;
+      merchant_trans_id: string;
+      merchant_prepare_id?: number;
+      amount: number;
+      action: 0 | 1;
+      error: number;
+    }
+  ): Promise<ClickWebhookResponse> {
+    const click = this.requireClick();
+    const amount = fields.amount.toFixed(2);
+    const sign_time = DateTime.now().setZone('Asia/Tashkent').toFormat('yyyy-MM-dd HH:mm:ss');
+    const click_paydoc_id = String(fields.click_trans_id + 500000);
+    const sign_string = clickSignString({ ...fields, service_id: click.service_id, amount, sign_time }, click.secret_key);
+
+    const request: Record<string, string> = {
+      click_trans_id: String(fields.click_trans_id),
+      service_id: click.service_id,
+      click_paydoc_id,
+      merchant_trans_id: fields.merchant_trans_id,
+      amount,
+      action: String(fields.action),
+      error: String(fields.error),
+      error_note: fields.error < 0 ? 'Payment failed' : 'Success',
+      sign_time,
+      sign_string
+    };
+    if (fields.merchant_prepare_id !== undefined) {
+      request.merchant_prepare_id = String(fields.merchant_prepare_id);
+    }
+
+    const response = await axios.post<ClickWebhookResponse>(
+      click.webhook_url,
+      new URLSearchParams(request).toString(),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: this.config.webhook_timeout ?? 10000
+      }
+    );
+
+    result.calls.push({ method: fields.action === 0 ? 'Prepare' : 'Complete', request, response: response.data });
+    return response.data;
+  }
+
+  private updatePaymeLedger(transaction: string, changes: Partial<PaymeTransactionResult>): void {
+    const entry = this.paymeLedger.get(transaction);
+    if (entry) {
+      Object.assign(entry, changes);
+    }
+  }
+
+  private requirePayme(): NonNullable<GatewayEmulatorConfig['payme']> {
+    if (!this.config.payme) {
+      throw new Error('GatewayEmulator is not configured for Payme');
+    }
+    return this.config.payme;
+  }
+
+  private requireClick(): NonNullable<GatewayEmulatorConfig['click']> {
+    if (!this.config.click) {
+      throw new Error('GatewayEmulator is not configured for Click');
+    }
+    return this.config.click;
+  }
+}
@@ -0,0 +1,2 @@
+export * from '../interfaces/emulator.interface';
+export * from './gateway.emulator';
@@ -0,0 +1,87 @@
+import { PaymeCheckoutLanguage } from '../interfaces/payme.interface';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+/**
+ * Escape text for use in HTML element content and quoted attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+/**
+ * Options of the Payme checkout form
+ * @property auto_submit - Submit the form as soon as the page loads (default: true)
+ * @property form_id - id attribute, used by the auto-submit script (default: 'payme-checkout')
+ * @property button_text - Label of the submit button, shown when scripts are blocked (default: 'Pay with Payme')
+ * @property lang - Checkout language: 'ru', 'uz' or 'en' (default: Payme's choice)
+ * @property callback_timeout - Delay in ms before Payme redirects to the return URL
+ */
+export interface PaymeCheckoutFormOptions {
+  auto_submit?: boolean;
+  form_id?: string;
+  button_text?: string;
+  lang?: PaymeCheckoutLanguage;
+  callback_timeout?: number;
+}
+
+/**
+ * Options of the Click checkout button
+ * @property label - Button text (default: 'Pay with CLICK')
+ * @property class_name - class attribute; the inline brand style is left out when set
+ * @property target - Link target, e.g. '_blank'
+ */
+export interface ClickCheckoutButtonOptions {
+  label?: string;
+  class_name?: string;
+  target?: string;
+}
+
+const CLICK_BUTTON_STYLE = [
+  'display:inline-block',
+  'padding:12px 24px',
+  'border-radius:8px',
+  'background:#0073ff',
+  'color:#ffffff',
+  'font:600 16px/1.2 sans-serif',
+  'text-decoration:none'
+].join(';');
+
+/**
+ * Render a POST form; fields are written in order as hidden inputs
+ * With auto_submit, a one-line script submits it on load
+ */
+export function renderCheckoutForm(
+  action: string,
+  fields: Array<[string, string]>,
+  options: { form_id: string; button_text: string; auto_submit: boolean }
+): string {
+  const id = escapeHtml(options.form_id);
+  const inputs = fields.map(([name, value]) =>
+    `  <input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}"/>`
+  );
+
+  return [
+    `<form id="${id}" method="POST" action="${escapeHtml(action)}">`,
+    ...inputs,
+    `  <button type="submit">${escapeHtml(options.button_text)}</button>`,
+    '</form>',
+    ...(options.auto_submit ? [`<script>document.getElementById(${JSON.stringify(options.form_id).replace(/</g, '\\u003c')}).submit();</script>`] : [])
+  ].join('\n');
+}
+
+/**
+ * Render a link styled as a Click payment button
+ */
+export function renderClickButton(url: string, options: ClickCheckoutButtonOptions = {}): string {
+  const style = options.class_name ? `class="${escapeHtml(options.class_name)}"` : `style="${CLICK_BUTTON_STYLE}"`;
+  const target = options.target ? ` target="${escapeHtml(options.target)}" rel="noopener"` : '';
+
+  return `<a href="${escapeHtml(url)}" ${style}${target}>${escapeHtml(options.label ?? 'Pay with CLICK')}</a>`;
+}
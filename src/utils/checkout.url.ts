@@ -0,0 +1,174 @@
+import { ValidationError } from '../errors/payment.error';
+import { ClickCheckoutParams } from '../interfaces/click.interface';
+import { PaymeCheckoutLanguage, PaymeCheckoutParams } from '../interfaces/payme.interface';
+
+const PAYME_LANGUAGES: PaymeCheckoutLanguage[] = ['ru', 'uz', 'en'];
+const PAYME_ACCOUNT_KEY = /^[A-Za-z0-9_]+$/;
+const CLICK_CARD_TYPES = ['uzcard', 'humo'];
+const CLICK_PARAMS = [
+  'service_id',
+  'merchant_id',
+  'amount',
+  'transaction_param',
+  'return_url',
+  'merchant_user_id',
+  'card_type'
+] as const;
+
+/**
+ * Check Payme checkout parameters; values must not contain ';', which separates them in the URL
+ */
+export function validatePaymeCheckoutParams(params: PaymeCheckoutParams): ValidationError[] {
+  const keys = Object.keys(params.ac);
+
+  return [
+    required(params.m, 'm'),
+    Number.isSafeInteger(params.a) && params.a > 0 ? null : invalid('a', `a must be a positive amount in tiyin, got ${params.a}`),
+    keys.length > 0 ? null : invalid('ac', 'ac must contain at least one account field'),
+    ...keys.map(key => PAYME_ACCOUNT_KEY.test(key)
+      ? required(params.ac[key], `ac.${key}`)
+      : invalid('ac', `Account field names may only contain letters, digits and '_', got '${key}'`)),
+    params.l !== undefined && !PAYME_LANGUAGES.includes(params.l)
+      ? invalid('l', `l must be one of ${PAYME_LANGUAGES.join(', ')}, got '${params.l}'`)
+      : null,
+    params.c !== undefined ? url(params.c, 'c') : null,
+    params.ct !== undefined && !(Number.isSafeInteger(params.ct) && params.ct >= 0)
+      ? invalid('ct', `ct must be a non-negative number of ms, got ${params.ct}`)
+      : null,
+    params.cr !== undefined && !/^(\d{3}|[A-Z]{3})$/.test(params.cr)
+      ? invalid('cr', `cr must be an ISO 4217 code, got '${params.cr}'`)
+      : null,
+    separatorFree(params.m, 'm'),
+    separatorFree(params.c, 'c'),
+    ...keys.map(key => separatorFree(params.ac[key], `ac.${key}`))
+  ].filter((error): error is ValidationError => error !== null);
+}
+
+/**
+ * Build a Payme GET checkout URL: base64 of 'm=...;ac.order_id=...;a=...' appended to the checkout host
+ */
+export function buildPaymeCheckoutUrl(base_url: string, params: PaymeCheckoutParams): string {
+  assertValidCheckout(validatePaymeCheckoutParams(params));
+
+  const parts = [
+    `m=${params.m}`,
+    ...Object.keys(params.ac).map(key => `ac.${key}=${params.ac[key]}`),
+    `a=${params.a}`,
+    ...(params.l !== undefined ? [`l=${params.l}`] : []),
+    ...(params.c !== undefined ? [`c=${params.c}`] : []),
+    ...(params.ct !== undefined ? [`ct=${params.ct}`] : []),
+    ...(params.cr !== undefined ? [`cr=${params.cr}`] : [])
+  ];
+  return `${base_url.replace(/\/+$/, '')}/${Buffer.from(parts.join(';')).toString('base64')}`;
+}
+
+/**
+ * Decode a Payme GET checkout URL, or just its base64 path, back into its parameters
+ * Meant for debugging and tests; throws ValidationError on anything buildPaymeCheckoutUrl would not produce
+ */
+export function parsePaymeCheckoutUrl(checkout_url: string): PaymeCheckoutParams {
+  // The base64 alphabet includes '/', so the encoded parameters are the whole path, not its last segment
+  const segment = /^https?:\/\//.test(checkout_url) ? new URL(checkout_url).pathname.slice(1) : checkout_url;
+  const decoded = Buffer.from(decodeURIComponent(segment), 'base64').toString('utf8');
+
+  const params: PaymeCheckoutParams = { m: '', ac: {}, a: NaN };
+  for (const part of decoded.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) {
+      throw invalid('checkout_url', `Malformed Payme checkout parameter '${part}'`);
+    }
+    const key = part.slice(0, separator);
+    const value = part.slice(separator + 1);
+
+    if (key.startsWith('ac.')) {
+      params.ac[key.slice(3)] = value;
+    } else if (key === 'm' || key === 'c' || key === 'cr') {
+      params[key] = value;
+    } else if (key === 'a' || key === 'ct') {
+      params[key] = /^\d+$/.test(value) ? Number(value) : NaN;
+    } else if (key === 'l') {
+      params.l = value as PaymeCheckoutLanguage;
+    } else {
+      throw invalid('checkout_url', `Unknown Payme checkout parameter '${key}'`);
+    }
+  }
+
+  assertValidCheckout(validatePaymeCheckoutParams(params));
+  return params;
+}
+
+/**
+ * Check Click checkout parameters
+ * @param extra_params - Additional query parameters; they may not override the documented ones
+ */
+export function validateClickCheckoutParams(
+  params: ClickCheckoutParams,
+  extra_params: Record<string, string> = {}
+): ValidationError[] {
+  return [
+    required(params.service_id, 'service_id'),
+    required(params.merchant_id, 'merchant_id'),
+    required(params.transaction_param, 'transaction_param'),
+    /^\d+(\.\d{1,2})?$/.test(params.amount) ? null : invalid('amount', `amount must be in so'm, e.g. '1000.00', got '${params.amount}'`),
+    params.return_url !== undefined ? url(params.return_url, 'return_url') : null,
+    params.card_type !== undefined && !CLICK_CARD_TYPES.includes(params.card_type)
+      ? invalid('card_type', `card_type must be one of ${CLICK_CARD_TYPES.join(', ')}, got '${params.card_type}'`)
+      : null,
+    ...Object.keys(extra_params).map(key => (CLICK_PARAMS as readonly string[]).includes(key)
+      ? invalid('extra_params', `extra_params must not override the Click parameter ${key}`)
+      : null)
+  ].filter((error): error is ValidationError => error !== null);
+}
+
+/**
+ * Build a Click checkout URL; unset optional parameters are left out
+ */
+export function buildClickCheckoutUrl(
+  base_url: string,
+  params: ClickCheckoutParams,
+  extra_params: Record<string, string> = {}
+): string {
+  assertValidCheckout(validateClickCheckoutParams(params, extra_params));
+
+  const query = new URLSearchParams();
+  for (const key of CLICK_PARAMS) {
+    const value = params[key];
+    if (value) query.append(key, value);
+  }
+  Object.keys(extra_params).forEach(key => query.append(key, extra_params[key]));
+
+  return `${base_url}?${query.toString()}`;
+}
+
+function separatorFree(value: string | undefined, field: string): ValidationError | null {
+  return value?.includes(';') ? invalid(field, `${field} must not contain ';', got '${value}'`) : null;
+}
+
+function assertValidCheckout(errors: ValidationError[]): void {
+  if (errors.length === 0) return;
+  if (errors.length === 1) throw errors[0];
+
+  throw new ValidationError(
+    'INVALID_CHECKOUT_PARAMS',
+    `Invalid checkout parameters: ${errors.map(error => error.message).join('; ')}`,
+    errors[0].field
+  );
+}
+
+function required(value: string | undefined, field: string): ValidationError | null {
+  return value && value.trim() ? null : invalid(field, `${field} is required`);
+}
+
+function url(value: string, field: string): ValidationError | null {
+  try {
+    const { protocol } = new URL(value);
+    if (protocol === 'http:' || protocol === 'https:') return null;
+  } catch {
+    // reported below
+  }
+  return invalid(field, `${field} must be an absolute http(s) URL, got '${value}'`);
+}
+
+function invalid(field: string, message: string): ValidationError {
+  return new ValidationError('INVALID_CHECKOUT_PARAMS', message, field);
+}
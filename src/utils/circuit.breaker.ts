@@ -0,0 +1,66 @@
+/**
+ * Circuit breaker settings
+ * @property failure_threshold - Consecutive failures that open the circuit (default: 5)
+ * @property reset_timeout - How long the circuit stays open before a probe is let through, in ms (default: 30000)
+ */
+export interface CircuitBreakerConfig {
+  failure_threshold?: number;
+  reset_timeout?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Consecutive-failure circuit breaker for a single host
+ * closed: requests pass; open: requests fail fast until reset_timeout elapses;
+ * half_open: a single probe is let through, its outcome closes or re-opens the circuit
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.failureThreshold = config.failure_threshold ?? 5;
+    this.resetTimeout = config.reset_timeout ?? 30000;
+  }
+
+  get state(): CircuitState {
+    if (this.failures < this.failureThreshold) return 'closed';
+    return Date.now() - this.openedAt >= this.resetTimeout ? 'half_open' : 'open';
+  }
+
+  /**
+   * Whether a request may be sent now; in half-open state only the first caller gets through
+   */
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.probing) return false;
+
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.probing = false;
+  }
+
+  /**
+   * Give up a half-open probe without a verdict, e.g. when the caller aborted it
+   */
+  release(): void {
+    this.probing = false;
+  }
+}
@@ -0,0 +1,19 @@
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let crc = n;
+  for (let k = 0; k < 8; k++) {
+    crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return crc >>> 0;
+});
+
+/**
+ * CRC-32 as used by PNG and ZIP
+ * @param previous - CRC of the bytes before these, to checksum data that arrives in chunks
+ */
+export function crc32(bytes: Uint8Array, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of bytes) {
+    crc = (crc >>> 8) ^ CRC_TABLE[(crc ^ byte) & 0xff];
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,17 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Format one RFC 4180 row, without the line break
+ * Cells starting with =, +, - or @ get a leading quote so spreadsheets do not run them as formulas
+ */
+export function formatCsvRow(values: CsvValue[]): string {
+  return values.map(formatCsvCell).join(',');
+}
+
+function formatCsvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string') return String(value);
+
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
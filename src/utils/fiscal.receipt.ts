@@ -0,0 +1,72 @@
+import { FiscalReceipt } from '../interfaces/fiscal.interface';
+import { PaymeReceiptDetail } from '../interfaces/payme.interface';
+import { Money } from './money';
+
+const IKPU_CODE = /^\d{17}$/;
+
+/**
+ * Total of a fiscal receipt: items minus discounts plus shipping
+ */
+export function fiscalReceiptTotal(receipt: FiscalReceipt): Money {
+  const shipping = receipt.shipping?.price ?? Money.zero();
+
+  return receipt.items.reduce((total, item) => {
+    const line = item.price.multiply(item.count);
+    return total.add(item.discount ? line.subtract(item.discount) : line);
+  }, shipping);
+}
+
+/**
+ * Check that a fiscal receipt is well-formed and adds up to the order amount
+ * Throws with a description of the first problem found
+ */
+export function assertFiscalReceipt(receipt: FiscalReceipt, amount: Money): void {
+  if (receipt.items.length === 0) {
+    throw new Error('Fiscal receipt must have at least one item');
+  }
+
+  receipt.items.forEach((item, index) => {
+    if (!IKPU_CODE.test(item.code)) {
+      throw new Error(`Fiscal receipt item ${index}: code must be a 17-digit IKPU code, got ${item.code}`);
+    }
+    if (!item.package_code) {
+      throw new Error(`Fiscal receipt item ${index}: package_code is required`);
+    }
+    if (!Number.isInteger(item.count) || item.count <= 0) {
+      throw new Error(`Fiscal receipt item ${index}: count must be a positive integer, got ${item.count}`);
+    }
+    if (!Number.isInteger(item.vat_percent) || item.vat_percent < 0 || item.vat_percent > 100) {
+      throw new Error(`Fiscal receipt item ${index}: vat_percent must be 0..100, got ${item.vat_percent}`);
+    }
+    if (item.price.tiyin < 0 || (item.discount && item.discount.tiyin < 0)) {
+      throw new Error(`Fiscal receipt item ${index}: price and discount must not be negative`);
+    }
+  });
+
+  const total = fiscalReceiptTotal(receipt);
+  if (!total.equals(amount)) {
+    throw new Error(`Fiscal receipt total ${total.format()} does not match order amount ${amount.format()}`);
+  }
+}
+
+/**
+ * Convert a fiscal receipt to Payme's `detail` object (amounts in tiyin)
+ */
+export function toPaymeReceiptDetail(receipt: FiscalReceipt): PaymeReceiptDetail {
+  return {
+    receipt_type: receipt.receipt_type ?? 0,
+    ...(receipt.shipping && {
+      shipping: { title: receipt.shipping.title, price: receipt.shipping.price.tiyin }
+    }),
+    items: receipt.items.map(item => ({
+      title: item.title,
+      price: item.price.tiyin,
+      count: item.count,
+      code: item.code,
+      package_code: item.package_code,
+      vat_percent: item.vat_percent,
+      ...(item.units !== undefined && { units: item.units }),
+      ...(item.discount && { discount: item.discount.tiyin })
+    }))
+  };
+}
@@ -1,58 +1,273 @@
-import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { randomUUID } from 'crypto';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { NetworkError, TimeoutError, toPaymentError } from '../errors/payment.error';
+import { CircuitBreaker, CircuitBreakerConfig } from './circuit.breaker';
+import { Instrumentation, NoopInstrumentation, PAYMENT_METRICS, SpanAttributes } from './instrumentation';
+import { ConsoleJsonLogger, Logger, redactingLogger } from './logger';
+
+/**
+ * Axios request config plus the client's per-request policy
+ * @property idempotent - Whether the call may be retried after it could have reached the gateway
+ *   (default: true for GET, HEAD, OPTIONS, PUT and DELETE)
+ * @property retries - Override the client's retry count for this call
+ * @property deadline - Time budget across all attempts and backoff delays in ms
+ * @property correlation_id - Id attached to every log line of this call (default: random UUID)
+ * @property attributes - Span attributes such as provider, operation and order_id;
+ *   provider and operation also label the request metrics
+ */
+export interface HttpRequestConfig extends AxiosRequestConfig {
+  idempotent?: boolean;
+  retries?: number;
+  deadline?: number;
+  correlation_id?: string;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Additional HttpClient settings
+ * @property max_delay - Upper bound of a single backoff delay in ms (default: 30000)
+ * @property deadline - Default time budget per request in ms (default: none)
+ * @property circuit_breaker - Per-host circuit breaker settings, or false to disable it
+ * @property logger - Receives outbound request logs, redacted (default: ConsoleJsonLogger)
+ * @property instrumentation - Receives request latency, retry metrics and spans (default: none)
+ */
+export interface HttpClientOptions {
+  max_delay?: number;
+  deadline?: number;
+  circuit_breaker?: CircuitBreakerConfig | false;
+  logger?: Logger;
+  instrumentation?: Instrumentation;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Failures that happen before the request leaves the machine; retrying cannot double-submit
+const NOT_SENT_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
 
 export class HttpClient {
   private readonly timeout: number;
   private readonly retries: number;
   private readonly retryDelay: number;
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly logger: Logger;
+  private readonly instrumentation: Instrumentation;
 
-  constructor(timeout = 30000, retries = 3, retryDelay = 1000) {
+  constructor(
+    timeout = 30000,
+    retries = 3,
+    retryDelay = 1000,
+    private readonly options: HttpClientOptions = {}
+  ) {
     this.timeout = timeout;
     this.retries = retries;
     this.retryDelay = retryDelay;
+    this.logger = redactingLogger(options.logger ?? new ConsoleJsonLogger());
+    this.instrumentation = options.instrumentation ?? new NoopInstrumentation();
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AxiosRequestConfig['signal']): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new NetworkError('REQUEST_ABORTED', 'Request was aborted'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener?.('abort', onAbort);
+        resolve();
+      }, ms);
+
+      if (signal?.aborted) onAbort();
+      signal?.addEventListener?.('abort', onAbort);
+    });
   }
 
-  private isRetryableError(error: any): boolean {
-    if (axios.isAxiosError(error)) {
-      const status = error.response?.status;
-      return (
-        error.code === 'ECONNABORTED' ||
-        error.message.includes('timeout') ||
-        error.message.includes('Network Error') ||
-        (status && status >= 500) ||
-        status === 429
+  /**
+   * Whether another attempt may be made
+   * Non-idempotent calls are only retried when the gateway cannot have processed them
+   */
+  private isRetryableError(error: unknown, idempotent: boolean): boolean {
+    if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+      return false;
+    }
+
+    const status = error.response?.status;
+    if (status === 429) return true;
+    if (!error.response && NOT_SENT_CODES.includes(error.code ?? '')) return true;
+    if (!idempotent) return false;
+
+    return !error.response || (status !== undefined && status >= 500);
+  }
+
+  /**
+   * Whether the error says something about the health of the host
+   */
+  private isHostFailure(error: unknown): boolean {
+    if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+      return false;
+    }
+    return !error.response || error.response.status >= 500;
+  }
+
+  /**
+   * Retry-After on 429/503 when present, otherwise exponential backoff with full jitter
+   */
+  private backoff(error: unknown, attempt: number): number {
+    if (axios.isAxiosError(error) && (error.response?.status === 429 || error.response?.status === 503)) {
+      const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']);
+      if (retryAfter !== null) return retryAfter;
+    }
+
+    const ceiling = Math.min(this.options.max_delay ?? 30000, this.retryDelay * Math.pow(2, attempt));
+    return Math.random() * ceiling;
+  }
+
+  private breakerFor(url: string | undefined): { host: string; breaker: CircuitBreaker } | null {
+    const host = hostOf(url);
+    if (this.options.circuit_breaker === false || !host) return null;
+
+    if (!this.breakers.has(host)) {
+      this.breakers.set(host, new CircuitBreaker(this.options.circuit_breaker));
+    }
+    return { host, breaker: this.breakers.get(host)! };
+  }
+
+  async request<T>(config: HttpRequestConfig): Promise<AxiosResponse<T>> {
+    const { attributes = {}, correlation_id = randomUUID(), ...requestConfig } = config;
+    const method = (requestConfig.method ?? 'GET').toUpperCase();
+    const labels = {
+      provider: String(attributes.provider ?? 'unknown'),
+      operation: String(attributes.operation ?? method)
+    };
+    const span = this.instrumentation.startSpan('http.request', {
+      ...attributes,
+      correlation_id,
+      'http.method': method,
+      'http.host': hostOf(requestConfig.url) ?? undefined
+    });
+    const startedAt = Date.now();
+    let retried = 0;
+    let outcome = 'success';
+
+    try {
+      const response = await this.send<T>(requestConfig, correlation_id, () => {
+        retried++;
+        this.instrumentation.increment(PAYMENT_METRICS.httpRetries, labels);
+      });
+      span.setAttributes({ 'http.status_code': response.status });
+      return response;
+    } catch (error) {
+      outcome = toPaymentError(error, 'HTTP_ERROR').kind;
+      span.recordError(error);
+      throw error;
+    } finally {
+      this.instrumentation.observe(
+        PAYMENT_METRICS.httpRequestDuration,
+        (Date.now() - startedAt) / 1000,
+        { ...labels, outcome }
       );
+      span.setAttributes({ retries: retried, outcome });
+      span.end();
     }
-    return false;
   }
 
-  async request<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    let lastError: Error | null = null;
-    
-    for (let attempt = 0; attempt <= this.retries; attempt++) {
+  /**
+   * Run the attempts of one request under the retry, deadline and circuit breaker policy
+   */
+  private async send<T>(
+    config: HttpRequestConfig,
+    correlation_id: string,
+    onRetry: () => void
+  ): Promise<AxiosResponse<T>> {
+    const { idempotent, retries, deadline, ...axiosConfig } = config;
+    const isIdempotent = idempotent ?? IDEMPOTENT_METHODS.includes((axiosConfig.method ?? 'GET').toUpperCase());
+    const maxRetries = retries ?? this.retries;
+    const budget = deadline ?? this.options.deadline;
+    const deadlineAt = budget !== undefined ? Date.now() + budget : Infinity;
+    const circuit = this.breakerFor(axiosConfig.url);
+    const request = { correlation_id, method: (axiosConfig.method ?? 'GET').toUpperCase(), url: axiosConfig.url };
+
+    for (let attempt = 0; ; attempt++) {
+      const remaining = deadlineAt - Date.now();
+      if (remaining <= 0) {
+        this.logger.warn('http.deadline_exceeded', { ...request, attempt, deadline: budget });
+        throw new TimeoutError('PAYMENT_TIMEOUT', `Request deadline of ${budget}ms exceeded`);
+      }
+      if (circuit && !circuit.breaker.tryAcquire()) {
+        this.logger.warn('http.circuit_open', { ...request, host: circuit.host });
+        throw new NetworkError('CIRCUIT_OPEN', `Circuit breaker is open for ${circuit.host}`);
+      }
+
+      const startedAt = Date.now();
+      this.logger.debug('http.request', { ...request, attempt });
       try {
         const response = await axios({
-          ...config,
-          timeout: this.timeout,
+          ...axiosConfig,
+          timeout: Math.min(this.timeout, remaining),
+        });
+        circuit?.breaker.recordSuccess();
+        this.logger.debug('http.response', {
+          ...request,
+          attempt,
+          status: response.status,
+          duration_ms: Date.now() - startedAt
         });
         return response;
       } catch (error) {
-        lastError = error as Error;
-        
-        if (
-          attempt < this.retries &&
-          this.isRetryableError(error)
-        ) {
-          await this.delay(this.retryDelay * Math.pow(2, attempt)); // Exponential backoff
-          continue;
+        const failure = {
+          ...request,
+          attempt,
+          status: axios.isAxiosError(error) ? error.response?.status : undefined,
+          code: axios.isAxiosError(error) ? error.code : undefined,
+          error: error instanceof Error ? error.message : String(error),
+          duration_ms: Date.now() - startedAt
+        };
+
+        if (this.isHostFailure(error)) {
+          circuit?.breaker.recordFailure();
+        } else if (axios.isCancel(error)) {
+          circuit?.breaker.release();
+        } else {
+          circuit?.breaker.recordSuccess();
+        }
+
+        if (attempt >= maxRetries || !this.isRetryableError(error, isIdempotent)) {
+          this.logger.warn('http.failure', failure);
+          throw error;
+        }
+
+        const wait = this.backoff(error, attempt);
+        if (Date.now() + wait >= deadlineAt) {
+          this.logger.warn('http.failure', { ...failure, reason: 'deadline' });
+          throw error;
         }
-        break;
+        this.logger.info('http.retry', { ...failure, delay_ms: Math.round(wait) });
+        onRetry();
+        await this.delay(wait, axiosConfig.signal);
       }
     }
+  }
+}
 
-    throw lastError;
+function hostOf(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).host;
+  } catch {
+    return null;
   }
 }
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
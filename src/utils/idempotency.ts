@@ -0,0 +1,126 @@
+import { createHash } from 'crypto';
+import { ValidationError } from '../errors/payment.error';
+import { IdempotencyConfig, IdempotencyStore } from '../interfaces/idempotency.interface';
+import { PaymentResult } from '../interfaces/payment.interface';
+import { InMemoryIdempotencyStore } from '../stores/idempotency.store';
+
+/**
+ * Default time a result is remembered, in seconds
+ */
+export const IDEMPOTENCY_TTL = 24 * 60 * 60;
+
+interface Remembered<T> {
+  fingerprint: string;
+  value: T;
+}
+
+interface Deduplicated<T> {
+  response: T;
+  deduplicated: boolean;
+}
+
+/**
+ * Remembers results by key, each tied to a fingerprint of the request that produced it
+ * A key is only answered from memory for the same request; reusing it for another one is a conflict
+ */
+export class IdempotencyCache {
+  private readonly inflight = new Map<string, { fingerprint: string; call: Promise<unknown> }>();
+  private readonly ttlMs: number;
+
+  constructor(private readonly store: IdempotencyStore, ttl_seconds = IDEMPOTENCY_TTL) {
+    this.ttlMs = ttl_seconds * 1000;
+  }
+
+  static fromConfig(config: IdempotencyConfig = {}): IdempotencyCache {
+    return new IdempotencyCache(config.store ?? new InMemoryIdempotencyStore(), config.ttl);
+  }
+
+  /**
+   * The value remembered for this key and request, or null
+   */
+  async lookup<T>(key: string, fingerprint: string): Promise<T | null> {
+    const remembered = await this.store.get<Remembered<T>>(key);
+    return remembered?.fingerprint === fingerprint ? remembered.value : null;
+  }
+
+  async remember<T>(key: string, fingerprint: string, value: T): Promise<void> {
+    await this.store.set<Remembered<T>>(key, { fingerprint, value }, this.ttlMs);
+  }
+
+  /**
+   * Run task once per key: later calls get its result, concurrent ones share the call in flight
+   * Only successful results are kept, so a failed call can be retried with the same key
+   * @throws ValidationError IDEMPOTENCY_KEY_REUSED when the key was used for a different request
+   */
+  async run<T extends PaymentResult>(key: string, fingerprint: string, task: () => Promise<T>): Promise<T> {
+    const inflight = this.inflight.get(key);
+    if (inflight) {
+      if (inflight.fingerprint !== fingerprint) throw keyReused();
+      return inflight.call as Promise<T>;
+    }
+
+    const call = this.execute(key, fingerprint, task).finally(() => this.inflight.delete(key));
+    this.inflight.set(key, { fingerprint, call });
+    return call;
+  }
+
+  /**
+   * Run a webhook handler once per key and remember whatever it answers, rejections included
+   * A concurrent redelivery shares the call in flight; a request that differs from the remembered one is handled again
+   * @returns The response, and whether an earlier or concurrent call produced it
+   */
+  async dedupe<T>(key: string, fingerprint: string, task: () => Promise<T>): Promise<Deduplicated<T>> {
+    const inflight = this.inflight.get(key);
+    if (inflight?.fingerprint === fingerprint) {
+      const { response } = await (inflight.call as Promise<Deduplicated<T>>);
+      return { response, deduplicated: true };
+    }
+    if (inflight) {
+      return { response: await task(), deduplicated: false };
+    }
+
+    const call = this.answer(key, fingerprint, task).finally(() => this.inflight.delete(key));
+    this.inflight.set(key, { fingerprint, call });
+    return call;
+  }
+
+  private async answer<T>(key: string, fingerprint: string, task: () => Promise<T>): Promise<Deduplicated<T>> {
+    const earlier = await this.lookup<T>(key, fingerprint);
+    if (earlier !== null) {
+      return { response: earlier, deduplicated: true };
+    }
+
+    const response = await task();
+    await this.remember(key, fingerprint, response);
+    return { response, deduplicated: false };
+  }
+
+  private async execute<T extends PaymentResult>(key: string, fingerprint: string, task: () => Promise<T>): Promise<T> {
+    const remembered = await this.store.get<Remembered<T>>(key);
+    if (remembered) {
+      if (remembered.fingerprint !== fingerprint) throw keyReused();
+      return remembered.value;
+    }
+
+    const result = await task();
+    if (result.success) {
+      await this.remember(key, fingerprint, result);
+    }
+    return result;
+  }
+}
+
+function keyReused(): ValidationError {
+  return new ValidationError(
+    'IDEMPOTENCY_KEY_REUSED',
+    'Idempotency key was already used for a different request',
+    'idempotency_key'
+  );
+}
+
+/**
+ * Short stable digest of request data, for use as a fingerprint
+ */
+export function fingerprintOf(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value) ?? '').digest('base64url');
+}
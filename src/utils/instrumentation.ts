@@ -0,0 +1,65 @@
+export type MetricLabels = Record<string, string>;
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * A unit of work started by Instrumentation.startSpan; end() must be called exactly once
+ */
+export interface Span {
+  setAttributes(attributes: SpanAttributes): void;
+  recordError(error: unknown): void;
+  end(): void;
+}
+
+/**
+ * Vendor-neutral metrics and tracing hooks called by HttpClient and the webhook handlers
+ * Adapt it to OpenTelemetry, StatsD, etc., or use PrometheusExporter
+ */
+export interface Instrumentation {
+  /**
+   * Add `value` (default: 1) to a counter
+   */
+  increment(name: string, labels?: MetricLabels, value?: number): void;
+
+  /**
+   * Record a histogram sample
+   */
+  observe(name: string, value: number, labels?: MetricLabels): void;
+
+  startSpan(name: string, attributes?: SpanAttributes): Span;
+}
+
+/**
+ * Metrics recorded by the package
+ * webhookRequests - counter {provider, method, error_code}; error_code is '0' on success, 'exception' when the handler threw
+ * webhookDuration - histogram in seconds {provider, method}
+ * httpRequestDuration - histogram in seconds over all attempts {provider, operation, outcome}
+ * httpRetries - counter of retried attempts {provider, operation}
+ */
+export const PAYMENT_METRICS = {
+  webhookRequests: 'uzpay_webhook_requests_total',
+  webhookDuration: 'uzpay_webhook_duration_seconds',
+  httpRequestDuration: 'uzpay_http_request_duration_seconds',
+  httpRetries: 'uzpay_http_retries_total',
+} as const;
+
+/**
+ * Span that records nothing, for instrumentations without tracing
+ */
+export const NOOP_SPAN: Span = {
+  setAttributes: () => undefined,
+  recordError: () => undefined,
+  end: () => undefined,
+};
+
+/**
+ * Records nothing
+ */
+export class NoopInstrumentation implements Instrumentation {
+  increment(): void {}
+  observe(): void {}
+
+  startSpan(): Span {
+    return NOOP_SPAN;
+  }
+}
@@ -0,0 +1,162 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Structured logger accepted by the providers and HttpClient
+ * Messages are short event names such as 'webhook.rejected'; details go in fields
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Writes one JSON object per line: { ...fields, time, level, message }
+ * @param options.level - Minimum level written (default: 'info')
+ * @param options.write - Line sink (default: console.log, console.error for warn and error)
+ */
+export class ConsoleJsonLogger implements Logger {
+  private readonly level: number;
+
+  constructor(private readonly options: { level?: LogLevel; write?: (line: string, level: LogLevel) => void } = {}) {
+    this.level = LEVELS[options.level ?? 'info'];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVELS[level] < this.level) return;
+
+    const line = JSON.stringify({ ...fields, time: new Date().toISOString(), level, message });
+    if (this.options.write) {
+      this.options.write(line, level);
+    } else if (LEVELS[level] >= LEVELS.warn) {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Discards everything
+ */
+export class NoopLogger implements Logger {
+  debug(): void {}
+  info(): void {}
+  warn(): void {}
+  error(): void {}
+}
+
+const REDACTED = '[REDACTED]';
+const TRUNCATED = '[Truncated]';
+
+// Field names whose values are credentials or card data, compared case-insensitively
+const SECRET_KEYS = new Set([
+  'authorization',
+  'auth',
+  'x-auth',
+  'password',
+  'secret',
+  'secret_key',
+  'key',
+  'sign_string',
+  'token',
+  'card_token',
+  'card_number',
+  'sms_code',
+  'expire',
+  'expire_date',
+]);
+
+const PAN = /\b(\d{6})[ -]?(?:\d[ -]?){3,9}(\d{4})\b/g;
+const BASIC_AUTH = /\b(Basic)\s+[A-Za-z0-9+/=]+/gi;
+const CARD_TOKEN_PATH = /(\/card_token\/[^/?#]+\/)[^/?#]+/g;
+
+/**
+ * Mask secrets in log fields: credential and card fields are replaced,
+ * PANs keep their first 6 and last 4 digits, Basic auth and card tokens in URLs are hidden
+ * Objects nested more than 8 levels deep are replaced with '[Truncated]'
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value
+      .replace(BASIC_AUTH, `$1 ${REDACTED}`)
+      .replace(CARD_TOKEN_PATH, `$1${REDACTED}`)
+      .replace(PAN, (match, first: string, last: string) => {
+        const digits = match.replace(/\D/g, '');
+        return isLuhnValid(digits) ? `${first}${'*'.repeat(digits.length - 10)}${last}` : match;
+      });
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  // Nothing below this depth is checked for secrets, so none of it is logged
+  if (depth > 8) {
+    return TRUNCATED;
+  }
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return redact((value as { toJSON(): unknown }).toJSON(), depth + 1);
+  }
+  if (value instanceof Error) {
+    return redact({ name: value.name, message: value.message, ...(value as unknown as LogFields) }, depth + 1);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  const result: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    result[key] = SECRET_KEYS.has(key.toLowerCase()) && field !== undefined && field !== null
+      ? REDACTED
+      : redact(field, depth + 1);
+  }
+  return result;
+}
+
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Wrap a logger so every field passes through redact() before it is written
+ */
+export function redactingLogger(logger: Logger): Logger {
+  const wrap = (level: LogLevel) => (message: string, fields?: LogFields) =>
+    logger[level](message, fields && (redact(fields) as LogFields));
+
+  return {
+    debug: wrap('debug'),
+    info: wrap('info'),
+    warn: wrap('warn'),
+    error: wrap('error'),
+  };
+}
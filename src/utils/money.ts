@@ -0,0 +1,133 @@
+/**
+ * Integer-safe amount of money stored in minor units (tiyin, 1 so'm = 100 tiyin)
+ * Avoids float artifacts such as 19.99 * 100 = 1998.9999999999998
+ */
+export class Money {
+  private constructor(
+    readonly tiyin: number,
+    readonly currency: string
+  ) {}
+
+  /**
+   * Create from minor units (tiyin)
+   */
+  static fromTiyin(tiyin: number, currency = 'UZS'): Money {
+    if (!Number.isSafeInteger(tiyin)) {
+      throw new Error(`Amount in tiyin must be a safe integer, got ${tiyin}`);
+    }
+    return new Money(tiyin, currency);
+  }
+
+  /**
+   * Create from so'm, e.g. 19.99 or '19.99'
+   * Rejects values with more than two decimal places
+   */
+  static fromSom(som: number | string, currency = 'UZS'): Money {
+    if (typeof som === 'string') {
+      return Money.parse(som, currency);
+    }
+    if (!Number.isFinite(som)) {
+      throw new Error(`Invalid amount: ${som}`);
+    }
+
+    const tiyin = Math.round(som * 100);
+    if (Math.abs(som * 100 - tiyin) > 1e-6) {
+      throw new Error(`Amount has more than two decimal places: ${som}`);
+    }
+    return Money.fromTiyin(tiyin, currency);
+  }
+
+  /**
+   * Parse a so'm amount such as '1000', '19.99', '1 000,50' or "1 000 so'm"
+   */
+  static parse(input: string, currency = 'UZS'): Money {
+    const normalized = input
+      .trim()
+      .replace(/\s*(so['‘’`ʻ]?m|сум|uzs)$/i, '')
+      .replace(/\s/g, '')
+      .replace(',', '.');
+
+    const match = /^(-)?(\d+)(?:\.(\d{1,2}))?$/.exec(normalized);
+    if (!match) {
+      throw new Error(`Invalid amount: ${input}`);
+    }
+
+    const [, sign, whole, fraction = ''] = match;
+    const tiyin = Number(whole) * 100 + Number(fraction.padEnd(2, '0'));
+    return Money.fromTiyin(sign ? -tiyin : tiyin, currency);
+  }
+
+  static zero(currency = 'UZS'): Money {
+    return new Money(0, currency);
+  }
+
+  /**
+   * Amount in so'm as a number; use only for display or APIs that require it
+   */
+  toSom(): number {
+    return this.tiyin / 100;
+  }
+
+  /**
+   * Amount in so'm with exactly two decimals, e.g. '1000.00'
+   */
+  toSomString(): string {
+    const sign = this.tiyin < 0 ? '-' : '';
+    const abs = Math.abs(this.tiyin);
+    return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * Human readable amount, e.g. "1 000 000,50 so'm"
+   */
+  format(): string {
+    const [whole, fraction] = this.toSomString().split('.');
+    const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+    const amount = fraction === '00' ? grouped : `${grouped},${fraction}`;
+    return this.currency === 'UZS' ? `${amount} so'm` : `${amount} ${this.currency}`;
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromTiyin(this.tiyin + other.tiyin, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.fromTiyin(this.tiyin - other.tiyin, this.currency);
+  }
+
+  multiply(factor: number): Money {
+    if (!Number.isInteger(factor)) {
+      throw new Error(`Money can only be multiplied by an integer, got ${factor}`);
+    }
+    return Money.fromTiyin(this.tiyin * factor, this.currency);
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency(other);
+    return this.tiyin === other.tiyin ? 0 : this.tiyin < other.tiyin ? -1 : 1;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.tiyin === other.tiyin;
+  }
+
+  isBetween(min: Money, max: Money): boolean {
+    return this.compare(min) >= 0 && this.compare(max) <= 0;
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  toJSON(): { tiyin: number; currency: string } {
+    return { tiyin: this.tiyin, currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (this.currency !== other.currency) {
+      throw new Error(`Currency mismatch: ${this.currency} vs ${other.currency}`);
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { Money } from './money';
+import { WebhookRejection } from './webhook.security';
+
+/**
+ * Normalized payload of a payment lifecycle event
+ * @property provider - Provider that handled the webhook
+ * @property order_id - Merchant order id (Payme account field / Click merchant_trans_id)
+ * @property transaction_id - Provider transaction id (Payme id / Click click_trans_id)
+ * @property amount - Transaction amount
+ * @property reason - Payme cancel reason, for cancelled and refunded events
+ * @property raw - Webhook request that triggered the event, without headers; null when expireStaleTransactions cancelled it
+ */
+export interface PaymentEvent {
+  provider: 'payme' | 'click';
+  order_id: string;
+  transaction_id: string;
+  amount: Money;
+  reason?: number | null;
+  raw: unknown;
+}
+
+/**
+ * A rejected webhook together with the request that was rejected
+ */
+export interface WebhookRejectedEvent extends WebhookRejection {
+  raw: unknown;
+}
+
+/**
+ * Events emitted by the providers
+ * - payment.created: Payme CreateTransaction created a new transaction
+ * - payment.prepared: Click Prepare was accepted
+ * - payment.completed: Payme PerformTransaction or Click Complete succeeded
+ * - payment.cancelled: an unpaid transaction was cancelled, failed or expired
+ * - payment.refunded: a completed transaction was cancelled
+ * - webhook.rejected: auth, signature, sign_time or IP checks failed
+ */
+export interface PaymentEventMap {
+  'payment.created': PaymentEvent;
+  'payment.prepared': PaymentEvent;
+  'payment.completed': PaymentEvent;
+  'payment.cancelled': PaymentEvent;
+  'payment.refunded': PaymentEvent;
+  'webhook.rejected': WebhookRejectedEvent;
+}
+
+export type PaymentEventName = keyof PaymentEventMap;
+
+export type PaymentEventListener<E extends PaymentEventName> = (payload: PaymentEventMap[E]) => void | Promise<void>;
+
+/**
+ * Called when a listener throws or rejects
+ */
+export type ListenerErrorHandler = (error: unknown, event: PaymentEventName) => void;
+
+// Listeners are kept per event name, so each set only ever holds listeners for that event's payload
+type StoredListener = (payload: unknown) => void | Promise<void>;
+
+/**
+ * Typed event bus for payment lifecycle events
+ * Listeners run after the state change is stored; their failures are reported
+ * to the error handler and never change the webhook response
+ */
+export class PaymentEventBus {
+  private readonly listeners = new Map<PaymentEventName, Set<StoredListener>>();
+
+  constructor(
+    private readonly onListenerError: ListenerErrorHandler = (error, event) =>
+      console.error(`Listener for ${event} failed:`, error)
+  ) {}
+
+  /**
+   * Subscribe to an event; returns a function that unsubscribes
+   */
+  on<E extends PaymentEventName>(event: E, listener: PaymentEventListener<E>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener as StoredListener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<E extends PaymentEventName>(event: E, listener: PaymentEventListener<E>): () => void {
+    const off = this.on(event, payload => {
+      off();
+      return listener(payload);
+    });
+    return off;
+  }
+
+  off<E extends PaymentEventName>(event: E, listener: PaymentEventListener<E>): void {
+    this.listeners.get(event)?.delete(listener as StoredListener);
+  }
+
+  /**
+   * Run all listeners for an event and wait for them to settle
+   * Never rejects
+   */
+  async emit<E extends PaymentEventName>(event: E, payload: PaymentEventMap[E]): Promise<void> {
+    const listeners = [...(this.listeners.get(event) ?? [])];
+
+    await Promise.all(listeners.map(async listener => {
+      try {
+        await listener(payload);
+      } catch (error) {
+        this.reportError(error, event);
+      }
+    }));
+  }
+
+  private reportError(error: unknown, event: PaymentEventName): void {
+    try {
+      this.onListenerError(error, event);
+    } catch {
+      // A failing error handler must not break the webhook either
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { Instrumentation, MetricLabels, NOOP_SPAN, PAYMENT_METRICS, Span } from './instrumentation';
+
+/**
+ * Histogram buckets in seconds, suited to gateway round trips
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const HELP: Record<string, string> = {
+  [PAYMENT_METRICS.webhookRequests]: 'Webhook requests handled, by provider, method and error code',
+  [PAYMENT_METRICS.webhookDuration]: 'Webhook handling time in seconds',
+  [PAYMENT_METRICS.httpRequestDuration]: 'Outbound gateway call time in seconds, retries included',
+  [PAYMENT_METRICS.httpRetries]: 'Outbound gateway attempts that were retried',
+};
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * In-process metrics in the Prometheus text exposition format (0.0.4), no client library needed
+ * Spans are discarded; wrap it in your own Instrumentation to forward them to a tracer
+ * @param options.buckets - Histogram upper bounds (default: DEFAULT_BUCKETS)
+ */
+export class PrometheusExporter implements Instrumentation {
+  /**
+   * Content-Type to serve metrics() with
+   */
+  readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private readonly buckets: number[];
+  private readonly counters = new Map<string, Map<string, { labels: MetricLabels; value: number }>>();
+  private readonly histograms = new Map<string, Map<string, HistogramSeries>>();
+
+  constructor(options: { buckets?: number[] } = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  increment(name: string, labels: MetricLabels = {}, value = 1): void {
+    const series = this.series(this.counters, name);
+    const key = labelKey(labels);
+    const current = series.get(key);
+    if (current) {
+      current.value += value;
+    } else {
+      series.set(key, { labels, value });
+    }
+  }
+
+  observe(name: string, value: number, labels: MetricLabels = {}): void {
+    const series = this.series(this.histograms, name);
+    const key = labelKey(labels);
+    let histogram = series.get(key);
+    if (!histogram) {
+      histogram = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      series.set(key, histogram);
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) histogram!.counts[i]++;
+    });
+    histogram.sum += value;
+    histogram.count++;
+  }
+
+  startSpan(): Span {
+    return NOOP_SPAN;
+  }
+
+  /**
+   * Render every metric, e.g. app.get('/metrics', (req, res) => res.type(exporter.contentType).send(exporter.metrics()))
+   */
+  metrics(): string {
+    const lines: string[] = [];
+
+    for (const [name, series] of this.counters) {
+      lines.push(`# HELP ${name} ${HELP[name] ?? name}`, `# TYPE ${name} counter`);
+      for (const { labels, value } of series.values()) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+    }
+
+    for (const [name, series] of this.histograms) {
+      lines.push(`# HELP ${name} ${HELP[name] ?? name}`, `# TYPE ${name} histogram`);
+      for (const { labels, counts, sum, count } of series.values()) {
+        this.buckets.forEach((bound, i) => {
+          lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      }
+    }
+
+    return lines.length ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Drop every recorded series
+   */
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private series<T>(metrics: Map<string, Map<string, T>>, name: string): Map<string, T> {
+    if (!metrics.has(name)) {
+      metrics.set(name, new Map());
+    }
+    return metrics.get(name)!;
+  }
+}
+
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.keys(labels).map(key => `${key}="${escapeLabelValue(labels[key])}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
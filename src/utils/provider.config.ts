@@ -0,0 +1,144 @@
+import { ValidationError } from '../errors/payment.error';
+import { ClickConfig } from '../interfaces/click.interface';
+import { PaymeConfig } from '../interfaces/payme.interface';
+import { PaymeSubscribeConfig } from '../interfaces/payme-subscribe.interface';
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Build a PaymeConfig from PAYME_* variables
+ * Test mode follows NODE_ENV and selects PAYME_PASSWORD_TEST over PAYME_PASSWORD
+ */
+export function paymeConfigFromEnv(env: Env = process.env): PaymeConfig {
+  const test_mode = env.NODE_ENV !== 'production';
+  return {
+    merchant_id: env.PAYME_MERCHANT_ID,
+    login: env.PAYME_LOGIN,
+    password: test_mode ? env.PAYME_PASSWORD_TEST : env.PAYME_PASSWORD,
+    test_mode
+  };
+}
+
+/**
+ * Build a ClickConfig from CLICK_* variables; test mode follows NODE_ENV
+ */
+export function clickConfigFromEnv(env: Env = process.env): ClickConfig {
+  return {
+    merchant_id: env.CLICK_MERCHANT_ID,
+    service_id: env.CLICK_SERVICE_ID,
+    secret_key: env.CLICK_SECRET,
+    merchant_user_id: env.CLICK_MERCHANT_USER_ID,
+    test_mode: env.NODE_ENV !== 'production'
+  };
+}
+
+/**
+ * Check a PaymeConfig before a provider is built from it
+ * @param path - Prefix of the reported field names, e.g. 'acme.payme'
+ */
+export function validatePaymeConfig(config: PaymeConfig, path = 'payme'): ValidationError[] {
+  return [
+    required(config.merchant_id, `${path}.merchant_id`),
+    required(config.password, `${path}.password`),
+    environment(config.test_mode, `${path}.test_mode`),
+    config.account_field !== undefined ? required(config.account_field, `${path}.account_field`) : null,
+    nonNegative(config.transaction_timeout, `${path}.transaction_timeout`),
+    ...validateIdempotency(config, path),
+    ...validateTransport(config, path)
+  ].filter((error): error is ValidationError => error !== null);
+}
+
+/**
+ * Check a ClickConfig before a provider is built from it
+ * @param path - Prefix of the reported field names, e.g. 'acme.click'
+ */
+export function validateClickConfig(config: ClickConfig, path = 'click'): ValidationError[] {
+  return [
+    required(config.merchant_id, `${path}.merchant_id`),
+    required(config.service_id, `${path}.service_id`),
+    required(config.secret_key, `${path}.secret_key`),
+    environment(config.test_mode, `${path}.test_mode`),
+    config.return_url ? url(config.return_url, `${path}.return_url`) : null,
+    nonNegative(config.prepare_timeout, `${path}.prepare_timeout`),
+    ...validateIdempotency(config, path),
+    ...validateTransport(config, path)
+  ].filter((error): error is ValidationError => error !== null);
+}
+
+/**
+ * Check a PaymeSubscribeConfig before a client is built from it
+ * @param path - Prefix of the reported field names, e.g. 'acme.payme_subscribe'
+ */
+export function validatePaymeSubscribeConfig(config: PaymeSubscribeConfig, path = 'payme_subscribe'): ValidationError[] {
+  return [
+    required(config.merchant_id, `${path}.merchant_id`),
+    environment(config.test_mode, `${path}.test_mode`),
+    config.api_url !== undefined ? url(config.api_url, `${path}.api_url`) : null
+  ].filter((error): error is ValidationError => error !== null);
+}
+
+/**
+ * Throw the collected configuration errors, merged into one when there are several
+ */
+export function assertValidConfig(errors: ValidationError[]): void {
+  if (errors.length === 0) return;
+  if (errors.length === 1) throw errors[0];
+
+  throw new ValidationError(
+    'CONFIGURATION_ERROR',
+    `Invalid configuration: ${errors.map(error => error.message).join('; ')}`,
+    errors[0].field
+  );
+}
+
+function validateTransport(
+  config: Pick<PaymeConfig, 'api_url' | 'timeout' | 'retries' | 'retry_delay'>,
+  path: string
+): Array<ValidationError | null> {
+  return [
+    config.api_url !== undefined ? url(config.api_url, `${path}.api_url`) : null,
+    nonNegative(config.timeout, `${path}.timeout`),
+    nonNegative(config.retries, `${path}.retries`),
+    nonNegative(config.retry_delay, `${path}.retry_delay`)
+  ];
+}
+
+function validateIdempotency(
+  config: Pick<PaymeConfig, 'idempotency' | 'webhook_dedupe'>,
+  path: string
+): Array<ValidationError | null> {
+  return [
+    nonNegative(config.idempotency?.ttl, `${path}.idempotency.ttl`),
+    nonNegative(config.webhook_dedupe?.ttl, `${path}.webhook_dedupe.ttl`)
+  ];
+}
+
+function required(value: string | undefined, field: string): ValidationError | null {
+  return value && value.trim()
+    ? null
+    : new ValidationError('CONFIGURATION_ERROR', `${field} is required`, field);
+}
+
+/**
+ * test_mode has no default, so a missing one never silently picks the test or production gateway
+ */
+function environment(value: boolean | undefined, field: string): ValidationError | null {
+  return typeof value === 'boolean'
+    ? null
+    : new ValidationError('CONFIGURATION_ERROR', `${field} is required: true for the test environment, false for production`, field);
+}
+
+function url(value: string, field: string): ValidationError | null {
+  try {
+    new URL(value);
+    return null;
+  } catch {
+    return new ValidationError('CONFIGURATION_ERROR', `${field} must be an absolute URL, got '${value}'`, field);
+  }
+}
+
+function nonNegative(value: number | undefined, field: string): ValidationError | null {
+  return value === undefined || (Number.isFinite(value) && value >= 0)
+    ? null
+    : new ValidationError('CONFIGURATION_ERROR', `${field} must be a non-negative number`, field);
+}
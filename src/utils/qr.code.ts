@@ -0,0 +1,480 @@
+import { deflateSync } from 'zlib';
+import { ValidationError } from '../errors/payment.error';
+import { escapeHtml } from './checkout.html';
+import { crc32 } from './crc32';
+
+/**
+ * QR error correction level: recovers about 7% (L), 15% (M), 25% (Q) or 30% (H) of damaged modules
+ */
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+/**
+ * @property error_correction - Default: 'M'
+ * @property margin - Quiet zone in modules (default: 4)
+ * @property scale - Pixels per module (default: 8)
+ * @property dark - Module colour, '#rgb' or '#rrggbb' (default: '#000000')
+ * @property light - Background colour, '#rgb' or '#rrggbb' (default: '#ffffff')
+ */
+export interface QrCodeOptions {
+  error_correction?: QrErrorCorrection;
+  margin?: number;
+  scale?: number;
+  dark?: string;
+  light?: string;
+}
+
+/**
+ * Encoded QR symbol; modules[y][x] is true for dark modules
+ */
+export interface QrCode {
+  version: number;
+  size: number;
+  modules: boolean[][];
+}
+
+// Per level, indexed by version (1-40): error correction codewords per block and number of blocks
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+const ECC_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+/**
+ * Encode text (UTF-8, byte mode) into the smallest QR symbol that holds it
+ * Runs entirely in-process; throws ValidationError when the text does not fit version 40
+ */
+export function encodeQrCode(text: string, error_correction: QrErrorCorrection = 'M'): QrCode {
+  const data = Buffer.from(text, 'utf8');
+
+  let version = 1;
+  while (version <= 40 && byteModeBits(data.length, version) > dataCodewords(version, error_correction) * 8) {
+    version++;
+  }
+  if (version > 40) {
+    throw new ValidationError('QR_DATA_TOO_LONG', `${data.length} bytes do not fit in a QR code at level ${error_correction}`);
+  }
+
+  const capacity = dataCodewords(version, error_correction);
+  const bits: number[] = [];
+  appendBits(bits, 0b0100, 4);
+  appendBits(bits, data.length, version <= 9 ? 8 : 16);
+  data.forEach(byte => appendBits(bits, byte, 8));
+  appendBits(bits, 0, Math.min(4, capacity * 8 - bits.length));
+  appendBits(bits, 0, (8 - bits.length % 8) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+
+  const symbol = new QrSymbol(version, error_correction);
+  symbol.drawCodewords(interleaveWithEcc(codewords, version, error_correction));
+  symbol.applyBestMask();
+  return { version, size: symbol.size, modules: symbol.modules };
+}
+
+/**
+ * Render text as a scalable SVG QR code
+ */
+export function qrCodeToSvg(text: string, options: QrCodeOptions = {}): string {
+  const { modules, size } = encodeQrCode(text, options.error_correction);
+  const margin = options.margin ?? 4;
+  const dimension = size + margin * 2;
+  const pixels = dimension * (options.scale ?? 8);
+
+  const path: string[] = [];
+  modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+  }));
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" `
+    + `width="${pixels}" height="${pixels}" shape-rendering="crispEdges">`
+    + `<rect width="100%" height="100%" fill="${escapeHtml(options.light ?? '#ffffff')}"/>`
+    + `<path d="${path.join('')}" fill="${escapeHtml(options.dark ?? '#000000')}"/></svg>`;
+}
+
+/**
+ * Render text as a PNG QR code, returned as a data:image/png;base64 URI for <img src>
+ */
+export function qrCodeToPngDataUri(text: string, options: QrCodeOptions = {}): string {
+  const { modules, size } = encodeQrCode(text, options.error_correction);
+  const margin = options.margin ?? 4;
+  const scale = options.scale ?? 8;
+  const pixels = (size + margin * 2) * scale;
+
+  // 1-bit palette image: index 0 is the background, 1 a dark module
+  const rowBytes = Math.ceil(pixels / 8);
+  const raw = Buffer.alloc((rowBytes + 1) * pixels);
+  for (let py = 0; py < pixels; py++) {
+    const y = Math.floor(py / scale) - margin;
+    for (let px = 0; px < pixels; px++) {
+      const x = Math.floor(px / scale) - margin;
+      if (y >= 0 && y < size && x >= 0 && x < size && modules[y][x]) {
+        raw[py * (rowBytes + 1) + 1 + (px >> 3)] |= 0x80 >> (px & 7);
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(pixels, 0);
+  header.writeUInt32BE(pixels, 4);
+  header.set([1, 3, 0, 0, 0], 8);
+
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('PLTE', Buffer.from([...parseColor(options.light ?? '#ffffff'), ...parseColor(options.dark ?? '#000000')])),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0))
+  ]);
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+/**
+ * Module matrix under construction; function patterns are fixed before data and masking
+ */
+class QrSymbol {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(private readonly version: number, private readonly error_correction: QrErrorCorrection) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let bit = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        const y = upward ? this.size - 1 - vertical : vertical;
+        for (const x of [right, right - 1]) {
+          if (this.reserved[y][x] || bit >= codewords.length * 8) continue;
+          this.modules[y][x] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) === 1;
+          bit++;
+        }
+      }
+    }
+  }
+
+  applyBestMask(): void {
+    let best = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+      this.applyMask(mask);
+      this.drawFormatBits(mask);
+      const penalty = this.penalty();
+      if (penalty < bestPenalty) {
+        best = mask;
+        bestPenalty = penalty;
+      }
+      this.applyMask(mask);
+    }
+    this.applyMask(best);
+    this.drawFormatBits(best);
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.set(6, i, i % 2 === 0);
+      this.set(i, 6, i % 2 === 0);
+    }
+
+    for (const [cx, cy] of [[3, 3], [this.size - 4, 3], [3, this.size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            this.set(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    const positions = this.alignmentPositions();
+    const last = positions.length - 1;
+    positions.forEach((cx, i) => positions.forEach((cy, j) => {
+      // Alignment patterns never overlap the finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          this.set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    }));
+
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return [];
+
+    const count = Math.floor(this.version / 7) + 2;
+    const step = this.version === 32 ? 26 : Math.ceil((this.version * 4 + 4) / (count * 2 - 2)) * 2;
+    const positions = [6];
+    for (let position = this.size - 7; positions.length < count; position -= step) {
+      positions.splice(1, 0, position);
+    }
+    return positions;
+  }
+
+  private drawFormatBits(mask: number): void {
+    const data = (FORMAT_BITS[this.error_correction] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) this.set(8, i, bit(i));
+    this.set(8, 7, bit(6));
+    this.set(8, 8, bit(7));
+    this.set(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, bit(i));
+
+    for (let i = 0; i < 8; i++) this.set(this.size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) this.set(8, this.size - 15 + i, bit(i));
+    this.set(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.set(a, b, dark);
+      this.set(b, a, dark);
+    }
+  }
+
+  private applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && maskBit(mask, x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * ISO/IEC 18004 mask penalty: long runs, 2x2 blocks, finder-like patterns and dark/light imbalance
+   */
+  private penalty(): number {
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map(row => row[x]))
+    ];
+
+    let penalty = 0;
+    for (const line of lines) {
+      let run = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+      penalty += finderLikePatterns(line) * 40;
+    }
+
+    let dark = 0;
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        const color = this.modules[y][x];
+        if (color) dark++;
+        if (x + 1 < this.size && y + 1 < this.size
+          && color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          penalty += 3;
+        }
+      }
+    }
+
+    const total = this.size * this.size;
+    return penalty + (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  }
+
+  private set(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+}
+
+/**
+ * Count dark:light:dark:light:dark runs in a 1:1:3:1:1 ratio with a light run of 4 units on either side,
+ * once per side; the quiet zone around the symbol counts as light
+ */
+function finderLikePatterns(line: boolean[]): number {
+  // Alternating run lengths, light first and last, the outer runs extended by the quiet zone
+  const runs = [line.length];
+  line.forEach(dark => {
+    if (dark === (runs.length % 2 === 0)) {
+      runs[runs.length - 1]++;
+    } else {
+      runs.push(1);
+    }
+  });
+  if (runs.length % 2 === 0) runs.push(0);
+  runs[runs.length - 1] += line.length;
+
+  let count = 0;
+  for (let i = 1; i + 5 < runs.length; i += 2) {
+    const unit = runs[i];
+    if (runs[i + 1] !== unit || runs[i + 2] !== unit * 3 || runs[i + 3] !== unit || runs[i + 4] !== unit) continue;
+    if (runs[i - 1] >= unit * 4 && runs[i + 5] >= unit) count++;
+    if (runs[i + 5] >= unit * 4 && runs[i - 1] >= unit) count++;
+  }
+  return count;
+}
+
+function maskBit(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return (x * y) % 2 + (x * y) % 3 === 0;
+    case 6: return ((x * y) % 2 + (x * y) % 3) % 2 === 0;
+    default: return ((x + y) % 2 + (x * y) % 3) % 2 === 0;
+  }
+}
+
+function rawDataModules(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    modules -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+}
+
+function dataCodewords(version: number, level: QrErrorCorrection): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[level][version] * ECC_BLOCKS[level][version];
+}
+
+function byteModeBits(length: number, version: number): number {
+  return 4 + (version <= 9 ? 8 : 16) + length * 8;
+}
+
+function appendBits(bits: number[], value: number, length: number): void {
+  for (let i = length - 1; i >= 0; i--) {
+    bits.push((value >>> i) & 1);
+  }
+}
+
+/**
+ * Split data into blocks, append Reed-Solomon codewords to each, and interleave the blocks
+ */
+function interleaveWithEcc(data: number[], version: number, level: QrErrorCorrection): number[] {
+  const blockCount = ECC_BLOCKS[level][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+    offset += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Short blocks get a placeholder so all blocks line up; it is skipped below
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function parseColor(color: string): number[] {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color)?.[1];
+  if (!hex) {
+    throw new ValidationError('INVALID_COLOR', `PNG colours must be '#rgb' or '#rrggbb', got ${color}`, 'color');
+  }
+  const full = hex.length === 3 ? hex.replace(/./g, digit => digit + digit) : hex;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16));
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(data.length + 12);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, 'ascii');
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, data.length + 8)), data.length + 8);
+  return chunk;
+}
@@ -0,0 +1,167 @@
+import { randomUUID } from 'crypto';
+import { PaymentFailure, toPaymentError, ValidationError } from '../errors/payment.error';
+import { RefundOptions, RefundResult } from '../interfaces/payment.interface';
+import { RefundRecord, SettledRefundStatus, TransactionStore } from '../interfaces/transaction.interface';
+import { Money } from './money';
+
+/**
+ * Keeps the refunds of each payment so their total never exceeds the paid amount
+ * Refunds of one payment run one at a time within the process
+ */
+export class RefundLedger {
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly provider: RefundRecord['provider'],
+    private readonly store: TransactionStore<RefundRecord>
+  ) {}
+
+  /**
+   * Refunds of a payment, oldest first
+   */
+  async list(transaction_id: string): Promise<RefundRecord[]> {
+    const records = await this.store.findByOrderId(transaction_id);
+    return records
+      .filter(record => record.provider === this.provider)
+      .sort((a, b) => a.create_time - b.create_time);
+  }
+
+  /**
+   * Amount of a payment refunded successfully
+   */
+  async refunded(transaction_id: string, currency?: string): Promise<Money> {
+    const records = await this.list(transaction_id);
+    return total(records.filter(record => record.status === 'succeeded'), currency);
+  }
+
+  /**
+   * Refund up to what is left of the paid amount
+   * A pending record reserves the amount while execute calls the gateway; it stays pending when
+   * the outcome is unknown (network error or timeout), so the amount cannot be refunded twice,
+   * until settlePending or settle records what happened
+   * @param execute - Refunds at the gateway; receives the amount and the amount already refunded or reserved
+   */
+  refund(
+    transaction_id: string,
+    paid: Money,
+    options: RefundOptions,
+    execute: (amount: Money, reserved: Money) => Promise<void>
+  ): Promise<RefundResult> {
+    return this.exclusive(transaction_id, async () => {
+      const records = await this.list(transaction_id);
+      const reserved = total(records.filter(record => record.status !== 'failed'), paid.currency);
+      const remaining = paid.subtract(reserved);
+      const amount = options.amount ?? remaining;
+
+      const invalid = validateAmount(amount, remaining);
+      if (invalid) {
+        return { success: false, transaction_id, error: invalid };
+      }
+
+      const record: RefundRecord = {
+        id: randomUUID(),
+        order_id: transaction_id,
+        provider: this.provider,
+        amount: amount.tiyin,
+        reason: options.reason,
+        status: 'pending',
+        create_time: Date.now()
+      };
+      await this.store.save(record);
+
+      let error: PaymentFailure | null = null;
+      try {
+        await execute(amount, reserved);
+      } catch (caught) {
+        error = toPaymentError(caught, 'PAYMENT_REFUND_ERROR');
+      }
+
+      if (!error || (error.kind !== 'network' && error.kind !== 'timeout')) {
+        record.status = error ? 'failed' : 'succeeded';
+        await this.store.save(record);
+      }
+
+      return error
+        ? { success: false, transaction_id, refund_id: record.id, error }
+        : { success: true, transaction_id, refund_id: record.id, amount, total_refunded: reserved.add(amount) };
+    });
+  }
+
+  /**
+   * Settle pending refunds from what the gateway reports now
+   * Runs after the refunds of this payment in progress within the process; one still in flight elsewhere
+   * may be settled early, and its own outcome replaces the settled status when it finishes
+   * @param resolve - Outcome of a pending refund according to the gateway, or null when it cannot tell
+   */
+  settlePending(
+    transaction_id: string,
+    resolve: (record: RefundRecord) => Promise<SettledRefundStatus | null>
+  ): Promise<void> {
+    return this.exclusive(transaction_id, async () => {
+      const records = await this.list(transaction_id);
+      for (const record of records.filter(candidate => candidate.status === 'pending')) {
+        const status = await resolve(record);
+        if (status) {
+          record.status = status;
+          await this.store.save(record);
+        }
+      }
+    });
+  }
+
+  /**
+   * Record the outcome of a pending refund found out some other way, e.g. in the merchant cabinet
+   * @returns The updated record, or null when the payment has no pending refund with this id
+   */
+  settle(transaction_id: string, refund_id: string, status: SettledRefundStatus): Promise<RefundRecord | null> {
+    return this.exclusive(transaction_id, async () => {
+      const record = (await this.list(transaction_id)).find(candidate => candidate.id === refund_id);
+      if (record?.status !== 'pending') {
+        return null;
+      }
+      record.status = status;
+      await this.store.save(record);
+      return record;
+    });
+  }
+
+  private exclusive<T>(transaction_id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(transaction_id) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+    this.queues.set(transaction_id, settled);
+    void settled.then(() => {
+      if (this.queues.get(transaction_id) === settled) this.queues.delete(transaction_id);
+    });
+    return next;
+  }
+}
+
+/**
+ * Status of a completed payment given what has been refunded
+ */
+export function refundStatus(paid: Money, refunded: Money): 'completed' | 'refunded' | 'partially_refunded' {
+  if (refunded.tiyin <= 0) return 'completed';
+  return refunded.compare(paid) >= 0 ? 'refunded' : 'partially_refunded';
+}
+
+function total(records: RefundRecord[], currency?: string): Money {
+  return records.reduce((sum, record) => sum.add(Money.fromTiyin(record.amount, currency)), Money.zero(currency));
+}
+
+function validateAmount(amount: Money, remaining: Money): ValidationError | null {
+  if (remaining.tiyin <= 0) {
+    return new ValidationError('ALREADY_REFUNDED', 'Payment is already fully refunded', 'amount');
+  }
+  if (amount.tiyin <= 0) {
+    return new ValidationError('INVALID_REFUND_AMOUNT', `Refund amount must be positive, got ${amount}`, 'amount');
+  }
+  if (amount.compare(remaining) > 0) {
+    return new ValidationError(
+      'REFUND_EXCEEDS_PAYMENT',
+      `Refund of ${amount} exceeds the ${remaining} left to refund`,
+      'amount'
+    );
+  }
+  return null;
+}
@@ -0,0 +1,230 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { BlockList, isIP } from 'net';
+import { DateTime } from 'luxon';
+
+export enum WebhookRejectionReason {
+  InvalidAuthorization = 'invalid_authorization',
+  InvalidSignature = 'invalid_signature',
+  StaleSignature = 'stale_signature',
+  IpNotAllowed = 'ip_not_allowed'
+}
+
+/**
+ * Describes why a webhook request was rejected
+ * @property provider - Provider that received the webhook
+ * @property reason - Typed rejection reason, suitable for alerting
+ * @property message - Human readable details
+ * @property ip - Source IP of the request, when known
+ */
+export interface WebhookRejection {
+  provider: 'payme' | 'click';
+  reason: WebhookRejectionReason;
+  message: string;
+  ip?: string;
+}
+
+/**
+ * Request metadata that is not part of the webhook body
+ * @property ip - Source IP of the request (e.g. Express req.ip)
+ * @property correlation_id - Id attached to every log line of this webhook (default: random UUID)
+ */
+export interface WebhookContext {
+  ip?: string;
+  correlation_id?: string;
+}
+
+/**
+ * Webhook security settings shared by both providers
+ * @property allowed_ips - Source IPs or CIDR ranges allowed to call the webhook (default: any)
+ * @property max_sign_age - Maximum age of Click sign_time in seconds (default: not checked)
+ * @property replay_ttl - How long a repeated Click click_trans_id+action pair is answered with the first response,
+ *   in seconds (default: repeats are handled again)
+ */
+export interface WebhookSecurityConfig {
+  allowed_ips?: string[];
+  max_sign_age?: number;
+  replay_ttl?: number;
+}
+
+/**
+ * Compare two secrets in constant time
+ * Both values are hashed first so their lengths never leak through timing either
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const hashA = createHash('sha256').update(a).digest();
+  const hashB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(hashA, hashB);
+}
+
+/**
+ * Fields covered by a Click webhook signature; amount exactly as sent, e.g. '1000.00'
+ */
+export interface ClickSignFields {
+  click_trans_id: string | number;
+  service_id: string | number;
+  merchant_trans_id: string;
+  merchant_prepare_id?: string | number;
+  amount: string | number;
+  action: string | number;
+  sign_time: string;
+}
+
+/**
+ * Click webhook sign_string:
+ * md5(click_trans_id + service_id + secret_key + merchant_trans_id + [merchant_prepare_id] + amount + action + sign_time),
+ * merchant_prepare_id is only part of Complete (action 1)
+ */
+export function clickSignString(fields: ClickSignFields, secret_key: string): string {
+  return createHash('md5')
+    .update([
+      fields.click_trans_id,
+      fields.service_id,
+      secret_key,
+      fields.merchant_trans_id,
+      Number(fields.action) === 1 ? fields.merchant_prepare_id ?? '' : '',
+      fields.amount,
+      fields.action,
+      fields.sign_time
+    ].join(''))
+    .digest('hex');
+}
+
+/**
+ * Basic credentials Payme sends with every webhook: base64(login:password)
+ */
+export function paymeBasicToken(password: string, login = 'Paycom'): string {
+  return Buffer.from(`${login}:${password}`).toString('base64');
+}
+
+/**
+ * Remembers recently seen keys, each with a value, for a fixed time window
+ */
+export class ReplayCache<T = unknown> {
+  private readonly seen = new Map<string, { value: T; expiresAt: number }>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  /**
+   * Value recorded for the key within the window, or undefined
+   */
+  get(key: string, now = Date.now()): T | undefined {
+    this.prune(now);
+    return this.seen.get(key)?.value;
+  }
+
+  /**
+   * Record the key; returns false if it was already seen within the window
+   */
+  remember(key: string, value: T, now = Date.now()): boolean {
+    this.prune(now);
+    if (this.seen.has(key)) return false;
+
+    this.seen.set(key, { value, expiresAt: now + this.ttlMs });
+    return true;
+  }
+
+  forget(key: string): void {
+    this.seen.delete(key);
+  }
+
+  private prune(now: number): void {
+    // Map iteration follows insertion order, which is also expiry order
+    for (const [key, { expiresAt }] of this.seen) {
+      if (expiresAt > now) break;
+      this.seen.delete(key);
+    }
+  }
+}
+
+/**
+ * Matches source IPs against a list of addresses and CIDR ranges
+ */
+export class IpAllowlist {
+  private readonly list = new BlockList();
+
+  constructor(entries: string[]) {
+    for (const entry of entries) {
+      const [address, prefix] = entry.trim().split('/');
+      if (!isIP(address)) {
+        throw new Error(`Invalid IP allowlist entry: ${entry}`);
+      }
+      const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+
+      if (prefix === undefined) {
+        this.list.addAddress(address, type);
+      } else {
+        this.list.addSubnet(address, Number(prefix), type);
+      }
+    }
+  }
+
+  allows(ip: string): boolean {
+    // Express reports IPv4 clients of dual-stack servers as ::ffff:a.b.c.d
+    const address = ip.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+    const type = isIP(address);
+    if (!type) return false;
+    return this.list.check(address, type === 6 ? 'ipv6' : 'ipv4');
+  }
+}
+
+/**
+ * Webhook checks beyond signature verification, shared by PaymeProvider and ClickProvider
+ * Each check returns a rejection reason, or null when the request passes
+ */
+export class WebhookSecurity {
+  private readonly allowlist?: IpAllowlist;
+  private readonly replayCache?: ReplayCache<Promise<unknown>>;
+
+  constructor(private readonly config: WebhookSecurityConfig = {}) {
+    if (config.allowed_ips?.length) {
+      this.allowlist = new IpAllowlist(config.allowed_ips);
+    }
+    if (config.replay_ttl) {
+      this.replayCache = new ReplayCache(config.replay_ttl * 1000);
+    }
+  }
+
+  checkIp(context?: WebhookContext): WebhookRejectionReason | null {
+    if (!this.allowlist) return null;
+    if (context?.ip && this.allowlist.allows(context.ip)) return null;
+    return WebhookRejectionReason.IpNotAllowed;
+  }
+
+  /**
+   * Click sends sign_time as 'YYYY-MM-DD HH:mm:ss' in Tashkent time
+   */
+  checkSignTime(sign_time: string, now = Date.now()): WebhookRejectionReason | null {
+    if (!this.config.max_sign_age) return null;
+
+    const signedAt = DateTime.fromFormat(sign_time, 'yyyy-MM-dd HH:mm:ss', { zone: 'Asia/Tashkent' });
+    if (!signedAt.isValid) return WebhookRejectionReason.StaleSignature;
+
+    const age = (now - signedAt.toMillis()) / 1000;
+    return Math.abs(age) > this.config.max_sign_age ? WebhookRejectionReason.StaleSignature : null;
+  }
+
+  /**
+   * Run a webhook handler unless the same key was handled within replay_ttl
+   * A repeat gets the first response, shared while it is still in flight; when the handler throws
+   * the key is forgotten, so the gateway's retry is handled normally
+   */
+  async guardReplay<T>(key: string, handle: () => Promise<T>): Promise<{ response: T; replayed: boolean }> {
+    if (!this.replayCache) {
+      return { response: await handle(), replayed: false };
+    }
+
+    const earlier = this.replayCache.get(key) as Promise<T> | undefined;
+    if (earlier) {
+      return { response: await earlier, replayed: true };
+    }
+
+    const response = handle();
+    this.replayCache.remember(key, response);
+    try {
+      return { response: await response, replayed: false };
+    } catch (error) {
+      this.replayCache.forget(key);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { constants, deflateRawSync } from 'zlib';
+import { escapeHtml } from './checkout.html';
+import { crc32 } from './crc32';
+
+export type XlsxCell = string | number | boolean | null | undefined;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const CONTENT_TYPES = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+// Rows are deflated once this many characters of sheet XML have piled up
+const BATCH_SIZE = 64 * 1024;
+
+/**
+ * Stream a single-sheet .xlsx workbook: the header row, then one row per item
+ * Rows are compressed in batches as they arrive, so the workbook is never held in memory
+ * Strings are written inline and numbers as numbers; there are no styles or formulas
+ */
+export async function* streamXlsx(
+  header: string[],
+  rows: AsyncIterable<XlsxCell[]> | Iterable<XlsxCell[]>,
+  sheet_name = 'Sheet1'
+): AsyncGenerator<Buffer> {
+  const zip = new ZipWriter();
+
+  yield* zip.entry('[Content_Types].xml', [
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    `<Override PartName="/xl/workbook.xml" ContentType="${CONTENT_TYPES}.sheet.main+xml"/>` +
+    `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="${CONTENT_TYPES}.worksheet+xml"/>` +
+    `</Types>`
+  ]);
+  yield* zip.entry('_rels/.rels', [
+    `${XML_HEADER}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+    `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIPS}/officeDocument" Target="xl/workbook.xml"/>` +
+    `</Relationships>`
+  ]);
+  yield* zip.entry('xl/workbook.xml', [
+    `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${DOCUMENT_RELATIONSHIPS}">` +
+    `<sheets><sheet name="${xmlText(sheetName(sheet_name))}" sheetId="1" r:id="rId1"/></sheets>` +
+    `</workbook>`
+  ]);
+  yield* zip.entry('xl/_rels/workbook.xml.rels', [
+    `${XML_HEADER}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+    `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIPS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+    `</Relationships>`
+  ]);
+  yield* zip.entry('xl/worksheets/sheet1.xml', sheetXml(header, rows));
+  yield zip.end();
+}
+
+async function* sheetXml(header: string[], rows: AsyncIterable<XlsxCell[]> | Iterable<XlsxCell[]>): AsyncGenerator<string> {
+  let batch = `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${rowXml(header, 1)}`;
+  let index = 1;
+
+  for await (const row of rows) {
+    batch += rowXml(row, ++index);
+    if (batch.length >= BATCH_SIZE) {
+      yield batch;
+      batch = '';
+    }
+  }
+  yield `${batch}</sheetData></worksheet>`;
+}
+
+function rowXml(cells: XlsxCell[], index: number): string {
+  return `<row r="${index}">${cells.map(cellXml).join('')}</row>`;
+}
+
+function cellXml(value: XlsxCell): string {
+  if (value === null || value === undefined || value === '') return '<c/>';
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c t="inlineStr"><is><t xml:space="preserve">${xmlText(String(value))}</t></is></c>`;
+}
+
+function xmlText(value: string): string {
+  // Keep only characters XML 1.0 allows: tab, line breaks and U+0020 to U+FFFD (surrogate pairs included)
+  return escapeHtml(value.replace(/[^\t\n\r\u0020-\ufffd]/g, ''));
+}
+
+function sheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Sheet1';
+}
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressed: number;
+  size: number;
+}
+
+/**
+ * Minimal streaming ZIP writer: deflated entries whose sizes follow the data in a descriptor
+ */
+class ZipWriter {
+  private readonly entries: ZipEntry[] = [];
+  private readonly time: number;
+  private readonly date: number;
+  private offset = 0;
+
+  constructor(now = new Date()) {
+    this.time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+    this.date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  }
+
+  async *entry(name: string, chunks: AsyncIterable<string> | Iterable<string>): AsyncGenerator<Buffer> {
+    const entry: ZipEntry = { name: Buffer.from(name, 'utf8'), offset: this.offset, crc: 0, compressed: 0, size: 0 };
+    this.entries.push(entry);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    this.writeCommon(header, 4, entry, false);
+    yield this.track(Buffer.concat([header, entry.name]));
+
+    // Sync-flushed deflate output ends on a byte boundary, so each chunk's blocks can simply follow the last
+    for await (const chunk of chunks) {
+      const data = Buffer.from(chunk, 'utf8');
+      if (data.length === 0) continue;
+      entry.crc = crc32(data, entry.crc);
+      entry.size += data.length;
+
+      const deflated = deflateRawSync(data, { finishFlush: constants.Z_SYNC_FLUSH });
+      entry.compressed += deflated.length;
+      yield this.track(deflated);
+    }
+    // Empty final block
+    entry.compressed += 2;
+    yield this.track(Buffer.from([0x03, 0x00]));
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressed, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield this.track(descriptor);
+  }
+
+  /**
+   * Central directory and end record
+   */
+  end(): Buffer {
+    const directory = this.entries.map(entry => {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);  // version made by
+      this.writeCommon(header, 6, entry, true);
+      header.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([header, entry.name]);
+    });
+    const size = directory.reduce((sum, header) => sum + header.length, 0);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(size, 12);
+    end.writeUInt32LE(this.offset, 16);
+    return Buffer.concat([...directory, end]);
+  }
+
+  /**
+   * Fields shared by local and central headers, from 'version needed' to the extra field length
+   * Local headers leave crc and sizes at zero: they are only known once the data is written
+   */
+  private writeCommon(header: Buffer, at: number, entry: ZipEntry, sized: boolean): void {
+    header.writeUInt16LE(20, at);  // version needed: deflate
+    header.writeUInt16LE(0x0808, at + 2);  // data descriptor, UTF-8 names
+    header.writeUInt16LE(8, at + 4);  // deflate
+    header.writeUInt16LE(this.time, at + 6);
+    header.writeUInt16LE(this.date, at + 8);
+    header.writeUInt32LE(sized ? entry.crc : 0, at + 10);
+    header.writeUInt32LE(sized ? entry.compressed : 0, at + 14);
+    header.writeUInt32LE(sized ? entry.size : 0, at + 18);
+    header.writeUInt16LE(entry.name.length, at + 22);
+  }
+
+  private track(bytes: Buffer): Buffer {
+    this.offset += bytes.length;
+    return bytes;
+  }
+}